@@ -0,0 +1,93 @@
+import { DidoxValidationError } from '../http/errors.js';
+import { DidoxTestServer } from '../testing/DidoxTestServer.js';
+import type { DidoxClient } from './DidoxClient.js';
+
+const USER = '123456789';
+const FIRST = '111111111';
+const SECOND = '222222222';
+
+describe('DidoxClient.forCompany', () => {
+  let server: DidoxTestServer;
+  let didox: DidoxClient;
+  let userToken: string;
+
+  const keysFor = (path: string) => server.requests
+    .filter(request => request.path === path)
+    .map(request => request.headers['user-key']);
+
+  beforeEach(async () => {
+    server = new DidoxTestServer();
+    server
+      .seedCompany({ tin: USER, relatedCompanies: [FIRST, SECOND] })
+      .seedCompany({ tin: FIRST })
+      .seedCompany({ tin: SECOND });
+    didox = server.createClient();
+    ({ token: userToken } = await didox.auth.loginLegalEntity({ taxId: USER, password: 'password123' }));
+    server.requests.length = 0;
+  });
+
+  it('sends each company its own token and leaves the parent token alone', async () => {
+    const [first, second] = await Promise.all([
+      didox.forCompany(FIRST).profile.getProfile(),
+      didox.forCompany(SECOND).profile.getProfile()
+    ]);
+    const parent = await didox.profile.getProfile();
+
+    expect([first.tin, second.tin, parent.tin]).toEqual([FIRST, SECOND, USER]);
+
+    // Company logins are made with the parent token
+    expect(keysFor(`/v1/auth/company/${FIRST}/login/ru`)).toEqual([userToken]);
+    expect(keysFor(`/v1/auth/company/${SECOND}/login/ru`)).toEqual([userToken]);
+
+    const [firstKey, secondKey, parentKey] = keysFor('/v1/profile');
+    expect(new Set([firstKey, secondKey, parentKey]).size).toBe(3);
+    expect(parentKey).toBe(userToken);
+  });
+
+  it('logs in to each company once and reuses the client', async () => {
+    const scoped = didox.forCompany(FIRST);
+
+    await scoped.profile.getProfile();
+    await scoped.account.getProfile();
+
+    expect(didox.forCompany(FIRST)).toBe(scoped);
+    expect(keysFor(`/v1/auth/company/${FIRST}/login/ru`)).toHaveLength(1);
+  });
+
+  it('renews only the company token that was rejected', async () => {
+    didox = server.createClient({ session: { credentials: { taxId: USER, password: 'password123' } } });
+    const first = didox.forCompany(FIRST);
+    const second = didox.forCompany(SECOND);
+    await Promise.all([first.profile.getProfile(), second.profile.getProfile()]);
+    server.expireTokens();
+    server.requests.length = 0;
+
+    // The company login with the stale parent token fails, so the parent logs in again first
+    await expect(first.profile.getProfile()).resolves.toMatchObject({ tin: FIRST });
+
+    expect(server.requests.map(request => request.path)).toEqual([
+      '/v1/profile',
+      `/v1/auth/company/${FIRST}/login/ru`,
+      `/v1/auth/${USER}/password/ru`,
+      `/v1/auth/company/${FIRST}/login/ru`,
+      '/v1/profile'
+    ]);
+  });
+
+  it('rejects different options for a cached company', () => {
+    didox.forCompany(FIRST, { locale: 'uz' });
+
+    expect(didox.forCompany(FIRST, { locale: 'uz' })).toBe(didox.forCompany(FIRST));
+    expect(() => didox.forCompany(FIRST, { locale: 'ru' })).toThrow(DidoxValidationError);
+  });
+
+  it('discards company clients when the parent token is cleared', async () => {
+    const scoped = didox.forCompany(FIRST);
+    await scoped.profile.getProfile();
+
+    didox.clearAccessToken();
+
+    expect(scoped.session.getState().authenticated).toBe(false);
+    expect(didox.forCompany(FIRST)).not.toBe(scoped);
+  });
+});
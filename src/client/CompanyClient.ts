@@ -0,0 +1,160 @@
+import type { HttpClient } from '../http/httpClient.js';
+import { DidoxApiError, DidoxAuthError } from '../http/errors.js';
+import { AuthApi } from '../modules/auth/auth.api.js';
+import { AccountApi } from '../modules/account/account.api.js';
+import { ProfileApi } from '../modules/profile/profile.api.js';
+import { DocumentsClient } from '../modules/documents/DocumentsClient.js';
+import { SessionManager, SessionManagerOptions } from '../modules/auth/session.js';
+import type { DidoxLocale } from '../modules/auth/auth.types.js';
+import type { SignatureProvider, DocumentSigningConfig } from '../signing/signature.types.js';
+import type { DidoxModuleName } from './DidoxConfig.js';
+
+/**
+ * Options for company-scoped clients
+ */
+export interface CompanyClientOptions {
+  /**
+   * Locale used for the company login request
+   * @default 'ru'
+   */
+  locale?: DidoxLocale;
+
+  /**
+   * Signature provider for this company's document actions
+   * @default the parent client's `signer`
+   */
+  signer?: SignatureProvider;
+
+  /**
+   * Certificate and timestamp settings for this company's document signatures
+   * @default the parent client's `signing`
+   */
+  signing?: DocumentSigningConfig;
+}
+
+/**
+ * Company-scoped Didox client
+ *
+ * Every request made through this client is bound to exactly one company.
+ * The client owns its access token, obtained by logging in to the company with the
+ * parent client's token, so several companies can be served concurrently from a
+ * single `related_companies` login. The company token is requested on the first
+ * call and renewed automatically when it expires or is rejected with 401.
+ *
+ * Instances are created with {@link DidoxClient.forCompany}.
+ *
+ * @example
+ * ```typescript
+ * const login = await didox.auth.loginLegalEntity({ taxId: '123456789', password: '...' });
+ *
+ * await Promise.all(
+ *   (login.related_companies ?? []).map(async company => {
+ *     const scoped = didox.forCompany(company.tin);
+ *     const documents = await scoped.documents.list({ owner: 0, page: 1, limit: 20 });
+ *     console.log(company.name, documents.data.length);
+ *   })
+ * );
+ * ```
+ */
+export class CompanyClient {
+  /**
+   * Company Tax Identification Number
+   */
+  public readonly tin: string;
+
+  /**
+   * Session manager of this company's token
+   */
+  public readonly session: SessionManager;
+
+  /**
+   * Authentication API bound to this company
+   */
+  public readonly auth: AuthApi;
+
+  /**
+   * Account / Profile API bound to this company
+   */
+  public readonly account: AccountApi;
+
+  /**
+   * Company Profile API bound to this company
+   */
+  public readonly profile: ProfileApi;
+
+  /**
+   * Documents API bound to this company
+   */
+  public readonly documents: DocumentsClient;
+
+  /**
+   * @param tin - Company Tax Identification Number
+   * @param httpClient - Dedicated HTTP client for this company (see HttpClient.fork)
+   * @param parent - Parent HTTP client holding the individual's token
+   * @param parentSession - Session of the parent client, used to refresh the individual's token
+   * @param options - Company client options
+   * @param sessionOptions - Token lifetime settings inherited from the parent session
+   * @param timeouts - Request timeout of each module
+   */
+  constructor(
+    tin: string,
+    private readonly httpClient: HttpClient,
+    private readonly parent: HttpClient,
+    private readonly parentSession: SessionManager,
+    options: CompanyClientOptions = {},
+    sessionOptions: Omit<SessionManagerOptions, 'authenticate'> = {},
+    timeouts: Partial<Record<DidoxModuleName, number>> = {}
+  ) {
+    this.tin = tin;
+    const locale = options.locale ?? 'ru';
+
+    this.session = new SessionManager(httpClient, {
+      ...sessionOptions,
+      authenticate: () => this.loginToCompany(locale)
+    });
+    this.httpClient.setAuthHandler(this.session);
+
+    this.auth = new AuthApi(httpClient, this.session, timeouts.auth);
+    this.account = new AccountApi(httpClient, timeouts.account);
+    this.profile = new ProfileApi(httpClient, timeouts.profile);
+    this.documents = new DocumentsClient(httpClient, options.signer, options.signing, timeouts.documents);
+  }
+
+  /**
+   * Obtain a company token using the parent client's token
+   * Refreshes the parent token once if it was rejected
+   */
+  private async loginToCompany(locale: DidoxLocale): Promise<string> {
+    await this.parentSession.beforeRequest();
+
+    const userToken = this.parent.getAccessToken();
+    if (!userToken) {
+      throw new DidoxAuthError(
+        `Cannot log in to company ${this.tin}: parent client is not authenticated`
+      );
+    }
+
+    try {
+      const response = await this.auth.loginCompanyAsIndividual({
+        companyTaxId: this.tin,
+        userToken,
+        locale
+      });
+      return response.token;
+    } catch (error) {
+      if (
+        error instanceof DidoxApiError &&
+        error.statusCode === 401 &&
+        await this.parentSession.handleUnauthorized(userToken)
+      ) {
+        const response = await this.auth.loginCompanyAsIndividual({
+          companyTaxId: this.tin,
+          userToken: this.parent.getAccessToken()!,
+          locale
+        });
+        return response.token;
+      }
+      throw error;
+    }
+  }
+}
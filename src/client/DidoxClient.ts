@@ -1,11 +1,20 @@
 import { HttpClient } from '../http/httpClient.js';
 import { DidoxValidationError } from '../http/errors.js';
-import { DidoxConfig, ResolvedDidoxConfig, resolveConfig } from './DidoxConfig.js';
+import { DidoxConfig, DidoxModuleName, ResolvedDidoxConfig, resolveConfig } from './DidoxConfig.js';
+import type { RetryConfig } from '../http/retry.js';
+import type { DidoxInterceptor } from '../http/interceptors.js';
+import { RateLimiter, RateLimitConfig, RateLimitBudget, RateLimiterState } from '../http/rateLimiter.js';
+import { Instrumentation, ObservabilityConfig } from '../http/observability.js';
 import { AuthApi } from '../modules/auth/auth.api.js';
 import { AccountApi } from '../modules/account/account.api.js';
 import { ProfileApi } from '../modules/profile/profile.api.js';
 import { UtilitiesApi } from '../modules/utilities/utilities.api.js';
 import { DocumentsClient } from '../modules/documents/DocumentsClient.js';
+import { SessionManager } from '../modules/auth/session.js';
+import { validateTaxId } from '../modules/auth/auth.validators.js';
+import type { SessionConfig } from '../modules/auth/auth.types.js';
+import { CompanyClient, CompanyClientOptions } from './CompanyClient.js';
+import type { SignatureProvider, DocumentSigningConfig } from '../signing/signature.types.js';
 
 /**
  * Main Didox SDK client
@@ -27,6 +36,15 @@ import { DocumentsClient } from '../modules/documents/DocumentsClient.js';
 export class DidoxClient {
   private readonly config: ResolvedDidoxConfig;
   private readonly httpClient: HttpClient;
+  private readonly sessionConfig: SessionConfig | undefined;
+  private readonly companyClients = new Map<string, { client: CompanyClient; options: CompanyClientOptions }>();
+  private readonly signer: SignatureProvider | undefined;
+  private readonly signing: DocumentSigningConfig;
+
+  /**
+   * Session manager (token expiry tracking and automatic re-login)
+   */
+  public readonly session: SessionManager;
 
   /**
    * Authentication API
@@ -64,22 +82,36 @@ export class DidoxClient {
     this.httpClient = new HttpClient({
       baseUrl: this.config.baseUrl,
       timeout: this.config.timeout,
+      retry: this.config.retry,
+      ...(config.interceptors && { interceptors: config.interceptors }),
+      ...(config.rateLimit && { rateLimiter: new RateLimiter(config.rateLimit) }),
+      ...(config.fetch && { fetch: config.fetch }),
+      ...(config.observability && { instrumentation: new Instrumentation(config.observability) }),
       defaultHeaders: {
         'Authorization': `Bearer ${this.config.partnerToken}`,
         'Content-Type': 'application/json',
-        'Accept': 'application/json'
+        'Accept': 'application/json',
+        ...this.config.defaultHeaders
       }
     });
 
     // Set partner token for Partner-Authorization header
     this.httpClient.setPartnerToken(this.config.partnerToken);
 
+    // Create session manager and let it keep the access token valid
+    this.sessionConfig = config.session;
+    this.session = this.createSession(config.session);
+    this.httpClient.setAuthHandler(this.session);
+
     // Initialize API modules
-    this.auth = new AuthApi(this.httpClient);
-    this.account = new AccountApi(this.httpClient);
-    this.profile = new ProfileApi(this.httpClient);
-    this.utilities = new UtilitiesApi(this.httpClient);
-    this.documents = new DocumentsClient(this.httpClient);
+    const { timeouts } = this.config;
+    this.auth = new AuthApi(this.httpClient, this.session, timeouts.auth);
+    this.account = new AccountApi(this.httpClient, timeouts.account);
+    this.profile = new ProfileApi(this.httpClient, timeouts.profile);
+    this.utilities = new UtilitiesApi(this.httpClient, timeouts.utilities);
+    this.signer = config.signer;
+    this.signing = config.signing ?? {};
+    this.documents = new DocumentsClient(this.httpClient, this.signer, this.signing, timeouts.documents);
   }
 
   /**
@@ -94,14 +126,172 @@ export class DidoxClient {
    * This is called automatically after successful login
    */
   public setAccessToken(token: string): void {
-    this.httpClient.setAccessToken(token);
+    this.session.recordToken(token);
   }
 
   /**
    * Clear access token
+   * Company-scoped clients created with `forCompany` are discarded as well
    */
   public clearAccessToken(): void {
-    this.httpClient.clearAccessToken();
+    this.session.clear();
+    for (const { client } of this.companyClients.values()) {
+      client.session.clear();
+    }
+    this.companyClients.clear();
+  }
+
+  /**
+   * Get a snapshot of the client-side rate limiter, for metrics
+   *
+   * @returns Limiter state, or undefined when `rateLimit` is not configured
+   *
+   * @example
+   * ```typescript
+   * const state = didox.getRateLimitState();
+   * metrics.gauge('didox.inflight', state?.global.inFlight ?? 0);
+   * metrics.gauge('didox.queued', state?.global.queued ?? 0);
+   * ```
+   */
+  public getRateLimitState(): RateLimiterState | undefined {
+    return this.httpClient.getRateLimiterState();
+  }
+
+  /**
+   * Register a request/response interceptor
+   *
+   * Interceptors can mutate request headers and body, inspect or replace responses,
+   * short-circuit requests (e.g. serve them from a cache) and transform errors.
+   * They also apply to company-scoped clients created with `forCompany`.
+   *
+   * @param interceptor - Interceptor to register
+   * @returns This client for chaining
+   *
+   * @example
+   * ```typescript
+   * didox
+   *   .use({
+   *     name: 'gateway-auth',
+   *     onRequest(ctx) {
+   *       ctx.headers['X-Gateway-Key'] = process.env.GATEWAY_KEY!;
+   *     }
+   *   })
+   *   .use({
+   *     name: 'audit',
+   *     onError(error, ctx) {
+   *       logger.warn({ endpoint: ctx.endpoint, attempt: ctx.attempt }, error.message);
+   *     }
+   *   });
+   * ```
+   */
+  public use(interceptor: DidoxInterceptor): this {
+    this.validateInterceptor(interceptor);
+    this.httpClient.use(interceptor);
+    return this;
+  }
+
+  /**
+   * Remove a previously registered interceptor by reference or name
+   *
+   * @returns true when an interceptor was removed
+   */
+  public removeInterceptor(interceptor: DidoxInterceptor | string): boolean {
+    return this.httpClient.removeInterceptor(interceptor);
+  }
+
+  /**
+   * Get a client bound to a single company
+   *
+   * Returns an isolated client with its own `auth`, `account`, `profile` and `documents`
+   * modules and its own access token. The company token is obtained lazily with this
+   * client's token (see `loginCompanyAsIndividual`), so this client must be logged in
+   * or have session credentials configured. Calls for different companies never affect
+   * each other or this client. Repeated calls with the same TIN return the same instance;
+   * they may omit `options` or repeat the same ones. A client with other options needs a
+   * fresh start: `clearAccessToken()` discards the cached company clients.
+   *
+   * @param tin - Company Tax Identification Number (exactly 9 digits)
+   * @param options - Company client options
+   * @returns Company-scoped client
+   *
+   * @throws {DidoxValidationError} When TIN is invalid
+   * @throws {DidoxValidationError} When `options` differ from those of the cached client for this TIN
+   *
+   * @example
+   * ```typescript
+   * const [first, second] = await Promise.all([
+   *   didox.forCompany('111111111').profile.getProfile(),
+   *   didox.forCompany('222222222').profile.getProfile()
+   * ]);
+   * ```
+   */
+  public forCompany(tin: string, options?: CompanyClientOptions): CompanyClient {
+    validateTaxId(tin);
+
+    const cached = this.companyClients.get(tin);
+    if (cached) {
+      if (options !== undefined && !this.sameCompanyOptions(cached.options, options)) {
+        throw new DidoxValidationError(
+          `Company client for ${tin} already exists with different options`,
+          'options'
+        );
+      }
+      return cached.client;
+    }
+
+    const client = new CompanyClient(
+      tin,
+      this.httpClient.fork(),
+      this.httpClient,
+      this.session,
+      {
+        ...(this.signer && { signer: this.signer }),
+        signing: this.signing,
+        ...options
+      },
+      {
+        ...(this.sessionConfig?.tokenTtl !== undefined && { tokenTtl: this.sessionConfig.tokenTtl }),
+        ...(this.sessionConfig?.refreshMargin !== undefined && { refreshMargin: this.sessionConfig.refreshMargin })
+      },
+      this.config.timeouts
+    );
+    this.companyClients.set(tin, { client, options: options ?? {} });
+
+    return client;
+  }
+
+  /**
+   * Whether two sets of company client options configure the same client
+   */
+  private sameCompanyOptions(a: CompanyClientOptions, b: CompanyClientOptions): boolean {
+    return a.locale === b.locale &&
+      a.signer === b.signer &&
+      a.signing?.certificateId === b.signing?.certificateId &&
+      a.signing?.timestamp === b.signing?.timestamp;
+  }
+
+  /**
+   * Create the session manager from configuration
+   */
+  private createSession(config: SessionConfig | undefined): SessionManager {
+    const credentials = config?.credentials;
+    const credentialsProvider = config?.credentialsProvider;
+    const canLogin = credentials !== undefined || credentialsProvider !== undefined;
+
+    return new SessionManager(this.httpClient, {
+      ...(config?.tokenTtl !== undefined && { tokenTtl: config.tokenTtl }),
+      ...(config?.refreshMargin !== undefined && { refreshMargin: config.refreshMargin }),
+      ...(config?.onRefresh && { onRefresh: config.onRefresh }),
+      ...(canLogin && {
+        authenticate: async () => {
+          const request = credentialsProvider
+            ? await credentialsProvider()
+            : credentials!;
+          const response = await this.auth.loginLegalEntity(request);
+          return response.token;
+        }
+      })
+    });
   }
 
   /**
@@ -115,7 +305,16 @@ export class DidoxClient {
       );
     }
 
-    if (!config.environment || !['development', 'production'].includes(config.environment)) {
+    if (config.baseUrl !== undefined) {
+      this.validateBaseUrl(config.baseUrl);
+    } else if (config.environment === undefined) {
+      throw new DidoxValidationError(
+        'Either environment or baseUrl is required',
+        'environment'
+      );
+    }
+
+    if (config.environment !== undefined && !['development', 'production'].includes(config.environment)) {
       throw new DidoxValidationError(
         'environment must be either "development" or "production"',
         'environment'
@@ -130,5 +329,274 @@ export class DidoxClient {
         );
       }
     }
+
+    if (config.timeouts !== undefined) {
+      this.validateTimeouts(config.timeouts);
+    }
+
+    if (config.observability !== undefined) {
+      this.validateObservabilityConfig(config.observability);
+    }
+
+    if (config.signer !== undefined) {
+      const signer = config.signer as unknown as Record<string, unknown>;
+      for (const method of ['getCertificates', 'sign', 'attachTimestamp']) {
+        if (typeof signer?.[method] !== 'function') {
+          throw new DidoxValidationError(
+            `signer must implement ${method}()`,
+            'signer'
+          );
+        }
+      }
+    }
+
+    if (config.defaultHeaders !== undefined) {
+      this.validateDefaultHeaders(config.defaultHeaders);
+    }
+
+    if (config.retry !== undefined && config.retry !== false) {
+      this.validateRetryConfig(config.retry);
+    }
+
+    if (config.session !== undefined) {
+      this.validateSessionConfig(config.session);
+    }
+
+    if (config.fetch !== undefined && typeof config.fetch !== 'function') {
+      throw new DidoxValidationError(
+        'fetch must be a function',
+        'fetch'
+      );
+    }
+
+    if (config.rateLimit !== undefined) {
+      this.validateRateLimitConfig(config.rateLimit);
+    }
+
+    if (config.interceptors !== undefined) {
+      if (!Array.isArray(config.interceptors)) {
+        throw new DidoxValidationError(
+          'interceptors must be an array',
+          'interceptors'
+        );
+      }
+      config.interceptors.forEach(interceptor => this.validateInterceptor(interceptor));
+    }
+  }
+
+  /**
+   * Validate the rate limiting configuration
+   */
+  private validateRateLimitConfig(rateLimit: RateLimitConfig): void {
+    this.validateRateLimitBudget(rateLimit, 'rateLimit');
+
+    if (rateLimit.endpoints !== undefined) {
+      if (!Array.isArray(rateLimit.endpoints)) {
+        throw new DidoxValidationError(
+          'rateLimit.endpoints must be an array',
+          'rateLimit.endpoints'
+        );
+      }
+
+      rateLimit.endpoints.forEach((rule, index) => {
+        const field = `rateLimit.endpoints[${index}]`;
+        if (typeof rule.pattern !== 'string' && !(rule.pattern instanceof RegExp)) {
+          throw new DidoxValidationError(
+            `${field}.pattern must be a string or RegExp`,
+            `${field}.pattern`
+          );
+        }
+        this.validateRateLimitBudget(rule, field);
+      });
+    }
+  }
+
+  /**
+   * Validate rate limit budget values
+   */
+  private validateRateLimitBudget(budget: RateLimitBudget, prefix: string): void {
+    const fields = ['requestsPerSecond', 'burst', 'maxConcurrent'] as const;
+    for (const field of fields) {
+      const value = budget[field];
+      if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+        throw new DidoxValidationError(
+          `${prefix}.${field} must be a positive number`,
+          `${prefix}.${field}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate an interceptor
+   */
+  private validateInterceptor(interceptor: DidoxInterceptor): void {
+    if (!interceptor || typeof interceptor !== 'object') {
+      throw new DidoxValidationError(
+        'interceptor must be an object',
+        'interceptors'
+      );
+    }
+
+    const hooks = ['onRequest', 'onResponse', 'onError'] as const;
+    for (const hook of hooks) {
+      if (interceptor[hook] !== undefined && typeof interceptor[hook] !== 'function') {
+        throw new DidoxValidationError(
+          `interceptor.${hook} must be a function`,
+          'interceptors'
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate the session configuration
+   */
+  private validateSessionConfig(session: SessionConfig): void {
+    if (session.credentialsProvider !== undefined && typeof session.credentialsProvider !== 'function') {
+      throw new DidoxValidationError(
+        'session.credentialsProvider must be a function',
+        'session.credentialsProvider'
+      );
+    }
+
+    const durationFields = ['tokenTtl', 'refreshMargin'] as const;
+    for (const field of durationFields) {
+      const value = session[field];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        throw new DidoxValidationError(
+          `session.${field} must be a non-negative number`,
+          `session.${field}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate a custom base URL
+   */
+  private validateBaseUrl(baseUrl: string): void {
+    let protocol: string | undefined;
+    try {
+      protocol = typeof baseUrl === 'string' ? new URL(baseUrl).protocol : undefined;
+    } catch {
+      protocol = undefined;
+    }
+
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new DidoxValidationError(
+        'baseUrl must be an absolute http(s) URL',
+        'baseUrl'
+      );
+    }
+  }
+
+  /**
+   * Validate per-module timeouts
+   */
+  private validateTimeouts(timeouts: Partial<Record<DidoxModuleName, number>>): void {
+    const modules: DidoxModuleName[] = ['auth', 'account', 'profile', 'utilities', 'documents'];
+
+    for (const [module, timeout] of Object.entries(timeouts)) {
+      if (!modules.includes(module as DidoxModuleName)) {
+        throw new DidoxValidationError(
+          `timeouts.${module} is not a known module (expected one of: ${modules.join(', ')})`,
+          `timeouts.${module}`
+        );
+      }
+
+      if (timeout !== undefined && (typeof timeout !== 'number' || timeout <= 0)) {
+        throw new DidoxValidationError(
+          `timeouts.${module} must be a positive number`,
+          `timeouts.${module}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate tracing, metrics and logging hooks
+   */
+  private validateObservabilityConfig(observability: ObservabilityConfig): void {
+    const hooks = [
+      ['tracer', 'startSpan'],
+      ['meter', 'createCounter'],
+      ['logger', 'error']
+    ] as const;
+
+    for (const [field, method] of hooks) {
+      const hook = observability[field] as Record<string, unknown> | undefined;
+      if (hook !== undefined && typeof hook?.[method] !== 'function') {
+        throw new DidoxValidationError(
+          `observability.${field} must implement ${method}()`,
+          `observability.${field}`
+        );
+      }
+    }
+
+    if (
+      observability.logLevel !== undefined &&
+      !['debug', 'info', 'warn', 'error'].includes(observability.logLevel)
+    ) {
+      throw new DidoxValidationError(
+        'observability.logLevel must be one of: debug, info, warn, error',
+        'observability.logLevel'
+      );
+    }
+  }
+
+  /**
+   * Validate default headers
+   */
+  private validateDefaultHeaders(headers: Record<string, string>): void {
+    if (typeof headers !== 'object' || headers === null) {
+      throw new DidoxValidationError(
+        'defaultHeaders must be an object',
+        'defaultHeaders'
+      );
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      if (typeof value !== 'string') {
+        throw new DidoxValidationError(
+          `defaultHeaders.${name} must be a string`,
+          `defaultHeaders.${name}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate the retry policy
+   */
+  private validateRetryConfig(retry: RetryConfig): void {
+    if (retry.maxAttempts !== undefined) {
+      if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+        throw new DidoxValidationError(
+          'retry.maxAttempts must be a positive integer',
+          'retry.maxAttempts'
+        );
+      }
+    }
+
+    const delayFields = ['initialDelay', 'maxDelay'] as const;
+    for (const field of delayFields) {
+      const value = retry[field];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        throw new DidoxValidationError(
+          `retry.${field} must be a non-negative number`,
+          `retry.${field}`
+        );
+      }
+    }
+
+    if (retry.backoffFactor !== undefined) {
+      if (typeof retry.backoffFactor !== 'number' || retry.backoffFactor < 1) {
+        throw new DidoxValidationError(
+          'retry.backoffFactor must be a number greater than or equal to 1',
+          'retry.backoffFactor'
+        );
+      }
+    }
   }
 }
\ No newline at end of file
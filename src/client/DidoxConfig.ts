@@ -1,3 +1,24 @@
+import { RetryConfig, ResolvedRetryConfig, resolveRetryConfig } from '../http/retry.js';
+import type { SessionConfig } from '../modules/auth/auth.types.js';
+import type { DidoxInterceptor } from '../http/interceptors.js';
+import type { RateLimitConfig } from '../http/rateLimiter.js';
+import type { FetchLike } from '../http/httpClient.js';
+import type { ObservabilityConfig } from '../http/observability.js';
+import type { SignatureProvider, DocumentSigningConfig } from '../signing/signature.types.js';
+
+/**
+ * API modules with separately configurable timeouts
+ */
+export type DidoxModuleName = 'auth' | 'account' | 'profile' | 'utilities' | 'documents';
+
+/**
+ * Base URLs of the Didox environments
+ */
+export const DIDOX_BASE_URLS = {
+  development: 'https://stage.goodsign.biz',
+  production: 'https://api-partners.didox.uz'
+} as const;
+
 /**
  * Didox SDK configuration interface
  */
@@ -12,14 +33,91 @@ export interface DidoxConfig {
    * Environment to use for API calls
    * - development: https://stage.goodsign.biz/
    * - production: https://api-partners.didox.uz/
+   *
+   * Optional when `baseUrl` is set
    */
-  environment: 'development' | 'production';
+  environment?: 'development' | 'production';
+
+  /**
+   * Custom API base URL, e.g. a local mock, a reverse proxy or another API host
+   * Takes precedence over `environment`
+   */
+  baseUrl?: string;
 
   /**
    * Request timeout in milliseconds
    * @default 10000
    */
   timeout?: number;
+
+  /**
+   * Per-module request timeouts in milliseconds, overriding `timeout`
+   *
+   * @example
+   * ```typescript
+   * timeouts: { documents: 30000, auth: 5000 }
+   * ```
+   */
+  timeouts?: Partial<Record<DidoxModuleName, number>>;
+
+  /**
+   * Headers added to every request
+   * `Partner-Authorization` and `user-key` are always set by the SDK
+   */
+  defaultHeaders?: Record<string, string>;
+
+  /**
+   * Retry policy for transient failures (timeouts, network errors, 408/429/5xx)
+   * Only idempotent methods are retried unless `retryNonIdempotent` is set.
+   * Pass `false` to disable retries.
+   * @default { maxAttempts: 3, initialDelay: 300, maxDelay: 10000, backoffFactor: 2, jitter: true }
+   */
+  retry?: RetryConfig | false;
+
+  /**
+   * Session management: token expiry tracking and automatic re-login
+   * When credentials (or a credentials provider) are given, the SDK logs in on the
+   * first request, refreshes the token before it expires and replays requests
+   * rejected with 401 once after re-authenticating.
+   */
+  session?: SessionConfig;
+
+  /**
+   * Request/response interceptors, run around every request attempt
+   * More interceptors can be registered later with `DidoxClient.use()`
+   */
+  interceptors?: DidoxInterceptor[];
+
+  /**
+   * Client-side rate limiting: token bucket, max requests in flight and
+   * optional per-endpoint budgets. Shared by company-scoped clients.
+   * Disabled by default.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Custom fetch implementation used instead of the global `fetch`
+   * E.g. `DidoxTestServer.fetch` for offline tests, or a fetch bound to an
+   * egress proxy (`undici` ProxyAgent)
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Tracing, metrics and structured logging
+   * Accepts OpenTelemetry tracers and meters without depending on OpenTelemetry
+   */
+  observability?: ObservabilityConfig;
+
+  /**
+   * Signature provider for document actions (send, accept, reject, cancel)
+   * E.g. `SoftwareSignatureProvider.fromPfx(...)` or an E-IMZO integration
+   */
+  signer?: SignatureProvider;
+
+  /**
+   * Certificate and timestamp settings for document signatures
+   */
+  signing?: DocumentSigningConfig;
 }
 
 /**
@@ -29,19 +127,37 @@ export interface ResolvedDidoxConfig {
   partnerToken: string;
   baseUrl: string;
   timeout: number;
+
+  /**
+   * Request timeout of each module, falling back to `timeout`
+   */
+  timeouts: Record<DidoxModuleName, number>;
+  defaultHeaders: Record<string, string>;
+  retry: ResolvedRetryConfig;
 }
 
 /**
  * Resolve and validate Didox configuration
  */
 export function resolveConfig(config: DidoxConfig): ResolvedDidoxConfig {
-  const baseUrl = config.environment === 'production'
-    ? 'https://api-partners.didox.uz'
-    : 'https://stage.goodsign.biz';
+  const baseUrl = config.baseUrl
+    ? config.baseUrl.replace(/\/+$/, '')
+    : DIDOX_BASE_URLS[config.environment ?? 'development'];
+
+  const timeout = config.timeout ?? 10000;
 
   return {
     partnerToken: config.partnerToken,
     baseUrl,
-    timeout: config.timeout ?? 10000
+    timeout,
+    timeouts: {
+      auth: config.timeouts?.auth ?? timeout,
+      account: config.timeouts?.account ?? timeout,
+      profile: config.timeouts?.profile ?? timeout,
+      utilities: config.timeouts?.utilities ?? timeout,
+      documents: config.timeouts?.documents ?? timeout
+    },
+    defaultHeaders: { ...config.defaultHeaders },
+    retry: resolveRetryConfig(config.retry)
   };
 }
\ No newline at end of file
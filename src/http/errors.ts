@@ -1,3 +1,6 @@
+import type { ValidationReport } from '../modules/documents/builders/base/validation.js';
+import { pickString } from '../utils/strings.js';
+
 /**
  * Base class for all Didox SDK errors
  */
@@ -23,24 +26,74 @@ export abstract class DidoxError extends Error {
 export class DidoxValidationError extends DidoxError {
   public readonly field: string | undefined;
 
-  constructor(message: string, field?: string) {
-    super(message, 'DidoxValidationError');
+  constructor(message: string, field?: string, name: string = 'DidoxValidationError') {
+    super(message, name);
     this.field = field;
   }
 }
 
+/**
+ * Document builder draft with one or more validation errors
+ * `field` is the DX path of the first error; `report` lists every issue
+ */
+export class DidoxBuilderValidationError extends DidoxValidationError {
+  public readonly report: ValidationReport;
+
+  constructor(report: ValidationReport) {
+    const count = report.errors.length;
+    const summary = report.errors.map(issue => issue.message).join('; ');
+    super(
+      `Document has ${count} validation error${count === 1 ? '' : 's'}: ${summary}`,
+      report.errors[0]?.path,
+      'DidoxBuilderValidationError'
+    );
+    this.report = report;
+  }
+}
+
 /**
  * Authentication error thrown when auth operations fail
  */
 export class DidoxAuthError extends DidoxError {
   public readonly statusCode: number | undefined;
 
-  constructor(message: string, statusCode?: number) {
+  /**
+   * Original API error (with Didox error code and response body), if any
+   */
+  public readonly cause: DidoxApiError | undefined;
+
+  constructor(message: string, statusCode?: number, cause?: DidoxApiError) {
     super(message, 'DidoxAuthError');
     this.statusCode = statusCode;
+    this.cause = cause;
   }
 }
 
+/**
+ * Additional API error options
+ */
+export interface DidoxApiErrorOptions {
+  /**
+   * Whether the failed request is safe to retry
+   */
+  retryable?: boolean;
+
+  /**
+   * Server-requested delay before retrying, in milliseconds
+   */
+  retryAfter?: number;
+
+  /**
+   * Didox error code from the response body
+   */
+  code?: string;
+
+  /**
+   * Additional error details from the response body
+   */
+  details?: string;
+}
+
 /**
  * API error thrown when Didox API returns an error response
  */
@@ -48,10 +101,90 @@ export class DidoxApiError extends DidoxError {
   public readonly statusCode: number;
   public readonly response?: unknown;
 
-  constructor(message: string, statusCode: number, response?: unknown) {
-    super(message, 'DidoxApiError');
+  /**
+   * Whether the failed request is safe to retry (transient server-side failure)
+   */
+  public readonly retryable: boolean;
+
+  /**
+   * Server-requested delay before retrying, in milliseconds (from `Retry-After`)
+   */
+  public readonly retryAfter: number | undefined;
+
+  /**
+   * Didox error code from the response body
+   */
+  public readonly code: string | undefined;
+
+  /**
+   * Additional error details from the response body
+   */
+  public readonly details: string | undefined;
+
+  constructor(
+    message: string,
+    statusCode: number,
+    response?: unknown,
+    options?: DidoxApiErrorOptions,
+    name: string = 'DidoxApiError'
+  ) {
+    super(message, name);
     this.statusCode = statusCode;
     this.response = response;
+    this.retryable = options?.retryable ?? false;
+    this.retryAfter = options?.retryAfter;
+    this.code = options?.code;
+    this.details = options?.details;
+  }
+}
+
+/**
+ * Resource not found (404)
+ */
+export class DidoxNotFoundError extends DidoxApiError {
+  constructor(message: string, statusCode: number, response?: unknown, options?: DidoxApiErrorOptions) {
+    super(message, statusCode, response, options, 'DidoxNotFoundError');
+  }
+}
+
+/**
+ * Request conflicts with the current state of the resource (409)
+ * E.g. an action on a document that is no longer in a suitable status
+ */
+export class DidoxConflictError extends DidoxApiError {
+  constructor(message: string, statusCode: number, response?: unknown, options?: DidoxApiErrorOptions) {
+    super(message, statusCode, response, options, 'DidoxConflictError');
+  }
+}
+
+/**
+ * Too many requests (429)
+ * `retryAfter` holds the server-requested delay when provided
+ */
+export class DidoxRateLimitError extends DidoxApiError {
+  constructor(message: string, statusCode: number, response?: unknown, options?: DidoxApiErrorOptions) {
+    super(message, statusCode, response, options, 'DidoxRateLimitError');
+  }
+}
+
+/**
+ * Request rejected by server-side validation (400, 422)
+ */
+export class DidoxServerValidationError extends DidoxApiError {
+  /**
+   * Error messages per field, as reported by Didox
+   */
+  public readonly fieldErrors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    statusCode: number,
+    response?: unknown,
+    options?: DidoxApiErrorOptions,
+    fieldErrors: Record<string, string[]> = {}
+  ) {
+    super(message, statusCode, response, options, 'DidoxServerValidationError');
+    this.fieldErrors = fieldErrors;
   }
 }
 
@@ -61,8 +194,305 @@ export class DidoxApiError extends DidoxError {
 export class DidoxNetworkError extends DidoxError {
   public readonly cause: Error | undefined;
 
-  constructor(message: string, cause?: Error) {
+  /**
+   * Whether the failed request is safe to retry
+   * Timeouts and connection failures are retryable by default
+   */
+  public readonly retryable: boolean;
+
+  constructor(message: string, cause?: Error, retryable: boolean = true) {
     super(message, 'DidoxNetworkError');
     this.cause = cause;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Error thrown when the current user lacks the document privilege required for an action
+ * Raised before the action request is sent, based on `getPrivileges`
+ */
+export class DidoxPrivilegeError extends DidoxError {
+  /**
+   * Document ID
+   */
+  public readonly documentId: string;
+
+  /**
+   * Missing privilege, e.g. 'canSign'
+   */
+  public readonly privilege: string;
+
+  /**
+   * Privileges returned by the API
+   */
+  public readonly privileges: unknown;
+
+  constructor(message: string, documentId: string, privilege: string, privileges?: unknown) {
+    super(message, 'DidoxPrivilegeError');
+    this.documentId = documentId;
+    this.privilege = privilege;
+    this.privileges = privileges;
+  }
+}
+
+/**
+ * Error thrown when a document cannot be signed
+ * (no signature provider, unknown certificate, unreadable key or PFX, timestamp failure)
+ */
+export class DidoxSignatureError extends DidoxError {
+  public readonly cause: Error | undefined;
+
+  constructor(message: string, cause?: Error) {
+    super(message, 'DidoxSignatureError');
+    this.cause = cause;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error thrown when an incoming webhook is rejected
+ * (failed authentication, malformed payload, body too large)
+ */
+export class DidoxWebhookError extends DidoxError {
+  /**
+   * HTTP status to answer the webhook with (400, 401, 405 or 413)
+   */
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message, 'DidoxWebhookError');
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Error thrown when documents do not reach a target status in time
+ * (`waitForStatus` / `waitForStatuses`)
+ */
+export class DidoxWaitTimeoutError extends DidoxError {
+  /**
+   * Document ID (the first pending document for batch waits)
+   */
+  public readonly documentId: string;
+
+  /**
+   * Last observed status of `documentId` (undefined when it was never read)
+   */
+  public readonly lastStatus: number | undefined;
+
+  /**
+   * Statuses that were awaited
+   */
+  public readonly targetStatuses: number[];
+
+  /**
+   * Last observed status of every document still pending
+   */
+  public readonly pending: Record<string, number | undefined>;
+
+  /**
+   * Documents that reached a target status before the timeout, by ID
+   */
+  public readonly completed: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    targetStatuses: number[],
+    pending: Record<string, number | undefined>,
+    completed: Record<string, unknown> = {}
+  ) {
+    super(message, 'DidoxWaitTimeoutError');
+    const [documentId = ''] = Object.keys(pending);
+    this.documentId = documentId;
+    this.lastStatus = pending[documentId];
+    this.targetStatuses = targetStatuses;
+    this.pending = pending;
+    this.completed = completed;
+  }
+}
+
+/**
+ * Normalized API error details
+ */
+export interface NormalizedApiError {
+  /**
+   * Didox error code (when provided by the API)
+   */
+  code?: string;
+
+  /**
+   * Human-readable error message (when provided by the API)
+   */
+  message?: string;
+
+  /**
+   * Additional error details
+   */
+  details?: string;
+
+  /**
+   * First invalid field (when the API reported field errors)
+   */
+  field?: string;
+
+  /**
+   * Error messages per field
+   */
+  fieldErrors: Record<string, string[]>;
+}
+
+/**
+ * Normalize error response from API
+ * 
+ * Transforms API error responses into consistent error format.
+ * Understands the body shapes returned by Didox:
+ * `{ message }`, `{ error: '...' }`, `{ error: { code, message } }`,
+ * `{ code, message, errors: { field: ['...'] } }` and `{ errors: [{ field, message }] }`.
+ * 
+ * @param errorResponse - Raw error response from API
+ * @returns Normalized error with consistent structure
+ * 
+ * @example
+ * ```typescript
+ * const normalized = normalizeApiError({
+ *   message: 'The given data was invalid.',
+ *   errors: { 'Seller.Account': ['Account is required'] }
+ * });
+ * // Returns: { message: 'The given data was invalid.', field: 'Seller.Account',
+ * //            fieldErrors: { 'Seller.Account': ['Account is required'] } }
+ * ```
+ */
+export function normalizeApiError(errorResponse: unknown): NormalizedApiError {
+  const result: NormalizedApiError = { fieldErrors: {} };
+
+  if (typeof errorResponse === 'string') {
+    if (errorResponse.trim()) {
+      result.message = errorResponse.trim();
+    }
+    return result;
+  }
+
+  if (!errorResponse || typeof errorResponse !== 'object') {
+    return result;
+  }
+
+  const body = errorResponse as Record<string, unknown>;
+  const nested = body.error && typeof body.error === 'object'
+    ? body.error as Record<string, unknown>
+    : undefined;
+
+  const code = pickString(body.code, body.error_code, body.errorCode, nested?.code);
+  if (code !== undefined) {
+    result.code = code;
+  }
+
+  const message = pickString(
+    body.message,
+    typeof body.error === 'string' ? body.error : undefined,
+    nested?.message,
+    body.msg,
+    body.title
+  );
+  if (message !== undefined) {
+    result.message = message;
+  }
+
+  const details = pickString(body.details, body.detail, nested?.details);
+  if (details !== undefined && details !== message) {
+    result.details = details;
+  }
+
+  result.fieldErrors = collectFieldErrors(body.errors ?? nested?.errors);
+
+  const [firstField] = Object.keys(result.fieldErrors);
+  if (firstField !== undefined) {
+    result.field = firstField;
+    if (result.message === undefined) {
+      result.message = result.fieldErrors[firstField][0];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create a typed API error from an error response
+ *
+ * Parses the Didox error body (code, message, field errors) and returns the
+ * matching DidoxApiError subclass for the status code.
+ *
+ * @param statusCode - HTTP status code
+ * @param response - Parsed response body
+ * @param options - Status text and retry information
+ * @returns Typed API error
+ *
+ * @example
+ * ```typescript
+ * const error = createApiError(422, { errors: { tin: ['Invalid TIN'] } });
+ * // error instanceof DidoxServerValidationError
+ * // error.fieldErrors => { tin: ['Invalid TIN'] }
+ * ```
+ */
+export function createApiError(
+  statusCode: number,
+  response: unknown,
+  options: { statusText?: string; retryable?: boolean; retryAfter?: number } = {}
+): DidoxApiError {
+  const parsed = normalizeApiError(response);
+  const message = `HTTP ${statusCode}: ${parsed.message ?? options.statusText ?? 'Request failed'}`;
+
+  const errorOptions: DidoxApiErrorOptions = {
+    ...(options.retryable !== undefined && { retryable: options.retryable }),
+    ...(options.retryAfter !== undefined && { retryAfter: options.retryAfter }),
+    ...(parsed.code !== undefined && { code: parsed.code }),
+    ...(parsed.details !== undefined && { details: parsed.details })
+  };
+
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return new DidoxServerValidationError(message, statusCode, response, errorOptions, parsed.fieldErrors);
+    case 404:
+      return new DidoxNotFoundError(message, statusCode, response, errorOptions);
+    case 409:
+      return new DidoxConflictError(message, statusCode, response, errorOptions);
+    case 429:
+      return new DidoxRateLimitError(message, statusCode, response, errorOptions);
+    default:
+      return new DidoxApiError(message, statusCode, response, errorOptions);
+  }
+}
+
+/**
+ * Collect per-field error messages from object or array form
+ */
+function collectFieldErrors(errors: unknown): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+
+  const add = (field: string, messages: unknown) => {
+    const list = (Array.isArray(messages) ? messages : [messages])
+      .map(item => pickString(item, (item as Record<string, unknown> | null)?.message))
+      .filter((item): item is string => item !== undefined);
+
+    if (list.length > 0) {
+      fieldErrors[field] = [...(fieldErrors[field] ?? []), ...list];
+    }
+  };
+
+  if (Array.isArray(errors)) {
+    for (const item of errors) {
+      if (item && typeof item === 'object') {
+        const entry = item as Record<string, unknown>;
+        const field = pickString(entry.field, entry.name, entry.path, entry.property);
+        add(field ?? '_', entry.message ?? entry.error);
+      } else {
+        add('_', item);
+      }
+    }
+  } else if (errors && typeof errors === 'object') {
+    for (const [field, messages] of Object.entries(errors)) {
+      add(field, messages);
+    }
+  }
+
+  return fieldErrors;
+}
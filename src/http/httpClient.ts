@@ -1,4 +1,18 @@
-import { DidoxApiError, DidoxNetworkError } from './errors.js';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { DidoxApiError, DidoxNetworkError, createApiError } from './errors.js';
+import {
+  RetryConfig,
+  ResolvedRetryConfig,
+  resolveRetryConfig,
+  isIdempotentMethod,
+  computeRetryDelay,
+  parseRetryAfter,
+  sleep
+} from './retry.js';
+import { DidoxInterceptor, HttpRequestContext, InterceptorPipeline } from './interceptors.js';
+import type { RateLimiter, RateLimiterState } from './rateLimiter.js';
+import type { DidoxAttributes, Instrumentation, OperationScope } from './observability.js';
 
 /**
  * HTTP response interface
@@ -9,14 +23,108 @@ export interface HttpResponse<T = unknown> {
   headers: Record<string, string>;
 }
 
+/**
+ * Fetch-compatible function used to send requests
+ * Defaults to the global `fetch`
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * How a successful response body is read
+ * - `json`: parsed JSON (default)
+ * - `buffer`: raw bytes as a Buffer
+ * - `stream`: Node readable stream, consumed by the caller
+ */
+export type HttpResponseType = 'json' | 'buffer' | 'stream';
+
+/**
+ * Supported HTTP methods
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
 /**
  * HTTP request options
  */
 export interface HttpRequestOptions {
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  method?: HttpMethod;
   headers?: Record<string, string>;
   body?: unknown;
-  timeout?: number;
+
+  /**
+   * Request timeout in milliseconds; API modules pass their configured timeout
+   * @default the client `timeout`
+   */
+  timeout?: number | undefined;
+
+  /**
+   * Per-request retry overrides, or `false` to disable retries for this request
+   * Setting `retryNonIdempotent: true` marks a POST/PATCH request as safe to repeat
+   */
+  retry?: RetryConfig | false;
+
+  /**
+   * Skip session handling (proactive refresh and 401 replay) for this request
+   * Used by authentication endpoints themselves
+   */
+  skipAuthRefresh?: boolean;
+
+  /**
+   * API method name used for spans, metrics and logs, e.g. `documents.list`
+   * @default `${method} ${path}`
+   */
+  operation?: string;
+
+  /**
+   * Extra span/metric attributes, e.g. `{ 'didox.doctype': '002' }`
+   */
+  attributes?: DidoxAttributes;
+
+  /**
+   * How to read a successful response body; error responses are always parsed as JSON
+   * @default 'json'
+   */
+  responseType?: HttpResponseType;
+
+  /**
+   * Abort the request; the signal's reason is thrown and the request is not retried
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Transfer settings of a single attempt
+ */
+interface TransferOptions {
+  timeout: number;
+  responseType: HttpResponseType;
+  signal: AbortSignal | undefined;
+}
+
+/**
+ * Per-call state shared by all attempts of one API call
+ */
+interface CallState {
+  scope: OperationScope | undefined;
+  attempts: number;
+}
+
+/**
+ * Hook used by HttpClient to keep the access token valid
+ * Implemented by the session manager
+ */
+export interface AuthHandler {
+  /**
+   * Called before every request to refresh an expiring token
+   */
+  beforeRequest(): Promise<void>;
+
+  /**
+   * Called when a request fails with 401
+   *
+   * @param failedToken - Access token that was used for the failed request
+   * @returns true when a new token is available and the request should be replayed
+   */
+  handleUnauthorized(failedToken: string | undefined): Promise<boolean>;
 }
 
 /**
@@ -26,6 +134,11 @@ export interface HttpClientConfig {
   baseUrl: string;
   timeout: number;
   defaultHeaders: Record<string, string>;
+  retry?: ResolvedRetryConfig;
+  interceptors?: DidoxInterceptor[];
+  rateLimiter?: RateLimiter;
+  fetch?: FetchLike;
+  instrumentation?: Instrumentation;
 }
 
 /**
@@ -34,11 +147,33 @@ export interface HttpClientConfig {
  */
 export class HttpClient {
   private config: HttpClientConfig;
+  private retryConfig: ResolvedRetryConfig;
   private accessToken: string | undefined;
   private partnerToken: string | undefined;
+  private authHandler: AuthHandler | undefined;
+  private interceptors: InterceptorPipeline;
 
   constructor(config: HttpClientConfig) {
     this.config = config;
+    this.retryConfig = config.retry ?? resolveRetryConfig();
+    this.interceptors = new InterceptorPipeline(config.interceptors);
+  }
+
+  /**
+   * Register a request/response interceptor
+   * Interceptors are shared with clients created by `fork()`
+   */
+  public use(interceptor: DidoxInterceptor): void {
+    this.interceptors.use(interceptor);
+  }
+
+  /**
+   * Remove a previously registered interceptor by reference or name
+   *
+   * @returns true when an interceptor was removed
+   */
+  public removeInterceptor(interceptor: DidoxInterceptor | string): boolean {
+    return this.interceptors.remove(interceptor);
   }
 
   /**
@@ -62,12 +197,178 @@ export class HttpClient {
     this.accessToken = undefined;
   }
 
+  /**
+   * Get the current access token
+   */
+  public getAccessToken(): string | undefined {
+    return this.accessToken;
+  }
+
+  /**
+   * Get a snapshot of the rate limiter state (undefined when rate limiting is disabled)
+   */
+  public getRateLimiterState(): RateLimiterState | undefined {
+    return this.config.rateLimiter?.getState();
+  }
+
+  /**
+   * Create an independent client sharing this client's configuration and partner token
+   *
+   * The fork keeps its own access token and session, so it can be bound to a
+   * different company without affecting this client. Interceptors and the rate
+   * limiter are shared.
+   */
+  public fork(): HttpClient {
+    const forked = new HttpClient(this.config);
+    forked.partnerToken = this.partnerToken;
+    forked.interceptors = this.interceptors;
+    return forked;
+  }
+
+  /**
+   * Set the handler responsible for refreshing expired access tokens
+   */
+  public setAuthHandler(handler: AuthHandler | undefined): void {
+    this.authHandler = handler;
+  }
+
   /**
    * Make an HTTP request
+   *
+   * When a session is attached, an expiring access token is refreshed before the
+   * request, and a request rejected with 401 is replayed once after re-authentication.
    */
   public async request<T = unknown>(
     endpoint: string,
     options: HttpRequestOptions = {}
+  ): Promise<HttpResponse<T>> {
+    const method = options.method ?? 'GET';
+    const path = endpoint.split('?')[0] ?? endpoint;
+    const call: CallState = {
+      scope: this.config.instrumentation?.start({
+        operation: options.operation ?? `${method} ${path}`,
+        method,
+        endpoint: path,
+        ...(options.attributes && { attributes: options.attributes })
+      }),
+      attempts: 0
+    };
+
+    try {
+      const response = await this.authorizedRequest<T>(endpoint, options, call);
+      // Binary bodies are never logged
+      const body = (options.responseType ?? 'json') === 'json' ? response.data : undefined;
+      call.scope?.succeed(response.status, call.attempts, body);
+      return response;
+    } catch (error) {
+      call.scope?.fail(error as Error, call.attempts);
+      throw error;
+    }
+  }
+
+  /**
+   * Make an HTTP request with session handling
+   */
+  private async authorizedRequest<T>(
+    endpoint: string,
+    options: HttpRequestOptions,
+    call: CallState
+  ): Promise<HttpResponse<T>> {
+    const authHandler = options.skipAuthRefresh ? undefined : this.authHandler;
+
+    if (!authHandler) {
+      return this.requestWithRetry<T>(endpoint, options, call);
+    }
+
+    await authHandler.beforeRequest();
+    const usedToken = this.accessToken;
+
+    try {
+      return await this.requestWithRetry<T>(endpoint, options, call);
+    } catch (error) {
+      if (
+        error instanceof DidoxApiError &&
+        error.statusCode === 401 &&
+        await authHandler.handleUnauthorized(usedToken)
+      ) {
+        return this.requestWithRetry<T>(endpoint, options, call);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make an HTTP request applying the retry policy
+   *
+   * Transient failures (timeouts, network errors, 408/429/5xx responses) are retried
+   * with exponential backoff according to the retry policy. Non-idempotent methods
+   * are only retried when explicitly allowed.
+   */
+  private async requestWithRetry<T>(
+    endpoint: string,
+    options: HttpRequestOptions,
+    call: CallState
+  ): Promise<HttpResponse<T>> {
+    const method = options.method ?? 'GET';
+    const retry = this.resolveRequestRetry(options.retry);
+    const canRetry = retry.retryNonIdempotent || isIdempotentMethod(method);
+    const maxAttempts = canRetry ? Math.max(1, retry.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      call.attempts++;
+
+      try {
+        const response = await this.execute<T>(endpoint, options, retry, attempt, call);
+
+        retry.onAttempt?.({
+          attempt,
+          maxAttempts,
+          method,
+          endpoint,
+          willRetry: false,
+          delay: 0
+        });
+
+        return response;
+      } catch (error) {
+        const willRetry = attempt < maxAttempts && this.isRetryable(error);
+        const delay = willRetry
+          ? computeRetryDelay(
+              attempt,
+              retry,
+              error instanceof DidoxApiError ? error.retryAfter : undefined
+            )
+          : 0;
+
+        retry.onAttempt?.({
+          attempt,
+          maxAttempts,
+          method,
+          endpoint,
+          error: error as Error,
+          willRetry,
+          delay
+        });
+
+        if (!willRetry) {
+          throw error;
+        }
+
+        call.scope?.retry(attempt, error as Error, delay);
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Perform a single HTTP request attempt through the interceptor pipeline
+   */
+  private async execute<T>(
+    endpoint: string,
+    options: HttpRequestOptions,
+    retry: ResolvedRetryConfig,
+    attempt: number,
+    call: CallState
   ): Promise<HttpResponse<T>> {
     const {
       method = 'GET',
@@ -76,15 +377,13 @@ export class HttpClient {
       timeout = this.config.timeout
     } = options;
 
-    const url = `${this.config.baseUrl}${endpoint}`;
-    
     const requestHeaders: Record<string, string> = {
       ...this.config.defaultHeaders,
       ...headers
     };
 
-    // Add access token if available
-    if (this.accessToken) {
+    // Add access token if available (an explicit user-key header takes precedence)
+    if (this.accessToken && !requestHeaders['user-key']) {
       requestHeaders['user-key'] = this.accessToken;
     }
 
@@ -93,15 +392,67 @@ export class HttpClient {
       requestHeaders['Partner-Authorization'] = this.partnerToken;
     }
 
+    const context: HttpRequestContext = {
+      method,
+      endpoint,
+      url: `${this.config.baseUrl}${endpoint}`,
+      headers: requestHeaders,
+      body,
+      attempt,
+      shortCircuited: false,
+      state: {}
+    };
+
+    try {
+      const cached = await this.interceptors.runRequest(context);
+      call.scope?.attempt(attempt, { headers: context.headers, body: context.body });
+      const response = cached ?? await this.send(context, retry, {
+        timeout,
+        responseType: options.responseType ?? 'json',
+        signal: options.signal
+      });
+      return await this.interceptors.runResponse(response, context) as HttpResponse<T>;
+    } catch (error) {
+      const result = await this.interceptors.runError(error as Error, context);
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result as HttpResponse<T>;
+    }
+  }
+
+  /**
+   * Send the request over the network and parse the response
+   * The timeout covers the response headers; a streamed body is read by the caller
+   */
+  private async send(
+    context: HttpRequestContext,
+    retry: ResolvedRetryConfig,
+    transfer: TransferOptions
+  ): Promise<HttpResponse> {
+    const { method, url, headers: requestHeaders, body } = context;
+    const { timeout, responseType, signal } = transfer;
+
     // Add Content-Type for requests with body
     if (body && !requestHeaders['Content-Type']) {
       requestHeaders['Content-Type'] = 'application/json';
     }
 
+    // Wait for the client-side rate limit budget before starting the timeout
+    const release = this.config.rateLimiter
+      ? await this.config.rateLimiter.acquire(method, context.endpoint, signal)
+      : undefined;
+    // A streamed body keeps its limiter slot until the caller has read it
+    let releaseWithBody = false;
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
+      signal?.throwIfAborted();
+
       const fetchOptions: RequestInit = {
         method,
         headers: requestHeaders,
@@ -112,7 +463,7 @@ export class HttpClient {
         fetchOptions.body = JSON.stringify(body);
       }
 
-      const response = await fetch(url, fetchOptions);
+      const response = await (this.config.fetch ?? fetch)(url, fetchOptions);
 
       clearTimeout(timeoutId);
 
@@ -121,26 +472,60 @@ export class HttpClient {
         responseHeaders[key] = value;
       });
 
-      let responseData: T;
+      const retryableStatus = retry.retryOnStatus.includes(response.status);
+      const retryAfter = parseRetryAfter(responseHeaders['retry-after']);
+
+      if (response.ok && responseType !== 'json') {
+        let data: Readable | Buffer;
+        if (responseType === 'stream') {
+          data = toNodeStream(response.body);
+          // 'close' follows the end of the body, an error and destroy()
+          if (release) {
+            data.once('close', release);
+            releaseWithBody = true;
+          }
+        } else {
+          data = Buffer.from(await response.arrayBuffer());
+        }
+
+        return {
+          data,
+          status: response.status,
+          headers: responseHeaders
+        };
+      }
+
+      let responseData: unknown;
       
       // Try to parse JSON response
       try {
         const text = await response.text();
         responseData = text ? JSON.parse(text) : null;
       } catch {
+        // Error pages from proxies are not JSON; report them by status
+        if (!response.ok) {
+          throw createApiError(response.status, undefined, {
+            statusText: response.statusText,
+            retryable: retryableStatus,
+            ...(retryAfter !== undefined && { retryAfter })
+          });
+        }
+
         throw new DidoxApiError(
           'Invalid JSON response from Didox API',
-          response.status
+          response.status,
+          undefined,
+          { retryable: retryableStatus }
         );
       }
 
       // Handle error responses
       if (!response.ok) {
-        throw new DidoxApiError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          response.status,
-          responseData
-        );
+        throw createApiError(response.status, responseData, {
+          statusText: response.statusText,
+          retryable: retryableStatus,
+          ...(retryAfter !== undefined && { retryAfter })
+        });
       }
 
       return {
@@ -156,6 +541,11 @@ export class HttpClient {
         throw error;
       }
 
+      // Cancelled by the caller: surface the abort reason as-is
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
       // Handle AbortError (timeout)
       if (error instanceof Error && error.name === 'AbortError') {
         throw new DidoxNetworkError(
@@ -169,7 +559,42 @@ export class HttpClient {
         'Network request failed',
         error as Error
       );
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (!releaseWithBody) {
+        release?.();
+      }
+    }
+  }
+
+  /**
+   * Merge per-request retry overrides with the client retry policy
+   */
+  private resolveRequestRetry(override: RetryConfig | false | undefined): ResolvedRetryConfig {
+    if (override === undefined) {
+      return this.retryConfig;
+    }
+
+    if (override === false) {
+      return { ...this.retryConfig, maxAttempts: 1 };
     }
+
+    const { onAttempt, ...rest } = this.retryConfig;
+    return resolveRetryConfig({
+      ...rest,
+      ...(onAttempt && { onAttempt }),
+      ...override
+    });
+  }
+
+  /**
+   * Check whether a failed attempt may be repeated
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof DidoxApiError || error instanceof DidoxNetworkError) {
+      return error.retryable;
+    }
+    return false;
   }
 
   /**
@@ -213,4 +638,13 @@ export class HttpClient {
   ): Promise<HttpResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'DELETE' });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a fetch body into a Node readable stream (empty when there is no body)
+ */
+function toNodeStream(body: Response['body']): Readable {
+  return body
+    ? Readable.fromWeb(body as unknown as NodeReadableStream<Uint8Array>)
+    : Readable.from([]);
+}
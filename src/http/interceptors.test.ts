@@ -0,0 +1,101 @@
+import { DidoxTestServer } from '../testing/DidoxTestServer.js';
+import type { DidoxClient } from '../client/DidoxClient.js';
+import { DidoxApiError } from './errors.js';
+
+const COMPANY = '123456789';
+
+describe('interceptors', () => {
+  let server: DidoxTestServer;
+  let didox: DidoxClient;
+
+  beforeEach(async () => {
+    server = new DidoxTestServer();
+    server.seedCompany({ tin: COMPANY });
+    didox = server.createClient({ retry: { initialDelay: 1, jitter: false } });
+    await didox.auth.loginLegalEntity({ taxId: COMPANY, password: 'password123' });
+    server.requests.length = 0;
+  });
+
+  it('runs onRequest in registration order and onResponse in reverse order', async () => {
+    const calls: string[] = [];
+    for (const name of ['a', 'b', 'c']) {
+      didox.use({
+        name,
+        onRequest: () => { calls.push(`request ${name}`); },
+        onResponse: () => { calls.push(`response ${name}`); }
+      });
+    }
+
+    await didox.profile.getProfile();
+
+    expect(calls).toEqual(['request a', 'request b', 'request c', 'response c', 'response b', 'response a']);
+  });
+
+  it('runs onError in reverse order and throws the last replacement', async () => {
+    const calls: string[] = [];
+    didox.use({ onError: error => { calls.push(`outer ${error.message}`); return new Error('outer'); } });
+    didox.use({ onError: error => { calls.push(`inner ${(error as DidoxApiError).statusCode}`); return new Error('inner'); } });
+    server.injectFault({ path: '/v1/profile', status: 400 });
+
+    await expect(didox.profile.getProfile()).rejects.toThrow('outer');
+    expect(calls).toEqual(['inner 400', 'outer inner']);
+  });
+
+  it('sends headers changed by onRequest and runs the hooks again on each retry', async () => {
+    const attempts: number[] = [];
+    didox.use({
+      onRequest: context => {
+        attempts.push(context.attempt);
+        context.headers['X-Correlation-Id'] = `corr-${context.attempt}`;
+      }
+    });
+    server.injectFault({ path: '/v1/profile', status: 503 });
+
+    await didox.profile.getProfile();
+
+    expect(attempts).toEqual([1, 2]);
+    expect(server.requests.map(request => request.headers['x-correlation-id'])).toEqual(['corr-1', 'corr-2']);
+  });
+
+  it('short-circuits the request when onRequest returns a response', async () => {
+    const calls: string[] = [];
+    const cached = { data: { tin: COMPANY, fullName: 'Cached' }, status: 200, headers: {} };
+    didox.use({
+      name: 'cache',
+      onRequest: () => cached,
+      onResponse: (response, context) => { calls.push(`response cache ${context.shortCircuited}`); }
+    });
+    didox.use({
+      onRequest: () => { calls.push('request second'); },
+      onResponse: () => { calls.push('response second'); }
+    });
+
+    await expect(didox.profile.getProfile()).resolves.toEqual(cached.data);
+
+    expect(server.requests).toHaveLength(0);
+    expect(calls).toEqual(['response second', 'response cache true']);
+  });
+
+  it('recovers from a failure when onError returns a response', async () => {
+    didox.use({
+      onError: (error, context) => context.endpoint === '/v1/profile' && error instanceof DidoxApiError
+        ? { data: { tin: COMPANY }, status: 200, headers: {} }
+        : undefined
+    });
+    server.injectFault({ path: '/v1/profile', status: 404 });
+
+    await expect(didox.profile.getProfile()).resolves.toEqual({ tin: COMPANY });
+  });
+
+  it('stops calling an interceptor once it is removed by name', async () => {
+    const onRequest = jest.fn();
+    didox.use({ name: 'audit', onRequest });
+
+    await didox.profile.getProfile();
+    expect(didox.removeInterceptor('audit')).toBe(true);
+    await didox.profile.getProfile();
+
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(didox.removeInterceptor('audit')).toBe(false);
+  });
+});
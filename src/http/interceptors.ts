@@ -0,0 +1,192 @@
+import type { HttpMethod, HttpResponse } from './httpClient.js';
+
+/**
+ * Request context passed through the interceptor pipeline
+ *
+ * `url`, `headers` and `body` may be modified by `onRequest` hooks;
+ * the modified values are sent to the API.
+ */
+export interface HttpRequestContext {
+  /**
+   * HTTP method
+   */
+  method: HttpMethod;
+
+  /**
+   * Requested endpoint (relative to base URL)
+   */
+  endpoint: string;
+
+  /**
+   * Full request URL
+   */
+  url: string;
+
+  /**
+   * Request headers, including `user-key` and `Partner-Authorization`
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Request body (serialized to JSON when sent)
+   */
+  body: unknown;
+
+  /**
+   * Attempt number (starts from 1, increases on retries)
+   */
+  attempt: number;
+
+  /**
+   * Whether an `onRequest` hook answered the request without calling the API
+   */
+  shortCircuited: boolean;
+
+  /**
+   * Free-form storage for sharing data between hooks of the same request
+   */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Request/response interceptor
+ *
+ * Hooks run around every request attempt. `onRequest` hooks run in registration
+ * order, `onResponse` and `onError` hooks in reverse order.
+ *
+ * @example
+ * ```typescript
+ * didox.use({
+ *   name: 'correlation-id',
+ *   onRequest(ctx) {
+ *     ctx.headers['X-Correlation-Id'] = randomUUID();
+ *   },
+ *   onResponse(response, ctx) {
+ *     audit.log(ctx.method, ctx.endpoint, response.status);
+ *   }
+ * });
+ * ```
+ */
+export interface DidoxInterceptor {
+  /**
+   * Optional name, used to remove the interceptor later
+   */
+  name?: string;
+
+  /**
+   * Called before the request is sent
+   * Return a response to short-circuit the request (e.g. serve it from a cache)
+   */
+  onRequest?(context: HttpRequestContext): void | HttpResponse | Promise<void | HttpResponse>;
+
+  /**
+   * Called after a successful response
+   * Return a response to replace the one passed in
+   */
+  onResponse?(
+    response: HttpResponse,
+    context: HttpRequestContext
+  ): void | HttpResponse | Promise<void | HttpResponse>;
+
+  /**
+   * Called when the request fails
+   * Return an error to replace the thrown one, or a response to recover from the failure
+   */
+  onError?(
+    error: Error,
+    context: HttpRequestContext
+  ): void | Error | HttpResponse | Promise<void | Error | HttpResponse>;
+}
+
+/**
+ * Ordered collection of interceptors
+ */
+export class InterceptorPipeline {
+  private readonly interceptors: DidoxInterceptor[] = [];
+
+  constructor(initial: DidoxInterceptor[] = []) {
+    this.interceptors.push(...initial);
+  }
+
+  /**
+   * Register an interceptor at the end of the pipeline
+   */
+  public use(interceptor: DidoxInterceptor): void {
+    this.interceptors.push(interceptor);
+  }
+
+  /**
+   * Remove an interceptor by reference or name
+   *
+   * @returns true when an interceptor was removed
+   */
+  public remove(interceptor: DidoxInterceptor | string): boolean {
+    const index = this.interceptors.findIndex(item =>
+      typeof interceptor === 'string' ? item.name === interceptor : item === interceptor
+    );
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.interceptors.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Number of registered interceptors
+   */
+  public get size(): number {
+    return this.interceptors.length;
+  }
+
+  /**
+   * Run `onRequest` hooks
+   *
+   * @returns Response of the first hook that short-circuited the request, if any
+   */
+  public async runRequest(context: HttpRequestContext): Promise<HttpResponse | undefined> {
+    for (const interceptor of this.interceptors) {
+      const result = await interceptor.onRequest?.(context);
+      if (result) {
+        context.shortCircuited = true;
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Run `onResponse` hooks
+   *
+   * @returns Final response
+   */
+  public async runResponse(response: HttpResponse, context: HttpRequestContext): Promise<HttpResponse> {
+    let current = response;
+    for (const interceptor of [...this.interceptors].reverse()) {
+      const result = await interceptor.onResponse?.(current, context);
+      if (result) {
+        current = result;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Run `onError` hooks
+   *
+   * @returns Final error to throw, or a response when a hook recovered from the failure
+   */
+  public async runError(error: Error, context: HttpRequestContext): Promise<Error | HttpResponse> {
+    let current = error;
+    for (const interceptor of [...this.interceptors].reverse()) {
+      const result = await interceptor.onError?.(current, context);
+      if (result instanceof Error) {
+        current = result;
+      } else if (result) {
+        return result;
+      }
+    }
+    return current;
+  }
+}
@@ -0,0 +1,377 @@
+import type { HttpMethod } from './httpClient.js';
+import { DidoxApiError } from './errors.js';
+
+/**
+ * Attribute value accepted by spans and metrics
+ */
+export type DidoxAttributeValue = string | number | boolean;
+
+/**
+ * Span/metric attributes
+ */
+export type DidoxAttributes = Record<string, DidoxAttributeValue>;
+
+/**
+ * Span status codes (same values as OpenTelemetry `SpanStatusCode`)
+ */
+export enum DidoxSpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2
+}
+
+/**
+ * Minimal span interface
+ * Structurally compatible with an OpenTelemetry `Span`
+ */
+export interface DidoxSpan {
+  setAttribute(key: string, value: DidoxAttributeValue): unknown;
+  setStatus(status: { code: DidoxSpanStatusCode; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): unknown;
+}
+
+/**
+ * Minimal tracer interface
+ * Structurally compatible with an OpenTelemetry `Tracer`, e.g. `trace.getTracer('didox')`
+ */
+export interface DidoxTracer {
+  startSpan(name: string, options?: { attributes?: DidoxAttributes }): DidoxSpan;
+}
+
+/**
+ * Minimal counter interface (OpenTelemetry `Counter` compatible)
+ */
+export interface DidoxCounter {
+  add(value: number, attributes?: DidoxAttributes): void;
+}
+
+/**
+ * Minimal histogram interface (OpenTelemetry `Histogram` compatible)
+ */
+export interface DidoxHistogram {
+  record(value: number, attributes?: DidoxAttributes): void;
+}
+
+/**
+ * Minimal meter interface
+ * Structurally compatible with an OpenTelemetry `Meter`, e.g. `metrics.getMeter('didox')`
+ */
+export interface DidoxMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): DidoxCounter;
+  createHistogram(name: string, options?: { description?: string; unit?: string }): DidoxHistogram;
+}
+
+/**
+ * Structured logger
+ * `console` and most logging libraries (through a thin adapter) fit this interface
+ */
+export interface DidoxLogger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Log levels, from the most verbose
+ */
+export type DidoxLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Instrumentation configuration
+ */
+export interface ObservabilityConfig {
+  /**
+   * Tracer used to create one span per API method call (e.g. `documents.list`)
+   */
+  tracer?: DidoxTracer;
+
+  /**
+   * Meter used to record request, error and retry counters and a duration histogram
+   */
+  meter?: DidoxMeter;
+
+  /**
+   * Structured logger; tokens, passwords and PINFLs are redacted from all fields
+   */
+  logger?: DidoxLogger;
+
+  /**
+   * Minimum level passed to the logger
+   * @default 'info'
+   */
+  logLevel?: DidoxLogLevel;
+
+  /**
+   * Include (redacted) request and response bodies in debug logs
+   * @default false
+   */
+  logBodies?: boolean;
+}
+
+/**
+ * Description of an API call being instrumented
+ */
+export interface OperationInfo {
+  /**
+   * Operation name, e.g. `documents.list`
+   */
+  operation: string;
+
+  method: HttpMethod;
+
+  /**
+   * Endpoint path without query string
+   */
+  endpoint: string;
+
+  /**
+   * Extra attributes supplied by the module, e.g. `didox.doctype`
+   */
+  attributes?: DidoxAttributes;
+}
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are always redacted (compared case-insensitively, ignoring `-` and `_`)
+ */
+const SECRET_KEYS = [
+  'token',
+  'accesstoken',
+  'userkey',
+  'partnertoken',
+  'partnerauthorization',
+  'authorization',
+  'password',
+  'pinfl',
+  'signature',
+  'pkcs7'
+];
+
+/**
+ * PINFL: 14-digit personal identification number
+ */
+const PINFL_PATTERN = /(?<!\d)\d{14}(?!\d)/g;
+
+const LOG_LEVELS: DidoxLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Redact secrets from a value before it is logged
+ *
+ * Values of token, password, user-key, authorization and PINFL fields are replaced
+ * at any depth, and 14-digit numbers (PINFLs) are masked inside strings.
+ *
+ * @param value - Value to redact
+ * @returns Redacted copy
+ *
+ * @example
+ * ```typescript
+ * redactSensitive({ password: 'secret', user: { pinfl: '12345678901234' } });
+ * // { password: '[REDACTED]', user: { pinfl: '[REDACTED]' } }
+ * ```
+ */
+export function redactSensitive(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(PINFL_PATTERN, REDACTED);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redactSensitive);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEYS.includes(key.toLowerCase().replace(/[-_]/g, ''))
+        ? REDACTED
+        : redactSensitive(item)
+    ])
+  );
+}
+
+/**
+ * Instrumentation scope of a single API call
+ */
+export interface OperationScope {
+  /**
+   * Report a failed attempt that will be retried
+   */
+  retry(attempt: number, error: Error, delay: number): void;
+
+  /**
+   * Report an attempt being sent
+   */
+  attempt(attempt: number, details: { headers: Record<string, string>; body: unknown }): void;
+
+  /**
+   * Finish the call successfully
+   */
+  succeed(status: number, attempts: number, body?: unknown): void;
+
+  /**
+   * Finish the call with an error
+   */
+  fail(error: Error, attempts: number): void;
+}
+
+/**
+ * Scope used when instrumentation is disabled
+ */
+const NOOP_SCOPE: OperationScope = {
+  retry: () => undefined,
+  attempt: () => undefined,
+  succeed: () => undefined,
+  fail: () => undefined
+};
+
+/**
+ * Creates spans, metrics and log records for API calls
+ */
+export class Instrumentation {
+  private readonly requests: DidoxCounter | undefined;
+  private readonly errors: DidoxCounter | undefined;
+  private readonly retries: DidoxCounter | undefined;
+  private readonly duration: DidoxHistogram | undefined;
+  private readonly minLevel: number;
+
+  constructor(private readonly config: ObservabilityConfig) {
+    const { meter } = config;
+
+    this.requests = meter?.createCounter('didox.client.requests', {
+      description: 'Didox API calls'
+    });
+    this.errors = meter?.createCounter('didox.client.errors', {
+      description: 'Failed Didox API calls'
+    });
+    this.retries = meter?.createCounter('didox.client.retries', {
+      description: 'Retried Didox API request attempts'
+    });
+    this.duration = meter?.createHistogram('didox.client.duration', {
+      description: 'Duration of Didox API calls, including retries',
+      unit: 'ms'
+    });
+
+    this.minLevel = LOG_LEVELS.indexOf(config.logLevel ?? 'info');
+  }
+
+  /**
+   * Whether any instrumentation is configured
+   */
+  public get enabled(): boolean {
+    return Boolean(this.config.tracer || this.config.meter || this.config.logger);
+  }
+
+  /**
+   * Start instrumenting an API call
+   */
+  public start(info: OperationInfo): OperationScope {
+    if (!this.enabled) {
+      return NOOP_SCOPE;
+    }
+
+    const startedAt = Date.now();
+    // Metrics are labelled by operation only; the concrete path carries IDs and stays on spans and logs
+    const metricAttributes: DidoxAttributes = {
+      'didox.operation': info.operation,
+      'http.request.method': info.method,
+      ...info.attributes
+    };
+    const attributes: DidoxAttributes = {
+      ...metricAttributes,
+      // PINFLs may appear in paths (e.g. `/v1/profile/warehouses/:pinfl`)
+      'url.path': redactSensitive(info.endpoint) as string
+    };
+
+    const span = this.config.tracer?.startSpan(info.operation, { attributes });
+    const fields = { ...attributes };
+
+    return {
+      attempt: (attempt, details) => {
+        this.log('debug', 'Didox request', {
+          ...fields,
+          attempt,
+          headers: details.headers,
+          ...(this.config.logBodies && details.body !== undefined && { body: details.body })
+        });
+      },
+
+      retry: (attempt, error, delay) => {
+        this.retries?.add(1, metricAttributes);
+        this.log('warn', 'Didox request failed, retrying', {
+          ...fields,
+          attempt,
+          delay,
+          error: error.message
+        });
+      },
+
+      succeed: (status, attempts, body) => {
+        const durationMs = Date.now() - startedAt;
+        const result = { ...metricAttributes, 'http.response.status_code': status };
+
+        span?.setAttribute('http.response.status_code', status);
+        span?.setAttribute('didox.attempts', attempts);
+        span?.setStatus({ code: DidoxSpanStatusCode.OK });
+        span?.end();
+
+        this.requests?.add(1, result);
+        this.duration?.record(durationMs, result);
+
+        this.log('debug', 'Didox response', {
+          ...fields,
+          status,
+          attempts,
+          durationMs,
+          ...(this.config.logBodies && body !== undefined && { body })
+        });
+      },
+
+      fail: (error, attempts) => {
+        const durationMs = Date.now() - startedAt;
+        const status = error instanceof DidoxApiError ? error.statusCode : undefined;
+        const result: DidoxAttributes = {
+          ...metricAttributes,
+          'error.type': error.name,
+          ...(status !== undefined && { 'http.response.status_code': status })
+        };
+
+        if (status !== undefined) {
+          span?.setAttribute('http.response.status_code', status);
+        }
+        span?.setAttribute('didox.attempts', attempts);
+        span?.recordException(error);
+        span?.setStatus({ code: DidoxSpanStatusCode.ERROR, message: error.message });
+        span?.end();
+
+        this.requests?.add(1, result);
+        this.errors?.add(1, result);
+        this.duration?.record(durationMs, result);
+
+        this.log('error', 'Didox request failed', {
+          ...fields,
+          ...(status !== undefined && { status }),
+          attempts,
+          durationMs,
+          error: error.message,
+          errorType: error.name
+        });
+      }
+    };
+  }
+
+  /**
+   * Write a redacted log record if the level is enabled
+   */
+  private log(level: DidoxLogLevel, message: string, fields: Record<string, unknown>): void {
+    if (!this.config.logger || LOG_LEVELS.indexOf(level) < this.minLevel) {
+      return;
+    }
+    this.config.logger[level](message, redactSensitive(fields) as Record<string, unknown>);
+  }
+}
@@ -0,0 +1,83 @@
+import { DocumentStatus } from '../modules/documents/documents.enums.js';
+import { DidoxTestServer } from '../testing/DidoxTestServer.js';
+import type { DidoxClient } from '../client/DidoxClient.js';
+import type { RateLimitConfig } from './rateLimiter.js';
+
+const COMPANY = '123456789';
+const PARTNER = '987654321';
+
+describe('rate limiting', () => {
+  let server: DidoxTestServer;
+
+  const createClient = async (rateLimit: RateLimitConfig): Promise<DidoxClient> => {
+    const didox = server.createClient({ rateLimit });
+    await didox.auth.loginLegalEntity({ taxId: COMPANY, password: 'password123' });
+    return didox;
+  };
+
+  beforeEach(() => {
+    server = new DidoxTestServer();
+    server.seedCompany({ tin: COMPANY }).seedCompany({ tin: PARTNER });
+  });
+
+  it('holds the slot of a streamed download until its body is read', async () => {
+    const didox = await createClient({ maxConcurrent: 1 });
+    const { id } = server.seedDocument({ doctype: '002', ownerTin: COMPANY, partnerTin: PARTNER, status: DocumentStatus.SIGNED });
+
+    const download = await didox.documents.download(id, { format: 'pdf' });
+    expect(didox.getRateLimitState()!.global.inFlight).toBe(1);
+
+    let profileDone = false;
+    const profile = didox.profile.getProfile().then(() => { profileDone = true; });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(profileDone).toBe(false);
+    expect(didox.getRateLimitState()!.global.queued).toBe(1);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of download.data) {
+      chunks.push(chunk as Buffer);
+    }
+    await profile;
+
+    expect(Buffer.concat(chunks).length).toBeGreaterThan(0);
+    expect(didox.getRateLimitState()!.global).toMatchObject({ inFlight: 0, queued: 0 });
+  });
+
+  it('releases the slot when a streamed body is destroyed unread', async () => {
+    const didox = await createClient({ maxConcurrent: 1 });
+    const { id } = server.seedDocument({ doctype: '002', ownerTin: COMPANY, partnerTin: PARTNER, status: DocumentStatus.SIGNED });
+
+    const download = await didox.documents.download(id, { format: 'pdf' });
+    download.data.destroy();
+
+    await expect(didox.profile.getProfile()).resolves.toMatchObject({ tin: COMPANY });
+    expect(didox.getRateLimitState()!.global.inFlight).toBe(0);
+  });
+
+  it('queues requests beyond maxConcurrent', async () => {
+    const didox = await createClient({ maxConcurrent: 1 });
+    server.setLatency(5);
+
+    await Promise.all([didox.profile.getProfile(), didox.account.getProfile(), didox.profile.getOperators()]);
+
+    // The login went through the limiter too
+    expect(didox.getRateLimitState()!.global).toMatchObject({ totalRequests: 4, totalDelayed: 2, inFlight: 0 });
+  });
+
+  it('leaves the queue when the request is aborted', async () => {
+    const didox = await createClient({ maxConcurrent: 1 });
+    const { id } = server.seedDocument({ doctype: '002', ownerTin: COMPANY, partnerTin: PARTNER, status: DocumentStatus.SIGNED });
+    const download = await didox.documents.download(id, { format: 'pdf' });
+
+    const controller = new AbortController();
+    const listed = didox.documents.listAll({ owner: 0 }, { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    controller.abort(new Error('stop'));
+
+    await expect(listed).rejects.toThrow('stop');
+    expect(didox.getRateLimitState()!.global).toMatchObject({ inFlight: 1, queued: 0 });
+
+    download.data.destroy();
+    await expect(didox.profile.getProfile()).resolves.toMatchObject({ tin: COMPANY });
+  });
+});
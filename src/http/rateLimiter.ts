@@ -0,0 +1,428 @@
+import type { HttpMethod } from './httpClient.js';
+import { sleep } from './retry.js';
+
+/**
+ * Budget limits shared by global and per-endpoint rules
+ */
+export interface RateLimitBudget {
+  /**
+   * Sustained request rate (token bucket refill rate)
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Maximum number of requests that may be sent at once after an idle period
+   * (token bucket capacity)
+   * @default requestsPerSecond
+   */
+  burst?: number;
+
+  /**
+   * Maximum number of requests in flight at the same time
+   * A streamed download stays in flight until its body is read or destroyed.
+   */
+  maxConcurrent?: number;
+}
+
+/**
+ * Separate budget for matching endpoints
+ * Applied in addition to the global budget
+ */
+export interface EndpointRateLimit extends RateLimitBudget {
+  /**
+   * Endpoint pattern matched against the request path (without query string)
+   * In string patterns `*` matches one path segment, e.g. `/v1/documents/*\/create`
+   */
+  pattern: string | RegExp;
+
+  /**
+   * Only apply to this HTTP method
+   */
+  method?: HttpMethod;
+
+  /**
+   * Name reported in limiter state
+   * @default pattern source
+   */
+  name?: string;
+}
+
+/**
+ * Client-side rate limiting configuration
+ */
+export interface RateLimitConfig extends RateLimitBudget {
+  /**
+   * Per-endpoint budgets; the first matching rule is applied
+   */
+  endpoints?: EndpointRateLimit[];
+}
+
+/**
+ * Snapshot of a single budget, for metrics
+ */
+export interface RateLimitBudgetState {
+  /**
+   * Budget name ('global' or endpoint rule name)
+   */
+  name: string;
+
+  /**
+   * Tokens currently available (undefined when rate is not limited)
+   */
+  availableTokens: number | undefined;
+
+  /**
+   * Token bucket capacity (undefined when rate is not limited)
+   */
+  capacity: number | undefined;
+
+  /**
+   * Requests currently in flight
+   */
+  inFlight: number;
+
+  /**
+   * Concurrency limit (undefined when not limited)
+   */
+  maxConcurrent: number | undefined;
+
+  /**
+   * Requests waiting for a token or a free slot
+   */
+  queued: number;
+
+  /**
+   * Total requests that passed this budget
+   */
+  totalRequests: number;
+
+  /**
+   * Total requests that had to wait
+   */
+  totalDelayed: number;
+}
+
+/**
+ * Snapshot of the whole limiter, for metrics
+ */
+export interface RateLimiterState {
+  global: RateLimitBudgetState;
+  endpoints: RateLimitBudgetState[];
+}
+
+/**
+ * Token bucket with FIFO waiting
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly rate: number,
+    public readonly capacity: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Tokens available right now
+   */
+  public get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Take one token, waiting until it becomes available
+   *
+   * @param signal - Stop waiting when aborted; no token is taken
+   * @returns true when the caller had to wait
+   */
+  public take(signal?: AbortSignal): Promise<boolean> {
+    const turn = this.chain.then(async () => {
+      signal?.throwIfAborted();
+      this.refill();
+      let delayed = false;
+
+      if (this.tokens < 1) {
+        delayed = true;
+        await sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000), signal);
+        this.refill();
+      }
+
+      this.tokens -= 1;
+      return delayed;
+    });
+
+    this.chain = turn.then(() => undefined, () => undefined);
+    return signal ? untilAborted(turn, signal) : turn;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Counting semaphore with FIFO waiting
+ */
+class Semaphore {
+  public inFlight = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(public readonly limit: number) {}
+
+  public get queued(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Acquire a slot
+   *
+   * @param signal - Leave the queue when aborted
+   * @returns true when the caller had to wait
+   */
+  public async acquire(signal?: AbortSignal): Promise<boolean> {
+    signal?.throwIfAborted();
+
+    if (this.inFlight < this.limit) {
+      this.inFlight++;
+      return false;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+    return true;
+  }
+
+  /**
+   * Release a slot, handing it over to the next waiter
+   */
+  public release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.inFlight--;
+    }
+  }
+}
+
+/**
+ * A single budget: optional token bucket and optional concurrency limit
+ */
+class Budget {
+  private readonly bucket: TokenBucket | undefined;
+  private readonly semaphore: Semaphore | undefined;
+  private waitingForToken = 0;
+  private unlimitedInFlight = 0;
+  private totalRequests = 0;
+  private totalDelayed = 0;
+
+  constructor(public readonly name: string, budget: RateLimitBudget) {
+    if (budget.requestsPerSecond !== undefined) {
+      this.bucket = new TokenBucket(
+        budget.requestsPerSecond,
+        budget.burst ?? Math.max(1, budget.requestsPerSecond)
+      );
+    }
+
+    if (budget.maxConcurrent !== undefined) {
+      this.semaphore = new Semaphore(budget.maxConcurrent);
+    }
+  }
+
+  /**
+   * Wait until a request may be sent
+   *
+   * @param signal - Stop waiting when aborted; the slot taken so far is released
+   */
+  public async acquire(signal?: AbortSignal): Promise<void> {
+    let delayed = false;
+
+    if (this.semaphore) {
+      delayed = await this.semaphore.acquire(signal);
+    } else {
+      this.unlimitedInFlight++;
+    }
+
+    if (this.bucket) {
+      this.waitingForToken++;
+      try {
+        delayed = (await this.bucket.take(signal)) || delayed;
+      } catch (error) {
+        this.release();
+        throw error;
+      } finally {
+        this.waitingForToken--;
+      }
+    }
+
+    this.totalRequests++;
+    if (delayed) {
+      this.totalDelayed++;
+    }
+  }
+
+  /**
+   * Mark a request as finished
+   */
+  public release(): void {
+    if (this.semaphore) {
+      this.semaphore.release();
+    } else {
+      this.unlimitedInFlight--;
+    }
+  }
+
+  public getState(): RateLimitBudgetState {
+    return {
+      name: this.name,
+      availableTokens: this.bucket?.available,
+      capacity: this.bucket?.capacity,
+      inFlight: this.semaphore ? this.semaphore.inFlight - this.waitingForToken : this.unlimitedInFlight - this.waitingForToken,
+      maxConcurrent: this.semaphore?.limit,
+      queued: (this.semaphore?.queued ?? 0) + this.waitingForToken,
+      totalRequests: this.totalRequests,
+      totalDelayed: this.totalDelayed
+    };
+  }
+}
+
+/**
+ * Endpoint rule with its compiled matcher
+ */
+interface EndpointBudget {
+  matcher: RegExp;
+  method: HttpMethod | undefined;
+  budget: Budget;
+}
+
+/**
+ * Client-side rate limiter
+ *
+ * Combines a global token bucket and max-in-flight limit with optional
+ * per-endpoint budgets. A request must pass both the global budget and the
+ * first matching endpoint budget before it is sent.
+ *
+ * @example
+ * ```typescript
+ * const didox = new DidoxClient({
+ *   partnerToken: 'your-partner-token',
+ *   environment: 'production',
+ *   rateLimit: {
+ *     requestsPerSecond: 10,
+ *     maxConcurrent: 5,
+ *     endpoints: [
+ *       { pattern: '/v1/documents/*\/create', requestsPerSecond: 2 }
+ *     ]
+ *   }
+ * });
+ *
+ * console.log(didox.getRateLimitState());
+ * ```
+ */
+export class RateLimiter {
+  private readonly global: Budget;
+  private readonly endpoints: EndpointBudget[];
+
+  constructor(config: RateLimitConfig) {
+    this.global = new Budget('global', config);
+    this.endpoints = (config.endpoints ?? []).map(rule => ({
+      matcher: compilePattern(rule.pattern),
+      method: rule.method,
+      budget: new Budget(rule.name ?? String(rule.pattern), rule)
+    }));
+  }
+
+  /**
+   * Wait until a request may be sent
+   *
+   * @param method - HTTP method
+   * @param endpoint - Requested endpoint (query string is ignored)
+   * @param signal - Leave the queue when aborted; the abort reason is thrown
+   * @returns Function that must be called when the request is finished
+   */
+  public async acquire(method: HttpMethod, endpoint: string, signal?: AbortSignal): Promise<() => void> {
+    const path = endpoint.split('?')[0] ?? endpoint;
+    const rule = this.endpoints.find(item =>
+      (item.method === undefined || item.method === method) && item.matcher.test(path)
+    );
+
+    const budgets = rule ? [rule.budget, this.global] : [this.global];
+    const acquired: Budget[] = [];
+
+    try {
+      for (const budget of budgets) {
+        await budget.acquire(signal);
+        acquired.push(budget);
+      }
+    } catch (error) {
+      acquired.forEach(budget => budget.release());
+      throw error;
+    }
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        acquired.forEach(budget => budget.release());
+      }
+    };
+  }
+
+  /**
+   * Get a snapshot of limiter state, for metrics
+   */
+  public getState(): RateLimiterState {
+    return {
+      global: this.global.getState(),
+      endpoints: this.endpoints.map(item => item.budget.getState())
+    };
+  }
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason when the signal aborts first
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Compile an endpoint pattern into a regular expression
+ */
+function compilePattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]+');
+
+  return new RegExp(`^${source}$`);
+}
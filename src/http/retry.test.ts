@@ -0,0 +1,61 @@
+import { computeRetryDelay, parseRetryAfter, resolveRetryConfig } from './retry.js';
+
+describe('computeRetryDelay', () => {
+  const config = resolveRetryConfig({ jitter: false, initialDelay: 100, backoffFactor: 2, maxDelay: 1000 });
+
+  it('grows exponentially from the initial delay', () => {
+    expect([1, 2, 3, 4].map(attempt => computeRetryDelay(attempt, config))).toEqual([100, 200, 400, 800]);
+  });
+
+  it('caps the delay at maxDelay', () => {
+    expect(computeRetryDelay(10, config)).toBe(1000);
+  });
+
+  it('prefers the server Retry-After delay, capped at maxDelay', () => {
+    expect(computeRetryDelay(1, config, 500)).toBe(500);
+    expect(computeRetryDelay(1, config, 60_000)).toBe(1000);
+  });
+
+  it('ignores Retry-After when respectRetryAfter is off', () => {
+    const ignoring = { ...config, respectRetryAfter: false };
+    expect(computeRetryDelay(2, ignoring, 500)).toBe(200);
+  });
+
+  it('keeps jittered delays between zero and the exponential delay', () => {
+    const jittered = { ...config, jitter: true };
+    const random = jest.spyOn(Math, 'random');
+    try {
+      random.mockReturnValue(0);
+      expect(computeRetryDelay(3, jittered)).toBe(0);
+      random.mockReturnValue(0.999);
+      expect(computeRetryDelay(3, jittered)).toBe(400);
+    } finally {
+      random.mockRestore();
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('0')).toBe(0);
+    expect(parseRetryAfter('120')).toBe(120_000);
+    expect(parseRetryAfter('1.5')).toBe(1500);
+  });
+
+  it('parses an HTTP date relative to now', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    try {
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30_000);
+      expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT')).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('-5')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,235 @@
+import type { HttpMethod } from './httpClient.js';
+
+/**
+ * Information about a single request attempt, passed to the `onAttempt` hook
+ */
+export interface RetryAttemptInfo {
+  /**
+   * Attempt number (starts from 1)
+   */
+  attempt: number;
+
+  /**
+   * Maximum number of attempts allowed for this request
+   */
+  maxAttempts: number;
+
+  /**
+   * HTTP method of the request
+   */
+  method: HttpMethod;
+
+  /**
+   * Requested endpoint (relative to base URL)
+   */
+  endpoint: string;
+
+  /**
+   * Error that caused the attempt to fail (undefined on success)
+   */
+  error?: Error;
+
+  /**
+   * Whether the request will be attempted again
+   */
+  willRetry: boolean;
+
+  /**
+   * Delay in milliseconds before the next attempt (0 when not retrying)
+   */
+  delay: number;
+}
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts including the first one
+   * Set to 1 to disable retries
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Base delay in milliseconds for exponential backoff
+   * @default 300
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for a single backoff delay in milliseconds
+   * @default 10000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each attempt
+   * @default 2
+   */
+  backoffFactor?: number;
+
+  /**
+   * Randomize delays ("full jitter") to avoid synchronized retries
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that are considered transient
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOnStatus?: number[];
+
+  /**
+   * Retry non-idempotent methods (POST, PATCH) as well
+   * Only enable when the endpoint is known to be safe to repeat
+   * @default false
+   */
+  retryNonIdempotent?: boolean;
+
+  /**
+   * Honour the `Retry-After` response header when present
+   * The header value is still capped by `maxDelay`
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Hook called after every attempt, successful or not
+   */
+  onAttempt?: (info: RetryAttemptInfo) => void;
+}
+
+/**
+ * Retry configuration with all defaults applied
+ */
+export type ResolvedRetryConfig = Required<Omit<RetryConfig, 'onAttempt'>> & Pick<RetryConfig, 'onAttempt'>;
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_CONFIG: ResolvedRetryConfig = {
+  maxAttempts: 3,
+  initialDelay: 300,
+  maxDelay: 10000,
+  backoffFactor: 2,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+  respectRetryAfter: true
+};
+
+/**
+ * Methods that can be repeated without side effects
+ */
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set<HttpMethod>(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Resolve retry configuration
+ * `false` disables retries entirely
+ */
+export function resolveRetryConfig(config?: RetryConfig | false): ResolvedRetryConfig {
+  if (config === false) {
+    return { ...DEFAULT_RETRY_CONFIG, maxAttempts: 1 };
+  }
+
+  const resolved: ResolvedRetryConfig = {
+    maxAttempts: config?.maxAttempts ?? DEFAULT_RETRY_CONFIG.maxAttempts,
+    initialDelay: config?.initialDelay ?? DEFAULT_RETRY_CONFIG.initialDelay,
+    maxDelay: config?.maxDelay ?? DEFAULT_RETRY_CONFIG.maxDelay,
+    backoffFactor: config?.backoffFactor ?? DEFAULT_RETRY_CONFIG.backoffFactor,
+    jitter: config?.jitter ?? DEFAULT_RETRY_CONFIG.jitter,
+    retryOnStatus: config?.retryOnStatus ?? DEFAULT_RETRY_CONFIG.retryOnStatus,
+    retryNonIdempotent: config?.retryNonIdempotent ?? DEFAULT_RETRY_CONFIG.retryNonIdempotent,
+    respectRetryAfter: config?.respectRetryAfter ?? DEFAULT_RETRY_CONFIG.respectRetryAfter
+  };
+
+  if (config?.onAttempt) {
+    resolved.onAttempt = config.onAttempt;
+  }
+
+  return resolved;
+}
+
+/**
+ * Check whether an HTTP method is idempotent
+ */
+export function isIdempotentMethod(method: HttpMethod): boolean {
+  return IDEMPOTENT_METHODS.has(method);
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempt - Number of the attempt that just failed (starts from 1)
+ * @param config - Resolved retry configuration
+ * @param retryAfter - Server-provided delay in milliseconds, if any
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  attempt: number,
+  config: ResolvedRetryConfig,
+  retryAfter?: number
+): number {
+  if (config.respectRetryAfter && retryAfter !== undefined) {
+    return Math.min(retryAfter, config.maxDelay);
+  }
+
+  const exponential = Math.min(
+    config.initialDelay * Math.pow(config.backoffFactor, attempt - 1),
+    config.maxDelay
+  );
+
+  return config.jitter ? Math.round(Math.random() * exponential) : exponential;
+}
+
+/**
+ * Parse `Retry-After` header value into milliseconds
+ * Supports both delta-seconds and HTTP-date formats
+ *
+ * @param value - Raw header value
+ * @returns Delay in milliseconds or undefined when header is missing or invalid
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  // A number is never an HTTP date: Date.parse would read '-5' as a year
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * Rejects with the signal's reason when the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
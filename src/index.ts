@@ -10,9 +10,34 @@
 
 // Main client
 export { DidoxClient } from './client/DidoxClient.js';
+export { CompanyClient } from './client/CompanyClient.js';
+export type { CompanyClientOptions } from './client/CompanyClient.js';
 
 // Configuration
-export type { DidoxConfig } from './client/DidoxConfig.js';
+export type { DidoxConfig, DidoxModuleName } from './client/DidoxConfig.js';
+export type { RetryConfig, RetryAttemptInfo } from './http/retry.js';
+export type { DidoxInterceptor, HttpRequestContext } from './http/interceptors.js';
+export type { HttpResponse, HttpResponseType, HttpMethod, FetchLike } from './http/httpClient.js';
+export { DidoxSpanStatusCode, redactSensitive } from './http/observability.js';
+export type {
+  ObservabilityConfig,
+  DidoxTracer,
+  DidoxSpan,
+  DidoxMeter,
+  DidoxCounter,
+  DidoxHistogram,
+  DidoxLogger,
+  DidoxLogLevel,
+  DidoxAttributes,
+  DidoxAttributeValue
+} from './http/observability.js';
+export type {
+  RateLimitConfig,
+  RateLimitBudget,
+  EndpointRateLimit,
+  RateLimiterState,
+  RateLimitBudgetState
+} from './http/rateLimiter.js';
 
 // Auth module types
 export type {
@@ -22,7 +47,10 @@ export type {
   CompanyLoginRequest,
   CompanyLoginResponse,
   RelatedCompany,
-  UserPermissions
+  UserPermissions,
+  CredentialsProvider,
+  SessionConfig,
+  SessionState
 } from './modules/auth/auth.types.js';
 
 // Account module types
@@ -98,27 +126,76 @@ export type {
   NormalizedDocumentsListResponse,
   DocumentsStatisticsResponse,
   RawDocumentResponse,
-  RawDocumentPrivilegesResponse
+  RawDocumentPrivilegesResponse,
+  RawDocumentActionResponse,
+  DocumentActionOptions,
+  DocumentPrivilege,
+  DocumentDownload,
+  DocumentDownloadFormat,
+  DownloadDocumentOptions,
+  IterateDocumentsParams,
+  DocumentIterationOptions,
+  LocalizedName,
+  DocumentStatusInfo,
+  DocumentTypeInfo,
+  DocumentStatisticsEntry,
+  RawDocumentMetadata,
+  WaitForStatusOptions,
+  WaitForStatusesOptions,
+  CreateDraftItem,
+  CreateDraftItemResult,
+  CreateDraftsOptions,
+  CreateDraftsReport,
+  CreateDraftResponse,
+  DocumentPayloadMap,
+  DocumentTypeCode
 } from './modules/documents/documents.types.js';
 
 // Documents module enums
 export {
   DocumentType,
   DocumentStatus,
-  OwnerType
+  OwnerType,
+  FacturaType
 } from './modules/documents/documents.enums.js';
 
+// Normalization helpers
+export {
+  normalizeDocumentStatus,
+  normalizeDocumentType,
+  normalizeDateFormat,
+  normalizeDocumentMetadata,
+  normalizePaginationMeta,
+  normalizeDocumentStatistics,
+  normalizeDocumentsList
+} from './utils/normalizer.js';
+
+// Decimal arithmetic
+export { Decimal } from './utils/decimal.js';
+export type { DecimalInput } from './utils/decimal.js';
+
 // Error classes
 export {
   DidoxError,
   DidoxValidationError,
+  DidoxBuilderValidationError,
   DidoxAuthError,
   DidoxApiError,
-  DidoxNetworkError
+  DidoxNotFoundError,
+  DidoxConflictError,
+  DidoxRateLimitError,
+  DidoxServerValidationError,
+  DidoxNetworkError,
+  DidoxPrivilegeError,
+  DidoxSignatureError,
+  DidoxWaitTimeoutError,
+  DidoxWebhookError
 } from './http/errors.js';
+export type { DidoxApiErrorOptions } from './http/errors.js';
 
 // Re-export for convenience
 export { AuthApi } from './modules/auth/auth.api.js';
+export { SessionManager } from './modules/auth/session.js';
 export { AccountApi } from './modules/account/account.api.js';
 export { ProfileApi } from './modules/profile/profile.api.js';
 export { ProductClassesApi } from './modules/profile/productClasses.api.js';
@@ -126,5 +203,87 @@ export { VatApi } from './modules/profile/vat.api.js';
 export { WarehousesApi } from './modules/profile/warehouses.api.js';
 export { UsersApi } from './modules/profile/users.api.js';
 export { UtilitiesApi } from './modules/utilities/utilities.api.js';
-export { DocumentsClient, builders, BaseDocumentBuilder } from './modules/documents/index.js';
-export type { DocumentBuilderFactory } from './modules/documents/index.js';
\ No newline at end of file
+export {
+  DocumentsClient,
+  builders,
+  BaseDocumentBuilder,
+  InvoiceBuilder,
+  ActBuilder,
+  TtnBuilder,
+  EmpowermentBuilder,
+  ArbitraryDocumentBuilder,
+  MultiPartyDocumentBuilder,
+  FoundersProtocolBuilder,
+  LetterNKBuilder,
+  ValidationCollector,
+  calculateTotals
+} from './modules/documents/index.js';
+export type {
+  DocumentBuilderFactory,
+  DocumentTotals,
+  InvoiceLineChange,
+  InvoiceLineDelta,
+  LineTotals,
+  PricedLine,
+  PricingOptions,
+  RoundingStrategy,
+  TtnTotals,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+  ValidationSeverity
+} from './modules/documents/index.js';
+
+// Document signing
+export { SoftwareSignatureProvider } from './signing/SoftwareSignatureProvider.js';
+export type {
+  SignatureProvider,
+  SignerCertificate,
+  SignOptions,
+  Timestamper,
+  SoftwareSignatureProviderOptions,
+  DocumentSigningConfig
+} from './signing/signature.types.js';
+
+// Webhooks
+export { DidoxWebhookReceiver, MemoryWebhookDedupeStore } from './webhooks/DidoxWebhookReceiver.js';
+export {
+  createWebhookParser,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_ID_HEADER
+} from './webhooks/parser.js';
+export type {
+  DidoxWebhookEventType,
+  DidoxWebhookEvent,
+  DidoxWebhookEventBase,
+  DidoxWebhookEventMap,
+  DidoxWebhookHandler,
+  DocumentReceivedEvent,
+  DocumentSignedEvent,
+  DocumentRejectedEvent,
+  DocumentCancelledEvent,
+  DocumentStatusChangedEvent,
+  WebhookDocument,
+  WebhookHeaders,
+  WebhookAuthOptions,
+  WebhookDedupeStore,
+  WebhookReceiverOptions,
+  WebhookHandleResult,
+  WebhookHttpResponse
+} from './webhooks/webhooks.types.js';
+
+// Document sync
+export { DocumentSync } from './sync/DocumentSync.js';
+export { MemoryCheckpointStore, FileCheckpointStore } from './sync/checkpoints.js';
+export type {
+  DocumentSyncOptions,
+  DocumentSyncRunOptions,
+  DocumentSyncReport,
+  DocumentSyncChange,
+  DocumentSyncHandler,
+  SyncCheckpoint,
+  SyncCheckpointStore,
+  OwnerSyncState,
+  SyncedDocumentState
+} from './sync/sync.types.js';
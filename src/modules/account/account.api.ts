@@ -16,7 +16,10 @@ import type {
  * Account API implementation
  */
 export class AccountApi {
-  constructor(private readonly httpClient: HttpClient) {}
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly timeout?: number
+  ) {}
 
   /**
    * Get current account profile
@@ -50,13 +53,17 @@ export class AccountApi {
     const endpoint = '/v1/account';
 
     try {
-      const response = await this.httpClient.get<AccountProfile>(endpoint);
+      const response = await this.httpClient.get<AccountProfile>(endpoint, {
+        operation: 'account.getProfile',
+        timeout: this.timeout
+      });
       return response.data;
     } catch (error) {
       if (error instanceof DidoxApiError && (error.statusCode === 401 || error.statusCode === 403)) {
         throw new DidoxAuthError(
           'Authentication failed: ' + error.message,
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
@@ -116,7 +123,8 @@ export class AccountApi {
     try {
       const response = await this.httpClient.post<UpdateProfileResponse>(
         endpoint,
-        body
+        body,
+        { operation: 'account.updateProfile', timeout: this.timeout }
       );
 
       return response.data;
@@ -124,7 +132,8 @@ export class AccountApi {
       if (error instanceof DidoxApiError && (error.statusCode === 401 || error.statusCode === 403)) {
         throw new DidoxAuthError(
           'Authentication failed: ' + error.message,
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
@@ -12,12 +12,17 @@ import type {
   CompanyLoginRequest,
   CompanyLoginResponse
 } from './auth.types.js';
+import type { SessionManager } from './session.js';
 
 /**
  * Authentication API implementation
  */
 export class AuthApi {
-  constructor(private readonly httpClient: HttpClient) {}
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly session?: SessionManager,
+    private readonly timeout?: number
+  ) {}
 
   /**
    * Login as a legal entity
@@ -69,18 +74,20 @@ export class AuthApi {
     try {
       const response = await this.httpClient.post<LegalEntityLoginResponse>(
         endpoint,
-        body
+        body,
+        { skipAuthRefresh: true, operation: 'auth.loginLegalEntity', timeout: this.timeout }
       );
 
       // Automatically set the access token for future requests
-      this.httpClient.setAccessToken(response.data.token);
+      this.storeToken(response.data.token);
 
       return response.data;
     } catch (error) {
       if (error instanceof DidoxApiError && error.statusCode === 422) {
         throw new DidoxAuthError(
           'Authentication failed: ' + error.message,
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
@@ -92,6 +99,8 @@ export class AuthApi {
    * 
    * Allows an individual user to access a company's context using their personal token.
    * The user must have permissions to access the specified company.
+   * The returned token replaces the token of this client for all modules; use
+   * `didox.forCompany(tin)` to work with several companies at the same time.
    * 
    * @param request - Company login request parameters
    * @returns Promise resolving to company login response with token and permissions
@@ -138,21 +147,33 @@ export class AuthApi {
       const response = await this.httpClient.post<CompanyLoginResponse>(
         endpoint,
         undefined, // No body for this request
-        { headers }
+        { headers, skipAuthRefresh: true, operation: 'auth.loginCompanyAsIndividual', timeout: this.timeout }
       );
 
       // Automatically set the access token for future requests
-      this.httpClient.setAccessToken(response.data.token);
+      this.storeToken(response.data.token);
 
       return response.data;
     } catch (error) {
       if (error instanceof DidoxApiError && error.statusCode === 422) {
         throw new DidoxAuthError(
           'Company login failed: ' + error.message,
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
     }
   }
+
+  /**
+   * Store a freshly issued token, recording its issue time in the session if present
+   */
+  private storeToken(token: string): void {
+    if (this.session) {
+      this.session.recordToken(token);
+    } else {
+      this.httpClient.setAccessToken(token);
+    }
+  }
 }
\ No newline at end of file
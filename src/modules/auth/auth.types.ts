@@ -109,4 +109,73 @@ export interface CompanyLoginResponse {
    * User permissions within this company
    */
   permissions: UserPermissions;
-}
\ No newline at end of file
+}
+
+/**
+ * Credentials provider callback
+ * Called whenever the session needs to (re-)authenticate
+ */
+export type CredentialsProvider = () => LegalEntityLoginRequest | Promise<LegalEntityLoginRequest>;
+
+/**
+ * Session configuration
+ */
+export interface SessionConfig {
+  /**
+   * Stored credentials used to re-login when the token expires
+   */
+  credentials?: LegalEntityLoginRequest;
+
+  /**
+   * Callback returning credentials on demand (takes precedence over `credentials`)
+   * Useful when secrets are kept in a vault and must not stay in memory
+   */
+  credentialsProvider?: CredentialsProvider;
+
+  /**
+   * Access token lifetime in milliseconds
+   * @default 21600000 (360 minutes)
+   */
+  tokenTtl?: number;
+
+  /**
+   * How long before expiry the token is proactively refreshed, in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  refreshMargin?: number;
+
+  /**
+   * Hook called after the session obtained a new token
+   */
+  onRefresh?: (state: SessionState) => void;
+}
+
+/**
+ * Current session state
+ */
+export interface SessionState {
+  /**
+   * Whether an access token is present
+   */
+  authenticated: boolean;
+
+  /**
+   * Time when the current token was issued
+   */
+  issuedAt: Date | undefined;
+
+  /**
+   * Time when the current token expires
+   */
+  expiresAt: Date | undefined;
+
+  /**
+   * Whether the current token has already expired
+   */
+  expired: boolean;
+
+  /**
+   * Whether the session is able to re-login on its own
+   */
+  canRefresh: boolean;
+}
@@ -0,0 +1,88 @@
+import { DidoxAuthError } from '../../http/errors.js';
+import { DidoxTestServer } from '../../testing/DidoxTestServer.js';
+import type { DidoxClient } from '../../client/DidoxClient.js';
+
+const COMPANY = '123456789';
+const LOGIN_PATH = `/v1/auth/${COMPANY}/password/ru`;
+
+describe('SessionManager', () => {
+  let server: DidoxTestServer;
+  let didox: DidoxClient;
+
+  const paths = () => server.requests.map(request => request.path);
+  const logins = () => paths().filter(path => path === LOGIN_PATH).length;
+
+  beforeEach(() => {
+    server = new DidoxTestServer();
+    server.seedCompany({ tin: COMPANY });
+    didox = server.createClient({
+      session: { credentials: { taxId: COMPANY, password: 'password123' } }
+    });
+  });
+
+  it('logs in before the first request', async () => {
+    await didox.profile.getProfile();
+
+    expect(paths()).toEqual([LOGIN_PATH, '/v1/profile']);
+    expect(didox.session.getState()).toMatchObject({ authenticated: true, canRefresh: true });
+  });
+
+  it('logs in again after a 401 and replays the request once', async () => {
+    await didox.profile.getProfile();
+    const tokenBefore = server.requests[1]!.headers['user-key'];
+    server.expireTokens();
+    server.requests.length = 0;
+
+    await expect(didox.profile.getProfile()).resolves.toMatchObject({ tin: COMPANY });
+
+    expect(paths()).toEqual(['/v1/profile', LOGIN_PATH, '/v1/profile']);
+    expect(server.requests[2]!.headers['user-key']).not.toBe(tokenBefore);
+  });
+
+  it('does not replay again when the new token is rejected as well', async () => {
+    await didox.profile.getProfile();
+    server.requests.length = 0;
+    server.injectFault({ path: '/v1/profile', status: 401, times: 2 });
+
+    await expect(didox.profile.getProfile()).rejects.toThrow(DidoxAuthError);
+
+    expect(paths()).toEqual(['/v1/profile', LOGIN_PATH, '/v1/profile']);
+  });
+
+  it('shares one login between concurrent first requests', async () => {
+    server.setLatency(5);
+
+    await Promise.all([
+      didox.profile.getProfile(),
+      didox.account.getProfile(),
+      didox.documents.list({ owner: 0, page: 1, limit: 10 })
+    ]);
+
+    expect(logins()).toBe(1);
+  });
+
+  it('shares one login between concurrent requests rejected with 401', async () => {
+    await didox.profile.getProfile();
+    server.expireTokens();
+    server.requests.length = 0;
+    server.setLatency(5);
+
+    await Promise.all([
+      didox.profile.getProfile(),
+      didox.account.getProfile(),
+      didox.profile.getProfile()
+    ]);
+
+    expect(logins()).toBe(1);
+    expect(paths().filter(path => path !== LOGIN_PATH)).toHaveLength(6);
+  });
+
+  it('does not retry a 401 without credentials', async () => {
+    const anonymous = server.createClient();
+    await anonymous.auth.loginLegalEntity({ taxId: COMPANY, password: 'password123' });
+    server.expireTokens();
+
+    await expect(anonymous.profile.getProfile()).rejects.toThrow(DidoxAuthError);
+    expect(logins()).toBe(1);
+  });
+});
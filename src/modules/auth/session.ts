@@ -0,0 +1,185 @@
+import type { HttpClient, AuthHandler } from '../../http/httpClient.js';
+import { DidoxAuthError } from '../../http/errors.js';
+import type { SessionState } from './auth.types.js';
+
+/**
+ * Default access token lifetime (360 minutes)
+ */
+export const DEFAULT_TOKEN_TTL = 360 * 60 * 1000;
+
+/**
+ * Default proactive refresh margin (5 minutes)
+ */
+export const DEFAULT_REFRESH_MARGIN = 5 * 60 * 1000;
+
+/**
+ * Session manager options
+ */
+export interface SessionManagerOptions {
+  /**
+   * Access token lifetime in milliseconds
+   */
+  tokenTtl?: number;
+
+  /**
+   * How long before expiry the token is proactively refreshed, in milliseconds
+   */
+  refreshMargin?: number;
+
+  /**
+   * Performs a fresh login and resolves to the new access token
+   * Without it the session only tracks expiry and cannot refresh
+   */
+  authenticate?: () => Promise<string>;
+
+  /**
+   * Hook called after the session obtained a new token
+   */
+  onRefresh?: (state: SessionState) => void;
+}
+
+/**
+ * Session manager
+ *
+ * Tracks when the access token was issued, refreshes it shortly before it expires
+ * and re-authenticates once when a request is rejected with 401.
+ * Concurrent refreshes are collapsed into a single login request.
+ *
+ * @example
+ * ```typescript
+ * const didox = new DidoxClient({
+ *   partnerToken: 'your-partner-token',
+ *   environment: 'production',
+ *   session: {
+ *     credentials: { taxId: '123456789', password: 'yourPassword' }
+ *   }
+ * });
+ *
+ * // No explicit login needed: the first request authenticates
+ * const profile = await didox.profile.getProfile();
+ *
+ * console.log('Token expires at:', didox.session.getState().expiresAt);
+ * ```
+ */
+export class SessionManager implements AuthHandler {
+  private readonly tokenTtl: number;
+  private readonly refreshMargin: number;
+  private issuedAt: Date | undefined;
+  private refreshing: Promise<void> | undefined;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly options: SessionManagerOptions = {}
+  ) {
+    this.tokenTtl = options.tokenTtl ?? DEFAULT_TOKEN_TTL;
+    this.refreshMargin = options.refreshMargin ?? DEFAULT_REFRESH_MARGIN;
+  }
+
+  /**
+   * Record a newly issued access token
+   *
+   * @param token - Access token
+   * @param issuedAt - Time when the token was issued
+   */
+  public recordToken(token: string, issuedAt: Date = new Date()): void {
+    this.httpClient.setAccessToken(token);
+    this.issuedAt = issuedAt;
+  }
+
+  /**
+   * Forget the current access token
+   */
+  public clear(): void {
+    this.httpClient.clearAccessToken();
+    this.issuedAt = undefined;
+  }
+
+  /**
+   * Get current session state
+   */
+  public getState(): SessionState {
+    const authenticated = this.httpClient.getAccessToken() !== undefined;
+    const expiresAt = authenticated && this.issuedAt
+      ? new Date(this.issuedAt.getTime() + this.tokenTtl)
+      : undefined;
+
+    return {
+      authenticated,
+      issuedAt: authenticated ? this.issuedAt : undefined,
+      expiresAt,
+      expired: expiresAt !== undefined && expiresAt.getTime() <= Date.now(),
+      canRefresh: this.options.authenticate !== undefined
+    };
+  }
+
+  /**
+   * Force a fresh login
+   *
+   * Concurrent calls share the same login request.
+   *
+   * @throws {DidoxAuthError} When the session has no way to re-authenticate or login fails
+   */
+  public refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Refresh the token when it is missing or about to expire
+   * Called by HttpClient before every request
+   */
+  public async beforeRequest(): Promise<void> {
+    if (this.refreshing) {
+      await this.refreshing;
+      return;
+    }
+
+    if (!this.options.authenticate) {
+      return;
+    }
+
+    const state = this.getState();
+    const expiring = state.expiresAt !== undefined &&
+      state.expiresAt.getTime() - this.refreshMargin <= Date.now();
+
+    if (!state.authenticated || expiring) {
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Re-authenticate after a 401 response
+   * Called by HttpClient; the failed request is replayed when this resolves to true
+   */
+  public async handleUnauthorized(failedToken: string | undefined): Promise<boolean> {
+    if (!this.options.authenticate) {
+      return false;
+    }
+
+    // Another request already refreshed the token in the meantime
+    const currentToken = this.httpClient.getAccessToken();
+    if (currentToken !== undefined && currentToken !== failedToken) {
+      return true;
+    }
+
+    await this.refresh();
+    return true;
+  }
+
+  /**
+   * Perform the login and record the new token
+   */
+  private async performRefresh(): Promise<void> {
+    if (!this.options.authenticate) {
+      throw new DidoxAuthError('Session cannot refresh: no credentials configured');
+    }
+
+    const token = await this.options.authenticate();
+    this.recordToken(token);
+    this.options.onRefresh?.(this.getState());
+  }
+}
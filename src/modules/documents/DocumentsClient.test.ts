@@ -0,0 +1,171 @@
+import { DidoxApiError, DidoxWaitTimeoutError } from '../../http/errors.js';
+import { DidoxTestServer } from '../../testing/DidoxTestServer.js';
+import type { DidoxClient } from '../../client/DidoxClient.js';
+import { DocumentStatus, OwnerType } from './documents.enums.js';
+
+const COMPANY = '123456789';
+const PARTNER = '987654321';
+
+describe('DocumentsClient', () => {
+  let server: DidoxTestServer;
+  let didox: DidoxClient;
+
+  const seedIncoming = (createdAt: Date, status = DocumentStatus.SENT) => server.seedDocument({
+    doctype: '002',
+    ownerTin: PARTNER,
+    partnerTin: COMPANY,
+    status,
+    createdAt
+  });
+
+  beforeEach(async () => {
+    server = new DidoxTestServer();
+    server.seedCompany({ tin: COMPANY }).seedCompany({ tin: PARTNER });
+    didox = server.createClient();
+    await didox.auth.loginLegalEntity({ taxId: COMPANY, password: 'password123' });
+    server.requests.length = 0;
+  });
+
+  describe('iterate', () => {
+    it('reads every page until the last one', async () => {
+      const seeded = [1, 2, 3, 4, 5].map(minutes => seedIncoming(new Date(Date.now() - minutes * 60_000)));
+
+      const ids: string[] = [];
+      for await (const document of didox.documents.iterate({ owner: OwnerType.INCOMING, limit: 2 })) {
+        ids.push(document.id);
+      }
+
+      expect(ids).toEqual(seeded.map(document => document.id));
+      expect(server.requests.map(request => request.query.page)).toEqual(['1', '2', '3']);
+    });
+
+    it('skips a document pushed to the next page by a new arrival', async () => {
+      const [newest, middle, oldest] = [1, 2, 3].map(minutes => seedIncoming(new Date(Date.now() - minutes * 60_000)));
+
+      const ids: string[] = [];
+      for await (const document of didox.documents.iterate({ owner: OwnerType.INCOMING, limit: 2 })) {
+        if (ids.length === 0) {
+          // Page 1 is already read; page 2 now starts with `middle` again
+          seedIncoming(new Date());
+        }
+        ids.push(document.id);
+      }
+
+      expect(ids).toEqual([newest!.id, middle!.id, oldest!.id]);
+    });
+
+    it('stops after maxItems without reading further pages', async () => {
+      [1, 2, 3, 4].forEach(minutes => seedIncoming(new Date(Date.now() - minutes * 60_000)));
+
+      const documents = await didox.documents.listAll({ owner: OwnerType.INCOMING, limit: 2 }, { maxItems: 2 });
+
+      expect(documents).toHaveLength(2);
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+
+  describe('waitForStatus', () => {
+    const polls = (id: string) => server.requests.filter(request => request.path === `/v1/documents/${id}`).length;
+
+    it('resolves once the document reaches a target status', async () => {
+      const { id } = seedIncoming(new Date());
+      setTimeout(() => server.setDocumentStatus(id, DocumentStatus.SIGNED), 30);
+
+      const document = await didox.documents.waitForStatus(id, [DocumentStatus.SIGNED, DocumentStatus.REJECTED], { interval: 10 });
+
+      expect(document.document).toMatchObject({ doc_status: DocumentStatus.SIGNED });
+      expect(polls(id)).toBeGreaterThan(1);
+    });
+
+    it('times out with the last observed status', async () => {
+      const { id } = seedIncoming(new Date());
+
+      const error = await didox.documents.waitForStatus(id, DocumentStatus.SIGNED, { timeout: 50, interval: 10 })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(DidoxWaitTimeoutError);
+      expect(error).toMatchObject({
+        documentId: id,
+        lastStatus: DocumentStatus.SENT,
+        targetStatuses: [DocumentStatus.SIGNED],
+        pending: { [id]: DocumentStatus.SENT }
+      });
+    });
+
+    it('reports completed documents when a batch wait times out', async () => {
+      const signed = seedIncoming(new Date(), DocumentStatus.SIGNED);
+      const sent = seedIncoming(new Date());
+
+      const error = await didox.documents.waitForStatuses([signed.id, sent.id], DocumentStatus.SIGNED, { timeout: 30, interval: 10 })
+        .catch((caught: unknown) => caught) as DidoxWaitTimeoutError;
+
+      expect(error.pending).toEqual({ [sent.id]: DocumentStatus.SENT });
+      expect(Object.keys(error.completed)).toEqual([signed.id]);
+      // Completed documents are not polled again
+      expect(polls(signed.id)).toBe(1);
+    });
+
+    it('stops polling when aborted', async () => {
+      const { id } = seedIncoming(new Date());
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error('shutdown')), 25);
+
+      await expect(
+        didox.documents.waitForStatus(id, DocumentStatus.SIGNED, { interval: 10, signal: controller.signal })
+      ).rejects.toThrow('shutdown');
+
+      const count = polls(id);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      expect(polls(id)).toBe(count);
+    });
+  });
+
+  describe('createDrafts', () => {
+    const invoice = (number: string) => ({ docType: '002', payload: { FacturaDoc: { FacturaNo: number }, BuyerTin: PARTNER }, externalRef: number });
+    // Only the `005` create endpoint fails, so the failing item is known regardless of timing
+    const failing = { docType: '005', payload: { ActDoc: { ActNo: 'ACT-1' } }, externalRef: 'ACT-1' };
+    const creates = () => server.requests.filter(request => request.path.endsWith('/create')).length;
+
+    beforeEach(() => {
+      server.injectFault({ path: '/v1/documents/005/create', status: 400, body: { message: 'Bad act' } });
+    });
+
+    it('reports every item when failures do not stop the batch', async () => {
+      const report = await didox.documents.createDrafts([invoice('INV-1'), failing, invoice('INV-2')]);
+
+      expect(report).toMatchObject({ created: 2, failed: 1, skipped: 0 });
+      expect(report.items.map(item => [item.externalRef, item.status])).toEqual([
+        ['INV-1', 'created'],
+        ['ACT-1', 'failed'],
+        ['INV-2', 'created']
+      ]);
+
+      expect(report.items[1]).toMatchObject({ error: expect.any(DidoxApiError), fieldErrors: {} });
+      expect(server.getDocument((report.items[0] as { documentId: string }).documentId)?.number).toBe('INV-1');
+    });
+
+    it('skips the remaining items after a failure with stopOnError', async () => {
+      const report = await didox.documents.createDrafts(
+        [invoice('INV-1'), failing, invoice('INV-2'), invoice('INV-3')],
+        { stopOnError: true, concurrency: 1 }
+      );
+
+      expect(report).toMatchObject({ created: 1, failed: 1, skipped: 2 });
+      expect(report.items.map(item => item.status)).toEqual(['created', 'failed', 'skipped', 'skipped']);
+      expect(report.items[3]).toEqual({ status: 'skipped', index: 3, docType: '002', externalRef: 'INV-3' });
+      expect(creates()).toBe(2);
+    });
+
+    it('lets requests already in flight finish with stopOnError', async () => {
+      server.setLatency(5);
+
+      const report = await didox.documents.createDrafts(
+        [failing, invoice('INV-1'), invoice('INV-2'), invoice('INV-3')],
+        { stopOnError: true, concurrency: 2 }
+      );
+
+      expect(report.items.map(item => item.status)).toEqual(['failed', 'created', 'skipped', 'skipped']);
+      expect(creates()).toBe(2);
+    });
+  });
+});
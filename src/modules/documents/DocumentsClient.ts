@@ -1,4 +1,17 @@
-import type { HttpClient } from '../../http/httpClient.js';
+import type { Readable } from 'node:stream';
+import type { HttpClient, HttpResponse } from '../../http/httpClient.js';
+import {
+  DidoxApiError,
+  DidoxAuthError,
+  DidoxBuilderValidationError,
+  DidoxConflictError,
+  DidoxPrivilegeError,
+  DidoxServerValidationError,
+  DidoxValidationError,
+  DidoxWaitTimeoutError
+} from '../../http/errors.js';
+import { sleep } from '../../http/retry.js';
+import { runConcurrently } from '../../utils/concurrency.js';
 import type {
   ListDocumentsParams,
   DocumentMetadata,
@@ -10,16 +23,48 @@ import type {
   NormalizedDocumentsListResponse,
   DocumentsStatisticsResponse,
   RawDocumentResponse,
-  RawDocumentPrivilegesResponse
+  RawDocumentPrivilegesResponse,
+  RawDocumentActionResponse,
+  DocumentActionOptions,
+  DocumentPrivilege,
+  DocumentDownload,
+  DocumentDownloadFormat,
+  DownloadDocumentOptions,
+  IterateDocumentsParams,
+  DocumentIterationOptions,
+  WaitForStatusOptions,
+  WaitForStatusesOptions,
+  CreateDraftItem,
+  CreateDraftItemResult,
+  CreateDraftsOptions,
+  CreateDraftsReport,
+  CreateDraftResponse,
+  DocumentPayloadMap,
+  DocumentTypeCode
 } from './documents.types.js';
+import { DocumentStatus } from './documents.enums.js';
 import type { DocumentType } from './documents.enums.js';
 import {
   validateListDocumentsParams,
   validateDocumentId,
-  validateCreateDraftParams
+  validateCreateDraftParams,
+  validateRejectReason,
+  validateDownloadFormat,
+  validateMaxItems,
+  validateWaitParams,
+  validateCreateDraftsParams
 } from './documents.validators.js';
-import { normalizeDocumentsList } from '../../utils/normalizer.js';
+import {
+  normalizeDocumentsList,
+  normalizeDocumentMetadata,
+  normalizeDocumentStatistics,
+  extractDocumentStatus,
+  normalizeDocumentPrivileges
+} from '../../utils/normalizer.js';
 import { builders } from './builders/index.js';
+import type { BaseDocumentBuilder } from './builders/base/BaseDocumentBuilder.js';
+import { DidoxSignatureError } from '../../http/errors.js';
+import type { SignatureProvider, DocumentSigningConfig } from '../../signing/signature.types.js';
 
 /**
  * Documents API client for Didox platform
@@ -53,7 +98,17 @@ export class DocumentsClient {
    */
   public readonly builders = builders;
 
-  constructor(private readonly httpClient: HttpClient) {}
+  /**
+   * @param httpClient - HTTP client
+   * @param signer - Signature provider used when an action is called without a signature
+   * @param signing - Certificate and timestamp settings for document signatures
+   */
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly signer?: SignatureProvider,
+    private readonly signing: DocumentSigningConfig = {},
+    private readonly timeout?: number
+  ) {}
 
   /**
    * Get paginated list of documents
@@ -94,25 +149,122 @@ export class DocumentsClient {
     // Validate parameters
     validateListDocumentsParams(params);
     
-    // Build URL with query parameters
-    const url = this.buildUrlWithParams('/v2/documents', params);
-    
-    // Make HTTP request
-    const response = await this.httpClient.get<DocumentsListResponse>(url);
+    const data = await this.fetchPage(params);
     
     // Handle output format
     if (params.output === 'normalized') {
-      return normalizeDocumentsList(response.data);
+      return normalizeDocumentsList(data);
     }
     
-    return response.data;
+    return data;
+  }
+
+  /**
+   * Iterate over all documents matching the filters
+   *
+   * Requests pages of up to 100 documents (`limit`) one after another and yields
+   * normalized documents in API order. A document already yielded is skipped when it
+   * moves to the next page because new documents arrived during the iteration.
+   *
+   * @param params - Filtering parameters; `page` and `limit` are optional
+   * @param options - Item cap and abort signal
+   * @returns Async iterable of documents
+   *
+   * @throws {DidoxValidationError} When parameters are invalid (e.g. `limit` above 100)
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * for await (const document of client.documents.iterate({ owner: 0, status: 1 })) {
+   *   await inbox.push(document);
+   * }
+   * ```
+   */
+  async *iterate(
+    params: IterateDocumentsParams,
+    options: DocumentIterationOptions = {}
+  ): AsyncGenerator<DocumentMetadata, void, undefined> {
+    const { maxItems, signal } = options;
+    if (maxItems !== undefined) {
+      validateMaxItems(maxItems);
+    }
+
+    const limit = params.limit ?? MAX_PAGE_SIZE;
+    const seen = new Set<string>();
+    let page = params.page ?? 1;
+    let yielded = 0;
+
+    while (true) {
+      signal?.throwIfAborted();
+
+      const pageParams: ListDocumentsParams = { ...params, page, limit };
+      validateListDocumentsParams(pageParams);
+
+      const { data = [], meta } = await this.fetchPage(pageParams, signal);
+
+      for (const item of data) {
+        const document = normalizeDocumentMetadata(item);
+        if (document.id) {
+          if (seen.has(document.id)) {
+            continue;
+          }
+          seen.add(document.id);
+        }
+
+        yield document;
+
+        if (maxItems !== undefined && ++yielded >= maxItems) {
+          return;
+        }
+      }
+
+      const lastPage = meta?.totalPages !== undefined && page >= meta.totalPages;
+      if (data.length < limit || lastPage) {
+        return;
+      }
+      page++;
+    }
+  }
+
+  /**
+   * Read all documents matching the filters into an array
+   *
+   * @param params - Filtering parameters; `page` and `limit` are optional
+   * @param options - Item cap and abort signal
+   * @returns Promise resolving to the documents in API order
+   *
+   * @throws {DidoxValidationError} When parameters are invalid
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const drafts = await client.documents.listAll(
+   *   { owner: 1, status: 0, dateFromCreated: '2024-01-01' },
+   *   { maxItems: 1000, signal: AbortSignal.timeout(60_000) }
+   * );
+   * ```
+   */
+  async listAll(
+    params: IterateDocumentsParams,
+    options: DocumentIterationOptions = {}
+  ): Promise<DocumentMetadata[]> {
+    const documents: DocumentMetadata[] = [];
+    for await (const document of this.iterate(params, options)) {
+      documents.push(document);
+    }
+    return documents;
   }
 
   /**
    * Get document statistics
    * 
    * Retrieves statistical information about documents matching the specified criteria.
-   * Returns counts by status, type, and other aggregations.
+   * Returns counts by status, type, and other aggregations. With `output: 'normalized'`
+   * the counts come with decoded status/type names and incoming/outgoing totals.
    * 
    * @param params - Filtering parameters (same as list method)
    * @returns Promise resolving to document statistics
@@ -140,7 +292,7 @@ export class DocumentsClient {
    * }
    * ```
    */
-  async statistics(params: ListDocumentsParams): Promise<DocumentsStatisticsResponse> {
+  async statistics(params: ListDocumentsParams): Promise<DocumentsStatisticsResponse | DocumentStatistics> {
     // Validate parameters
     validateListDocumentsParams(params);
     
@@ -149,7 +301,16 @@ export class DocumentsClient {
     const url = this.buildUrlWithParams('/v2/documents/statistics/all', filteredParams);
     
     // Make HTTP request
-    const response = await this.httpClient.get<DocumentsStatisticsResponse>(url);
+    const response = await this.httpClient.get<DocumentsStatisticsResponse>(url, {
+      operation: 'documents.statistics',
+      timeout: this.timeout
+    })
+      .catch(error => this.handleError(error));
+    
+    // Handle output format
+    if (output === 'normalized') {
+      return normalizeDocumentStatistics(response.data);
+    }
     
     return response.data;
   }
@@ -165,7 +326,8 @@ export class DocumentsClient {
    * 
    * @throws {DidoxValidationError} When document ID is invalid
    * @throws {DidoxAuthError} When authentication fails (401 status)
-   * @throws {DidoxApiError} When API returns other error responses (e.g., 404 if document not found)
+   * @throws {DidoxNotFoundError} When the document does not exist (404 status)
+   * @throws {DidoxApiError} When API returns other error responses
    * @throws {DidoxNetworkError} When network request fails
    * 
    * @example
@@ -177,7 +339,7 @@ export class DocumentsClient {
    *   console.log('Document data:', document);
    *   // Note: Structure depends on document type and Didox API version
    * } catch (error) {
-   *   if (error instanceof DidoxApiError && error.statusCode === 404) {
+   *   if (error instanceof DidoxNotFoundError) {
    *     console.error('Document not found');
    *   }
    * }
@@ -187,11 +349,8 @@ export class DocumentsClient {
     // Validate document ID
     validateDocumentId(id);
     
-    // Make HTTP request to get document by ID
-    const response = await this.httpClient.get<RawDocumentResponse>(`/v1/documents/${id}`);
-    
     // Return raw response data without any transformation
-    return response.data;
+    return this.fetchDocument(id);
   }
 
   /**
@@ -235,38 +394,100 @@ export class DocumentsClient {
     validateDocumentId(id);
     
     // Make HTTP request to get document privileges
-    const response = await this.httpClient.get<RawDocumentPrivilegesResponse>(`/v1/documents/${id}/privileges`);
+    const response = await this.httpClient.get<RawDocumentPrivilegesResponse>(`/v1/documents/${id}/privileges`, {
+      operation: 'documents.getPrivileges',
+      timeout: this.timeout
+    })
+      .catch(error => this.handleError(error));
     
     // Return raw response data without any transformation
     return response.data;
   }
 
+  /**
+   * Download a document rendition
+   *
+   * Fetches the printable PDF, the stored JSON, the signed CMS container (`p7s`) or a
+   * ZIP archive. By default the body is returned as a readable stream so large files
+   * are not held in memory; pass `as: 'buffer'` to read the whole file. With a
+   * `maxConcurrent` rate limit, a stream occupies its slot until it is read to the
+   * end or destroyed.
+   *
+   * @param id - Document unique identifier
+   * @param options - Format and result type
+   * @returns Promise resolving to file contents with content type and filename
+   *
+   * @throws {DidoxValidationError} When document ID or format is invalid
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxNotFoundError} When the document does not exist (404 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * import { createWriteStream } from 'node:fs';
+   * import { pipeline } from 'node:stream/promises';
+   *
+   * const pdf = await client.documents.download(id, { format: 'pdf' });
+   * await pipeline(pdf.data, createWriteStream(`archive/${pdf.filename}`));
+   *
+   * const signed = await client.documents.download(id, { format: 'p7s', as: 'buffer' });
+   * await storage.put(signed.filename, signed.data, signed.contentType);
+   * ```
+   */
+  async download(id: string, options: DownloadDocumentOptions & { as: 'buffer' }): Promise<DocumentDownload<Buffer>>;
+  async download(id: string, options: DownloadDocumentOptions & { as?: 'stream' }): Promise<DocumentDownload<Readable>>;
+  async download(id: string, options: DownloadDocumentOptions): Promise<DocumentDownload>;
+  async download(id: string, options: DownloadDocumentOptions): Promise<DocumentDownload> {
+    validateDocumentId(id);
+    validateDownloadFormat(options.format);
+
+    const response = await this.httpClient.get<Readable | Buffer>(`/v1/documents/${id}/download/${options.format}`, {
+      operation: 'documents.download',
+      timeout: options.timeout ?? this.timeout,
+      attributes: { 'didox.format': options.format },
+      responseType: options.as === 'buffer' ? 'buffer' : 'stream'
+    })
+      .catch(error => this.handleError(error));
+
+    const { headers } = response;
+    const size = Number(headers['content-length']);
+
+    return {
+      data: response.data,
+      contentType: headers['content-type']?.split(';')[0]?.trim() || DOWNLOAD_CONTENT_TYPES[options.format],
+      filename: parseFilename(headers['content-disposition']) ?? `${id}.${options.format}`,
+      ...(headers['content-length'] !== undefined && Number.isFinite(size) && { size })
+    };
+  }
+
   /**
    * Create document draft
    * 
    * Creates a draft document in Didox system using the specified document type and payload.
-   * This is a universal method that accepts any document structure without validation.
+   * For known document types the payload is type-checked against `DocumentPayloadMap`, so
+   * posting e.g. an act payload as an invoice is a compile error. Other type codes accept
+   * any JSON object.
    * 
-   * @param docType - Didox document type code (e.g. '002', '041', '075')
-   * @param payload - Raw document JSON body according to Didox API specification
+   * @param docType - Didox document type code (e.g. '002', '041', '005')
+   * @param payload - Document JSON body according to Didox API specification
    * @param options - Additional options for request handling
    * @param options.output - Response mode: 'wrapped' (default) handles errors, 'raw' returns as-is
-   * @returns Promise resolving to raw Didox API response
+   * @returns Promise resolving to the created document
    * 
    * @throws {DidoxValidationError} When docType or payload is invalid
+   * @throws {DidoxServerValidationError} When Didox rejects the payload, with per-field `fieldErrors`
    * @throws {DidoxApiError} When API returns error responses (unless output = 'raw')
    * @throws {DidoxAuthError} When authentication fails (unless output = 'raw')
    * @throws {DidoxNetworkError} When network request fails (unless output = 'raw')
    * 
    * @example
    * ```typescript
-   * // Create invoice draft
-   * const invoice = await client.documents.createDraft('002', {
-   *   // Invoice payload structure according to Didox API
-   *   sellerInfo: { tin: '123456789', name: 'Company LLC' },
-   *   buyerInfo: { tin: '987654321', name: 'Client Corp' },
-   *   items: [{ name: 'Product', price: 1000, quantity: 1 }]
-   * });
+   * // Create invoice draft from builder output
+   * const invoice = await client.documents.createDraft(DocumentType.FACTURA, builders.invoice()
+   *   .factura('INV-001', '2025-02-07')
+   *   // ...
+   *   .build());
    * 
    * // Create transport waybill with raw output
    * const ttn = await client.documents.createDraft('041', ttnPayload, {
@@ -274,36 +495,662 @@ export class DocumentsClient {
    * });
    * 
    * // Create act of work completed
-   * const act = await client.documents.createDraft('075', actPayload);
+   * const act = await client.documents.createDraft('005', actPayload);
    * ```
    */
+  createDraft<T extends DocumentTypeCode>(
+    docType: T,
+    payload: DocumentPayloadMap[T],
+    options?: { output?: 'wrapped' | 'raw' }
+  ): Promise<CreateDraftResponse<T>>;
+  createDraft<T extends string>(
+    docType: T extends DocumentTypeCode ? never : T,
+    payload: object,
+    options?: { output?: 'wrapped' | 'raw' }
+  ): Promise<CreateDraftResponse>;
   async createDraft(
     docType: string,
     payload: unknown,
     options?: { output?: 'wrapped' | 'raw' }
-  ): Promise<any> {
+  ): Promise<CreateDraftResponse> {
+    return this.postDraft(docType, payload, options);
+  }
+
+  /**
+   * Create a document draft from a builder
+   *
+   * The document type comes from the builder, so the payload always matches it.
+   *
+   * @param builder - Configured document builder
+   * @param options - Additional options for request handling (see `createDraft`)
+   * @returns Promise resolving to the created document, typed for the builder's document type
+   *
+   * @throws {DidoxValidationError} When the builder is incomplete or invalid
+   * @throws {DidoxServerValidationError} When Didox rejects the payload, with per-field `fieldErrors`
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const draft = await client.documents.create(
+   *   builders.act()
+   *     .act('ACT-001', '2025-02-07', 'Акт выполненных работ')
+   *     .seller({ tin: '123456789', name: 'ООО Исполнитель' })
+   *     .buyer({ tin: '987654321', name: 'ООО Заказчик' })
+   *     .addProduct({ name: 'Услуга', count: 1, price: 100000 })
+   * );
+   *
+   * console.log(draft.document.doc_id, draft.json.ActDoc);
+   * ```
+   */
+  async create<D extends DocumentType>(
+    builder: BaseDocumentBuilder<unknown, D, DocumentPayloadMap[`${D}`]>,
+    options?: { output?: 'wrapped' | 'raw' }
+  ): Promise<CreateDraftResponse<`${D}`>> {
+    if (!builder || typeof builder.build !== 'function' || !builder.docType) {
+      throw new DidoxValidationError('A document builder is required', 'builder');
+    }
+
+    const response = await this.postDraft(builder.docType, builder.build(), options);
+    return response as CreateDraftResponse<`${D}`>;
+  }
+
+  /**
+   * Create many document drafts
+   *
+   * Calls `createDraft` for every item with at most `concurrency` requests in flight.
+   * A failing item does not abort the batch: its error is recorded in the report
+   * and the remaining items are still created, unless `stopOnError` is set.
+   *
+   * @param items - Drafts to create, each with a `payload` or a `builder`
+   * @param options - Concurrency and failure handling
+   * @returns Promise resolving to a report with one result per item, in input order
+   *
+   * @throws {DidoxValidationError} When `items` is not an array or `concurrency` is invalid
+   *
+   * @example
+   * ```typescript
+   * const report = await client.documents.createDrafts(
+   *   rows.map(row => ({ docType: '002', builder: toInvoice(row), externalRef: row.id })),
+   *   { concurrency: 4 }
+   * );
+   *
+   * for (const item of report.items) {
+   *   if (item.status === 'created') {
+   *     await billing.link(item.externalRef, item.documentId);
+   *   } else if (item.status === 'failed') {
+   *     console.error(item.externalRef, item.error.message, item.fieldErrors);
+   *   }
+   * }
+   * ```
+   */
+  async createDrafts<R = string>(
+    items: CreateDraftItem<R>[],
+    options: CreateDraftsOptions = {}
+  ): Promise<CreateDraftsReport<R>> {
+    validateCreateDraftsParams(items, options);
+
+    const results: CreateDraftItemResult<R>[] = items.map((item, index) => ({
+      status: 'skipped',
+      index,
+      docType: item?.docType ?? item?.builder?.docType ?? '',
+      ...(item?.externalRef !== undefined && { externalRef: item.externalRef })
+    }));
+    let stopped = false;
+
+    await runConcurrently(items, options.concurrency ?? 5, async (item, index) => {
+      if (stopped) {
+        return;
+      }
+
+      const base = results[index]!;
+      try {
+        const response = await this.postDraft(base.docType, draftPayload(item));
+        const documentId = extractDocumentId(response);
+        if (!documentId) {
+          throw new DidoxApiError('Draft was created but the response has no document ID', 200, response);
+        }
+        results[index] = { ...base, status: 'created', documentId, response };
+      } catch (error) {
+        results[index] = { ...base, status: 'failed', error: error as Error, fieldErrors: fieldErrorsOf(error) };
+        if (options.stopOnError) {
+          stopped = true;
+        }
+      }
+    });
+
+    return {
+      items: results,
+      created: results.filter(result => result.status === 'created').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      skipped: results.filter(result => result.status === 'skipped').length
+    };
+  }
+
+  /**
+   * Update a document draft
+   *
+   * Replaces the content of an outgoing draft, keeping its document ID. The current
+   * document is read first: only drafts (`DocumentStatus.DRAFT`) of the same type
+   * can be updated.
+   *
+   * @param id - Document unique identifier
+   * @param docType - Didox document type code; must match the draft's type
+   * @param payload - New document JSON body, e.g. builder output
+   * @returns Promise resolving to the updated raw document (same shape as `getById`)
+   *
+   * @throws {DidoxValidationError} When parameters are invalid or the type differs from the draft's
+   * @throws {DidoxConflictError} When the document is no longer a draft
+   * @throws {DidoxNotFoundError} When the document does not exist (404 status)
+   * @throws {DidoxServerValidationError} When Didox rejects the payload, with per-field `fieldErrors`
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const payload = builders.invoice()
+   *   .factura('INV-001', '2024-01-15')
+   *   // ...
+   *   .build();
+   *
+   * const updated = await client.documents.updateDraft(draftId, '002', payload);
+   * ```
+   */
+  async updateDraft(id: string, docType: string, payload: unknown): Promise<RawDocumentResponse> {
+    validateDocumentId(id);
+    validateCreateDraftParams(docType, payload);
+
+    const current = await this.fetchDocument(id);
+
+    const status = extractDocumentStatus(current);
+    if (status !== DocumentStatus.DRAFT) {
+      throw new DidoxConflictError(
+        `Document ${id} is not a draft (status ${status ?? 'unknown'}) and cannot be updated`,
+        409,
+        current
+      );
+    }
+
+    const currentType = current?.document?.doctype ?? current?.doctype;
+    if (currentType !== undefined && String(currentType).padStart(3, '0') !== docType.padStart(3, '0')) {
+      throw new DidoxValidationError(
+        `Document ${id} has type ${currentType}, cannot update it as ${docType}`,
+        'docType'
+      );
+    }
+
+    await this.httpClient.post<RawDocumentResponse>(`/v1/documents/${docType}/update/${id}`, payload, {
+      operation: 'documents.updateDraft',
+      timeout: this.timeout,
+      attributes: { 'didox.doctype': docType }
+    })
+      .catch(error => this.handleError(error));
+
+    return this.fetchDocument(id);
+  }
+
+  /**
+   * Sign a document with the configured signature provider
+   *
+   * Signs the document JSON returned by `getById` (the `toSign` string when the API
+   * provides one) and attaches a timestamp when `signing.timestamp` is enabled.
+   * Lifecycle actions call this automatically when no `signature` is passed.
+   *
+   * @param id - Document unique identifier
+   * @param options - Certificate to sign with
+   * @returns Promise resolving to a base64-encoded PKCS#7/CMS signature
+   *
+   * @throws {DidoxValidationError} When document ID is invalid
+   * @throws {DidoxSignatureError} When no signature provider is configured or signing fails
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxNotFoundError} When the document does not exist (404 status)
+   *
+   * @example
+   * ```typescript
+   * const signature = await client.documents.sign(draftId);
+   * await client.documents.send(draftId, { signature });
+   * ```
+   */
+  async sign(id: string, options: Pick<DocumentActionOptions, 'certificateId'> = {}): Promise<string> {
+    validateDocumentId(id);
+
+    if (!this.signer) {
+      throw new DidoxSignatureError('No signature provider configured (set `signer` in DidoxConfig)');
+    }
+
+    const document = await this.getById(id);
+    const certificateId = options.certificateId ?? this.signing.certificateId;
+
+    const signature = await this.signer.sign(signingContent(document), {
+      ...(certificateId !== undefined && { certificateId })
+    });
+
+    return this.signing.timestamp ? this.signer.attachTimestamp(signature) : signature;
+  }
+
+  /**
+   * Send a draft to the counterparty
+   *
+   * Signs the outgoing draft and sends it. Requires the `canSign` privilege.
+   * Without `options.signature`, the document is signed by the configured `signer`.
+   *
+   * @param id - Document unique identifier
+   * @param options - Signature and privilege check options
+   * @returns Promise resolving to the updated document status
+   *
+   * @throws {DidoxValidationError} When document ID is invalid
+   * @throws {DidoxPrivilegeError} When the document cannot be signed by the current user
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const status = await client.documents.send(draftId, { signature });
+   * // status === DocumentStatus.SENT
+   * ```
+   */
+  async send(id: string, options: DocumentActionOptions = {}): Promise<DocumentStatus> {
+    return this.performAction(id, 'send', 'canSign', options, { signature: options.signature });
+  }
+
+  /**
+   * Accept (sign) an incoming document
+   *
+   * Requires the `canSign` privilege.
+   *
+   * @param id - Document unique identifier
+   * @param options - Signature and privilege check options
+   * @returns Promise resolving to the updated document status
+   *
+   * @throws {DidoxValidationError} When document ID is invalid
+   * @throws {DidoxPrivilegeError} When the document cannot be signed by the current user
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const status = await client.documents.accept(incomingId, { signature });
+   * // status === DocumentStatus.SIGNED
+   * ```
+   */
+  async accept(id: string, options: DocumentActionOptions = {}): Promise<DocumentStatus> {
+    return this.performAction(id, 'accept', 'canSign', options, { signature: options.signature });
+  }
+
+  /**
+   * Reject an incoming document with a reason
+   *
+   * Requires the `canSign` privilege.
+   *
+   * @param id - Document unique identifier
+   * @param reason - Rejection reason shown to the sender
+   * @param options - Signature and privilege check options
+   * @returns Promise resolving to the updated document status
+   *
+   * @throws {DidoxValidationError} When document ID or reason is invalid
+   * @throws {DidoxPrivilegeError} When the document cannot be signed by the current user
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const status = await client.documents.reject(incomingId, 'Wrong contract number', { signature });
+   * // status === DocumentStatus.REJECTED
+   * ```
+   */
+  async reject(id: string, reason: string, options: DocumentActionOptions = {}): Promise<DocumentStatus> {
+    validateRejectReason(reason);
+    return this.performAction(id, 'reject', 'canSign', options, {
+      comment: reason,
+      signature: options.signature
+    });
+  }
+
+  /**
+   * Cancel an outgoing document
+   *
+   * Requires the `canCancel` privilege.
+   *
+   * @param id - Document unique identifier
+   * @param options - Signature and privilege check options
+   * @returns Promise resolving to the updated document status
+   *
+   * @throws {DidoxValidationError} When document ID is invalid
+   * @throws {DidoxPrivilegeError} When the document cannot be cancelled by the current user
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const status = await client.documents.cancel(outgoingId, { signature });
+   * // status === DocumentStatus.CANCELLED
+   * ```
+   */
+  async cancel(id: string, options: DocumentActionOptions = {}): Promise<DocumentStatus> {
+    return this.performAction(id, 'cancel', 'canCancel', options, { signature: options.signature });
+  }
+
+  /**
+   * Delete a draft
+   *
+   * Requires the `canDelete` privilege. A deleted draft no longer exists and has
+   * no status, so nothing is returned; `getById` then fails with `DidoxNotFoundError`.
+   *
+   * @param id - Document unique identifier
+   * @param options - Privilege check options
+   * @returns Promise resolving once the draft is deleted
+   *
+   * @throws {DidoxValidationError} When document ID is invalid
+   * @throws {DidoxPrivilegeError} When the document cannot be deleted by the current user
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * await client.documents.delete(draftId);
+   * ```
+   */
+  async delete(id: string, options: Pick<DocumentActionOptions, 'skipPrivilegeCheck'> = {}): Promise<void> {
+    validateDocumentId(id);
+    await this.assertPrivilege(id, 'canDelete', options);
+
+    await this.httpClient.delete<RawDocumentActionResponse>(`/v1/documents/${id}`, {
+      operation: 'documents.delete',
+      timeout: this.timeout
+    })
+      .catch(error => this.handleError(error));
+  }
+
+  /**
+   * Wait until a document reaches one of the target statuses
+   *
+   * Polls `getById` with exponential backoff (`interval`, multiplied by `backoffFactor`
+   * up to `maxInterval`). The first poll happens immediately.
+   *
+   * @param id - Document unique identifier
+   * @param targetStatuses - Status or statuses that end the wait
+   * @param options - Timeout, polling interval and abort signal
+   * @returns Promise resolving to the document (raw `getById` response) in a target status
+   *
+   * @throws {DidoxValidationError} When parameters are invalid
+   * @throws {DidoxWaitTimeoutError} When the timeout expires; carries `lastStatus`
+   * @throws {DidoxNotFoundError} When the document does not exist (404 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * await client.documents.send(id, { signature });
+   *
+   * try {
+   *   const document = await client.documents.waitForStatus(
+   *     id,
+   *     [DocumentStatus.SIGNED, DocumentStatus.REJECTED, DocumentStatus.ERROR],
+   *     { timeout: 10 * 60_000 }
+   *   );
+   * } catch (error) {
+   *   if (error instanceof DidoxWaitTimeoutError) {
+   *     console.log('Still in status', error.lastStatus);
+   *   }
+   * }
+   * ```
+   */
+  async waitForStatus(
+    id: string,
+    targetStatuses: DocumentStatus | DocumentStatus[],
+    options: WaitForStatusOptions = {}
+  ): Promise<RawDocumentResponse> {
+    const documents = await this.waitForStatuses([id], targetStatuses, { ...options, concurrency: 1 });
+    return documents[id];
+  }
+
+  /**
+   * Wait until several documents reach one of the target statuses
+   *
+   * All documents share one polling loop: every round fetches the documents that are
+   * still pending (at most `concurrency` requests at a time), then waits with backoff.
+   *
+   * @param ids - Document unique identifiers
+   * @param targetStatuses - Status or statuses that end the wait
+   * @param options - Timeout, polling interval, concurrency and abort signal
+   * @returns Promise resolving to the documents (raw `getById` responses) by ID
+   *
+   * @throws {DidoxValidationError} When parameters are invalid
+   * @throws {DidoxWaitTimeoutError} When the timeout expires; carries `pending` statuses and `completed` documents
+   * @throws {DidoxNotFoundError} When a document does not exist (404 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   *
+   * @example
+   * ```typescript
+   * const documents = await client.documents.waitForStatuses(sentIds, DocumentStatus.SIGNED, {
+   *   timeout: 30 * 60_000,
+   *   interval: 5000
+   * });
+   * ```
+   */
+  async waitForStatuses(
+    ids: string[],
+    targetStatuses: DocumentStatus | DocumentStatus[],
+    options: WaitForStatusesOptions = {}
+  ): Promise<Record<string, RawDocumentResponse>> {
+    const targets = Array.isArray(targetStatuses) ? targetStatuses : [targetStatuses];
+    validateWaitParams(ids, targets, options);
+
+    const {
+      timeout = 300_000,
+      interval = 2000,
+      maxInterval = 30_000,
+      backoffFactor = 1.5,
+      concurrency = 5,
+      signal
+    } = options;
+
+    const deadline = Date.now() + timeout;
+    const pending = new Map<string, DocumentStatus | undefined>(ids.map(id => [id, undefined]));
+    const completed: Record<string, RawDocumentResponse> = {};
+    let delay = interval;
+
+    while (true) {
+      signal?.throwIfAborted();
+
+      await runConcurrently([...pending.keys()], concurrency, async id => {
+        const document = await this.fetchDocument(id, signal);
+        const status = extractDocumentStatus(document);
+
+        if (status !== undefined && targets.includes(status)) {
+          pending.delete(id);
+          completed[id] = document;
+        } else {
+          pending.set(id, status);
+        }
+      });
+
+      if (pending.size === 0) {
+        return completed;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        const [first] = pending;
+        throw new DidoxWaitTimeoutError(
+          pending.size === 1
+            ? `Document ${first![0]} did not reach status ${targets.join('/')} within ${timeout}ms (last status: ${first![1] ?? 'unknown'})`
+            : `${pending.size} documents did not reach status ${targets.join('/')} within ${timeout}ms`,
+          targets,
+          Object.fromEntries(pending),
+          completed
+        );
+      }
+
+      await sleep(Math.min(delay, remaining), signal);
+      delay = Math.min(delay * backoffFactor, maxInterval);
+    }
+  }
+
+  /**
+   * Run a lifecycle action after checking the required privilege
+   *
+   * @private
+   * @returns Status from the action response, or the status of the re-fetched document
+   */
+  private async performAction(
+    id: string,
+    action: 'send' | 'accept' | 'reject' | 'cancel',
+    privilege: DocumentPrivilege,
+    options: DocumentActionOptions,
+    body: Record<string, unknown>
+  ): Promise<DocumentStatus> {
+    validateDocumentId(id);
+    await this.assertPrivilege(id, privilege, options);
+
+    // Sign through the provider unless the caller brought a signature
+    if (body.signature === undefined && this.signer) {
+      body.signature = await this.sign(id, options);
+    }
+
+    const payload = Object.fromEntries(
+      Object.entries(body).filter(([, value]) => value !== undefined)
+    );
+
+    const response = await this.httpClient.post<RawDocumentActionResponse>(
+      `/v1/documents/${id}/${action}`,
+      payload,
+      { operation: `documents.${action}`, timeout: this.timeout }
+    )
+      .catch(error => this.handleError(error));
+
+    const status = extractDocumentStatus(response.data);
+    if (status !== undefined) {
+      return status;
+    }
+
+    const document = await this.getById(id);
+    const refreshed = extractDocumentStatus(document);
+    if (refreshed === undefined) {
+      throw new DidoxApiError(`Cannot determine status of document ${id} after ${action}`, response.status, document);
+    }
+    return refreshed;
+  }
+
+  /**
+   * Check a document privilege with `getPrivileges`
+   *
+   * @private
+   * @throws {DidoxPrivilegeError} When the privilege is missing
+   */
+  private async assertPrivilege(
+    id: string,
+    privilege: DocumentPrivilege,
+    options: Pick<DocumentActionOptions, 'skipPrivilegeCheck'>
+  ): Promise<void> {
+    if (options.skipPrivilegeCheck) {
+      return;
+    }
+
+    const privileges = await this.getPrivileges(id);
+    if (!normalizeDocumentPrivileges(privileges)[privilege]) {
+      throw new DidoxPrivilegeError(
+        `Action requires the ${privilege} privilege on document ${id}`,
+        id,
+        privilege,
+        privileges
+      );
+    }
+  }
+
+  /**
+   * Request a document by ID
+   *
+   * @private
+   */
+  private async fetchDocument(id: string, signal?: AbortSignal): Promise<RawDocumentResponse> {
+    const response = await this.httpClient.get<RawDocumentResponse>(`/v1/documents/${id}`, {
+      operation: 'documents.getById',
+      timeout: this.timeout,
+      ...(signal && { signal })
+    })
+      .catch(error => this.handleError(error));
+
+    return response.data;
+  }
+
+  /**
+   * Request one page of the documents list
+   *
+   * @private
+   */
+  private async fetchPage(params: ListDocumentsParams, signal?: AbortSignal): Promise<DocumentsListResponse> {
+    const url = this.buildUrlWithParams('/v2/documents', params);
+
+    const response = await this.httpClient.get<DocumentsListResponse>(url, {
+      operation: 'documents.list',
+      timeout: this.timeout,
+      ...(params.doctype && { attributes: { 'didox.doctype': params.doctype } }),
+      ...(signal && { signal })
+    })
+      .catch(error => this.handleError(error));
+
+    return response.data;
+  }
+
+  /**
+   * Post a draft of any document type; shared by `createDraft`, `create` and `createDrafts`
+   */
+  private async postDraft(
+    docType: string,
+    payload: unknown,
+    options?: { output?: 'wrapped' | 'raw' }
+  ): Promise<CreateDraftResponse> {
     // Validate parameters
     validateCreateDraftParams(docType, payload);
-    
+
     const endpoint = `/v1/documents/${docType}/create`;
-    
+
+    let response: HttpResponse<unknown>;
     try {
-      // Make HTTP POST request
-      const response = await this.httpClient.post<any>(endpoint, payload);
-      
-      // Return raw response data
-      return response.data;
-      
+      response = await this.httpClient.post<unknown>(endpoint, payload, {
+        operation: 'documents.createDraft',
+        timeout: this.timeout,
+        attributes: { 'didox.doctype': docType }
+      });
     } catch (error) {
-      // Handle output mode
+      // In raw mode, rethrow the original error without wrapping
       if (options?.output === 'raw') {
-        // In raw mode, rethrow the original error without wrapping
         throw error;
       }
-      
-      // In wrapped mode (default), errors are handled by HttpClient error classes
-      throw error;
+
+      // In wrapped mode (default), authentication failures become DidoxAuthError
+      this.handleError(error);
+    }
+
+    if (!isCreateDraftResponse(response.data)) {
+      throw new DidoxApiError('Unexpected create draft response: expected a JSON object', response.status, response.data);
+    }
+    return response.data;
+  }
+
+  /**
+   * Map API errors to SDK errors
+   * 401 responses become DidoxAuthError; typed API errors are rethrown as-is
+   *
+   * @private
+   * @param error - Error thrown by HttpClient
+   */
+  private handleError(error: unknown): never {
+    if (error instanceof DidoxApiError && error.statusCode === 401) {
+      throw new DidoxAuthError(
+        'Unauthorized: Invalid user key',
+        error.statusCode,
+        error
+      );
     }
+    throw error;
   }
 
   /**
@@ -370,4 +1217,111 @@ export class DocumentsClient {
     const queryString = queryParams.toString();
     return queryString ? `${endpoint}?${queryString}` : endpoint;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Largest page size accepted by `/v2/documents`
+ */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Content types used when Didox does not report one
+ */
+const DOWNLOAD_CONTENT_TYPES: Record<DocumentDownloadFormat, string> = {
+  pdf: 'application/pdf',
+  json: 'application/json',
+  p7s: 'application/pkcs7-signature',
+  zip: 'application/zip'
+};
+
+/**
+ * File name from a Content-Disposition header (RFC 6266, including `filename*`)
+ */
+function parseFilename(disposition: string | undefined): string | undefined {
+  if (!disposition) {
+    return undefined;
+  }
+
+  const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(disposition);
+  if (extended?.[2]) {
+    try {
+      return decodeURIComponent(extended[2].trim());
+    } catch {
+      // Fall back to the plain filename parameter
+    }
+  }
+
+  const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(disposition);
+  const filename = (plain?.[1] ?? plain?.[2])?.trim();
+  return filename || undefined;
+}
+
+/**
+ * Data signed for a document: the `toSign` string when provided by the API,
+ * otherwise the document JSON
+ */
+function signingContent(document: RawDocumentResponse): string {
+  if (document && typeof document === 'object') {
+    if (typeof document.toSign === 'string') {
+      return document.toSign;
+    }
+    if (document.json !== undefined) {
+      return JSON.stringify(document.json);
+    }
+  }
+  return JSON.stringify(document);
+}
+
+/**
+ * Payload of a `createDrafts` item: the ready payload or the builder output
+ */
+function draftPayload(item: CreateDraftItem<unknown>): object {
+  if (!item || typeof item !== 'object') {
+    throw new DidoxValidationError('Item must be an object');
+  }
+  if ((item.payload === undefined) === (item.builder === undefined)) {
+    throw new DidoxValidationError('Item must have either a payload or a builder', 'payload');
+  }
+  if (item.builder && item.docType !== undefined && item.docType !== item.builder.docType) {
+    throw new DidoxValidationError(
+      `Item docType ${item.docType} does not match the builder's ${item.builder.docType}`,
+      'docType'
+    );
+  }
+  return (item.builder ? item.builder.build() : item.payload) as object;
+}
+
+/**
+ * Document ID from a create response (`document.doc_id` or a top-level ID)
+ */
+function extractDocumentId(response: RawDocumentResponse): string | undefined {
+  const id = response?.document?.doc_id ?? response?.doc_id ?? response?.documentId ?? response?._id ?? response?.id;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+/**
+ * Whether a create response is a JSON object (the created document and its JSON)
+ */
+function isCreateDraftResponse(data: unknown): data is CreateDraftResponse {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
+
+/**
+ * Per-field validation messages carried by an error
+ */
+function fieldErrorsOf(error: unknown): Record<string, string[]> {
+  if (error instanceof DidoxServerValidationError) {
+    return error.fieldErrors;
+  }
+  if (error instanceof DidoxBuilderValidationError) {
+    const fieldErrors: Record<string, string[]> = {};
+    for (const issue of error.report.errors) {
+      (fieldErrors[issue.path] ??= []).push(issue.message);
+    }
+    return fieldErrors;
+  }
+  if (error instanceof DidoxValidationError && error.field) {
+    return { [error.field]: [error.message] };
+  }
+  return {};
+}
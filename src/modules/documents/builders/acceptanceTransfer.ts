@@ -1,4 +1,5 @@
 import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
 
 /**
  * Acceptance Transfer Document Builder (Stub)
@@ -6,7 +7,9 @@ import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocument
  * Builder for creating acceptance transfer documents.
  * This is a placeholder implementation that will be expanded in future stages.
  */
-class AcceptanceTransferBuilder extends BaseDocumentBuilder<any> {
+class AcceptanceTransferBuilder extends BaseDocumentBuilder<any, DocumentType.ACCEPTANCE_TRANSFER> {
+  readonly docType = DocumentType.ACCEPTANCE_TRANSFER;
+
   // TODO: Add acceptance transfer methods
 }
 
@@ -16,5 +19,5 @@ class AcceptanceTransferBuilder extends BaseDocumentBuilder<any> {
  * @param initial - Optional initial acceptance transfer data
  * @returns Acceptance transfer builder instance
  */
-export const acceptanceTransfer: DocumentBuilderFactory<any> = (initial?) => 
+export const acceptanceTransfer: DocumentBuilderFactory<any, DocumentType.ACCEPTANCE_TRANSFER> = (initial?) => 
   new AcceptanceTransferBuilder(initial);
\ No newline at end of file
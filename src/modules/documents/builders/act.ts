@@ -1,4 +1,9 @@
-import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
+import { Decimal } from '../../../utils/decimal.js';
+import { calculateTotals } from './base/pricing.js';
+import type { DocumentTotals, PricingOptions } from './base/pricing.js';
+import type { ValidationCollector } from './base/validation.js';
 
 /**
  * DX-friendly Act Draft interface
@@ -44,6 +49,9 @@ export interface ActDraft {
     hasVat?: boolean;
     hasExcise?: boolean;
   };
+
+  /** Optional rounding strategy and price basis */
+  pricing?: PricingOptions;
 }
 
 /**
@@ -64,7 +72,7 @@ export interface ActProductDraft {
   packageName: string;
   /** Count/quantity */
   count: number;
-  /** Unit price */
+  /** Unit price (without VAT unless `pricing({ pricesIncludeVat: true })`) */
   price: number;
   /** VAT rate (optional) */
   vatRate?: number;
@@ -145,7 +153,9 @@ export interface ApiActPayload {
  * await client.documents.createDraft('005', payload);
  * ```
  */
-class ActBuilder extends BaseDocumentBuilder<ActDraft> {
+export class ActBuilder extends BaseDocumentBuilder<ActDraft, DocumentType.ACT, ApiActPayload> {
+  readonly docType = DocumentType.ACT;
+
   /**
    * Set act document information
    * 
@@ -299,6 +309,42 @@ class ActBuilder extends BaseDocumentBuilder<ActDraft> {
     return this;
   }
 
+  /**
+   * Set rounding strategy and price basis (optional)
+   * 
+   * @param options - Pricing settings
+   * @returns Builder instance for chaining
+   * 
+   * @example
+   * ```typescript
+   * builder.pricing({ pricesIncludeVat: true })
+   * ```
+   */
+  pricing(options: PricingOptions): this {
+    this.payload.pricing = options;
+    return this;
+  }
+
+  /**
+   * Compute line and document amounts without building
+   * 
+   * Uses the same calculation as `build()`; VAT is applied only when
+   * `flags({ hasVat: true })` is set and the line is not `withoutVat`.
+   * 
+   * @returns Amounts per service line and for the act, rounded to 2 decimals
+   */
+  totals(): DocumentTotals {
+    const hasVat = this.payload.flags?.hasVat ?? false;
+    return calculateTotals(
+      (this.payload.products ?? []).map(product => ({
+        quantity: product.count,
+        price: product.price,
+        vatRate: hasVat && !product.withoutVat ? product.vatRate ?? 0 : 0
+      })),
+      this.payload.pricing
+    );
+  }
+
   /**
    * Build and transform to API payload
    * 
@@ -306,7 +352,7 @@ class ActBuilder extends BaseDocumentBuilder<ActDraft> {
    * Validates required fields and transforms DX structure to Didox API JSON format.
    * 
    * @returns API-compatible act payload ready for createDraft()
-   * @throws Error if required fields are missing
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    * 
    * @example
    * ```typescript
@@ -314,40 +360,27 @@ class ActBuilder extends BaseDocumentBuilder<ActDraft> {
    * await client.documents.createDraft('005', apiPayload);
    * ```
    */
-  build(): any {
-    // Validate required fields
-    if (!this.payload.act) {
-      throw new Error('Act document information is required');
-    }
-    if (!this.payload.seller) {
-      throw new Error('Seller information is required');
-    }
-    if (!this.payload.buyer) {
-      throw new Error('Buyer information is required');
-    }
-    if (!this.payload.products || this.payload.products.length === 0) {
-      throw new Error('At least one product/service is required');
-    }
+  build(): ApiActPayload {
+    this.assertValid();
+    const draft = this.payload as ActDraft;
 
-    const flags = this.payload.flags || {};
+    const flags = draft.flags || {};
+    const totals = this.totals();
 
     // Transform DX structure to API structure
     const apiPayload: ApiActPayload = {
       ActDoc: {
-        ActNo: this.payload.act.no,
-        ActDate: this.payload.act.date,
-        ...(this.payload.act.text && { ActText: this.payload.act.text }),
+        ActNo: draft.act.no,
+        ActDate: draft.act.date,
+        ...(draft.act.text && { ActText: draft.act.text }),
       },
-      SellerTin: this.payload.seller.tin,
+      SellerTin: draft.seller.tin,
       ProductList: {
-        Tin: this.payload.seller.tin,
+        Tin: draft.seller.tin,
         HasVat: flags.hasVat ?? false,
         HasExcise: flags.hasExcise ?? false,
-        Products: this.payload.products.map((product, index) => {
-          const totalSumWithoutVat = product.count * product.price;
-          const vatRate = product.vatRate ?? 0;
-          const vatSum = flags.hasVat && vatRate > 0 ? (totalSumWithoutVat * vatRate) / 100 : 0;
-          const totalSum = totalSumWithoutVat + vatSum;
+        Products: draft.products.map((product, index) => {
+          const line = totals.lines[index]!;
 
           return {
             OrdNo: index + 1,
@@ -357,38 +390,85 @@ class ActBuilder extends BaseDocumentBuilder<ActDraft> {
             MeasureId: null,
             PackageCode: product.packageCode,
             PackageName: product.packageName,
-            Count: product.count.toString(),
-            Summa: totalSum.toString(),
-            TotalSumWithoutVat: totalSumWithoutVat.toFixed(2),
-            VatRate: vatRate.toString(),
-            VatSum: vatSum.toFixed(2),
-            TotalSum: totalSum.toFixed(2),
+            Count: Decimal.from(product.count).toString(),
+            Summa: Decimal.from(line.unitPrice).toString(),
+            TotalSumWithoutVat: line.net.toFixed(2),
+            VatRate: (product.vatRate ?? 0).toString(),
+            VatSum: line.vat.toFixed(2),
+            TotalSum: line.gross.toFixed(2),
             WithoutVat: product.withoutVat ?? !flags.hasVat,
             LgotaName: product.lgotaName ?? null,
             LgotaType: product.lgotaType ?? null,
           };
         }),
       },
-      SellerName: this.payload.seller.name,
-      SellerBranchCode: this.payload.seller.branchCode ?? '',
-      SellerBranchName: this.payload.seller.branchName ?? '',
-      BuyerTin: this.payload.buyer.tin,
-      BuyerName: this.payload.buyer.name,
-      BuyerBranchCode: this.payload.buyer.branchCode ?? '',
-      BuyerBranchName: this.payload.buyer.branchName ?? '',
+      SellerName: draft.seller.name,
+      SellerBranchCode: draft.seller.branchCode ?? '',
+      SellerBranchName: draft.seller.branchName ?? '',
+      BuyerTin: draft.buyer.tin,
+      BuyerName: draft.buyer.name,
+      BuyerBranchCode: draft.buyer.branchCode ?? '',
+      BuyerBranchName: draft.buyer.branchName ?? '',
     };
 
     // Add optional contract
-    if (this.payload.contract) {
+    if (draft.contract) {
       apiPayload.ContractDoc = {
-        ContractNo: this.payload.contract.no,
-        ContractDate: this.payload.contract.date,
+        ContractNo: draft.contract.no,
+        ContractDate: draft.contract.date,
       };
     }
 
     return apiPayload;
   }
 
+  /**
+   * Check act, contract, parties and product lines
+   * 
+   * @param issues - Collector receiving the issues (see `validate()`)
+   */
+  protected collectIssues(issues: ValidationCollector): void {
+    const { act, contract, seller, buyer, products, flags } = this.payload;
+
+    if (issues.required(act, 'act', 'ActDoc')) {
+      issues.required(act.no, 'act.no', 'ActDoc.ActNo');
+      issues.date(act.date, 'act.date', 'ActDoc.ActDate');
+    }
+
+    if (contract) {
+      issues.required(contract.no, 'contract.no', 'ContractDoc.ContractNo');
+      issues.date(contract.date, 'contract.date', 'ContractDoc.ContractDate');
+    }
+
+    if (issues.required(seller, 'seller', 'SellerTin')) {
+      issues.tin(seller.tin, 'seller.tin', 'SellerTin');
+      issues.required(seller.name, 'seller.name', 'SellerName');
+    }
+    if (issues.required(buyer, 'buyer', 'BuyerTin')) {
+      issues.tin(buyer.tin, 'buyer.tin', 'BuyerTin');
+      issues.required(buyer.name, 'buyer.name', 'BuyerName');
+    }
+    if (seller?.tin && seller.tin === buyer?.tin) {
+      issues.add('warning', 'same_party', 'buyer.tin', 'BuyerTin', { other: 'seller.tin' });
+    }
+
+    if (issues.minItems(products, 1, 'products', 'ProductList.Products')) {
+      products.forEach((product, index) => {
+        const path = `products[${index}]`;
+        const apiPath = `ProductList.Products[${index}]`;
+        issues.required(product.name, `${path}.name`, `${apiPath}.Name`);
+        issues.required(product.catalogCode, `${path}.catalogCode`, `${apiPath}.CatalogCode`);
+        issues.required(product.packageCode, `${path}.packageCode`, `${apiPath}.PackageCode`);
+        issues.positive(product.count, `${path}.count`, `${apiPath}.Count`);
+        issues.positive(product.price, `${path}.price`, `${apiPath}.TotalSumWithoutVat`);
+        issues.nonNegative(product.vatRate, `${path}.vatRate`, `${apiPath}.VatRate`);
+        if (flags?.hasVat && !product.withoutVat && product.vatRate === undefined) {
+          issues.add('warning', 'missing_vat_rate', `${path}.vatRate`, `${apiPath}.VatRate`);
+        }
+      });
+    }
+  }
+
   /**
    * Get DX-friendly draft payload (for debugging/testing)
    * 
@@ -416,7 +496,7 @@ class ActBuilder extends BaseDocumentBuilder<ActDraft> {
  * await client.documents.createDraft('005', act);
  * ```
  */
-export const act: DocumentBuilderFactory<ActDraft> = () => new ActBuilder();
+export const act = (): ActBuilder => new ActBuilder();
 
 // Export types separately to avoid conflicts
 export type { ActDraft as ActDraftType };
@@ -1,5 +1,6 @@
-import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
-import { DidoxValidationError } from '../../../http/errors.js';
+import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
+import type { ValidationCollector } from './base/validation.js';
 
 /**
  * DX-friendly ArbitraryDocument Draft interface
@@ -154,7 +155,9 @@ export interface ApiArbitraryDocumentPayload {
  *   .build();
  * ```
  */
-export class ArbitraryDocumentBuilder extends BaseDocumentBuilder<ApiArbitraryDocumentPayload> {
+export class ArbitraryDocumentBuilder extends BaseDocumentBuilder<ApiArbitraryDocumentPayload, DocumentType.FREE_FORM> {
+  readonly docType = DocumentType.FREE_FORM;
+
   /**
    * Internal DX-friendly payload for development
    * 
@@ -284,7 +287,7 @@ export class ArbitraryDocumentBuilder extends BaseDocumentBuilder<ApiArbitraryDo
    * required by the Didox API for arbitrary documents (doctype 000).
    * 
    * @returns Complete API payload ready for createDraft()
-   * @throws {DidoxValidationError} When required fields are missing
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    * 
    * @example
    * ```typescript
@@ -301,8 +304,7 @@ export class ArbitraryDocumentBuilder extends BaseDocumentBuilder<ApiArbitraryDo
    * ```
    */
   public build(): ApiArbitraryDocumentPayload {
-    // Validate required fields
-    this.validateRequiredFields();
+    this.assertValid();
 
     const payload: ApiArbitraryDocumentPayload = {
       data: {
@@ -347,35 +349,37 @@ export class ArbitraryDocumentBuilder extends BaseDocumentBuilder<ApiArbitraryDo
   }
 
   /**
-   * Validate required fields
+   * Check document details, parties and the PDF file
    * 
-   * @private
-   * @throws {DidoxValidationError} When validation fails
+   * @param issues - Collector receiving the issues (see `validate()`)
    */
-  private validateRequiredFields(): void {
-    if (!this.dxPayload.document?.no) {
-      throw new DidoxValidationError('Document number is required', 'document.no');
-    }
+  protected collectIssues(issues: ValidationCollector): void {
+    const { document, subtype, contract, seller, buyer, pdfBase64 } = this.dxPayload;
 
-    if (!this.dxPayload.document?.date) {
-      throw new DidoxValidationError('Document date is required', 'document.date');
-    }
+    issues.required(document?.no, 'document.no', 'data.Document.DocumentNo');
+    issues.date(document?.date, 'document.date', 'data.Document.DocumentDate');
+    issues.required(subtype, 'subtype', 'data.Subtype');
 
-    if (this.dxPayload.subtype === undefined) {
-      throw new DidoxValidationError('Subtype is required', 'subtype');
+    if (contract) {
+      issues.required(contract.no, 'contract.no', 'data.ContractDoc.ContractNo');
+      issues.date(contract.date, 'contract.date', 'data.ContractDoc.ContractDate');
     }
 
-    if (!this.dxPayload.seller?.tin) {
-      throw new DidoxValidationError('Seller TIN is required', 'seller.tin');
+    issues.tin(seller?.tin, 'seller.tin', 'data.SellerTin');
+    if (seller) {
+      issues.required(seller.name, 'seller.name', 'data.Seller.Name');
+      issues.required(seller.address, 'seller.address', 'data.Seller.Address');
     }
-
-    if (!this.dxPayload.buyer?.tin) {
-      throw new DidoxValidationError('Buyer TIN is required', 'buyer.tin');
+    issues.tin(buyer?.tin, 'buyer.tin', 'data.BuyerTin');
+    if (buyer) {
+      issues.required(buyer.name, 'buyer.name', 'data.Buyer.Name');
+      issues.required(buyer.address, 'buyer.address', 'data.Buyer.Address');
     }
-
-    if (!this.dxPayload.pdfBase64) {
-      throw new DidoxValidationError('PDF base64 data is required', 'pdfBase64');
+    if (seller?.tin && seller.tin === buyer?.tin) {
+      issues.add('warning', 'same_party', 'buyer.tin', 'data.BuyerTin', { other: 'seller.tin' });
     }
+
+    issues.required(pdfBase64, 'pdfBase64', 'document');
   }
 
   /**
@@ -432,5 +436,5 @@ export class ArbitraryDocumentBuilder extends BaseDocumentBuilder<ApiArbitraryDo
  *   .build();
  * ```
  */
-export const arbitrary: DocumentBuilderFactory<ApiArbitraryDocumentPayload> = (initial?) => 
+export const arbitrary = (initial?: Partial<ApiArbitraryDocumentPayload>): ArbitraryDocumentBuilder =>
   new ArbitraryDocumentBuilder(initial);
\ No newline at end of file
@@ -5,6 +5,11 @@
  * This class serves as the universal base that all specific document builders extend from.
  */
 
+import { DidoxBuilderValidationError } from '../../../../http/errors.js';
+import type { DocumentType } from '../../documents.enums.js';
+import { ValidationCollector } from './validation.js';
+import type { ValidationReport } from './validation.js';
+
 /**
  * Abstract base class for all document builders
  * 
@@ -12,7 +17,9 @@
  * chainable API pattern. All document builders inherit from this class to ensure
  * consistent behavior and IDE support across the SDK.
  * 
- * @template TPayload - The final document payload type that this builder produces
+ * @template TPayload - The payload state the builder methods fill in
+ * @template TDocType - Didox document type the builder produces
+ * @template TOutput - The final document payload type returned by `build()`
  * 
  * @example
  * ```typescript
@@ -24,7 +31,19 @@
  *   .build();  // Returns TPayload
  * ```
  */
-export abstract class BaseDocumentBuilder<TPayload> {
+export abstract class BaseDocumentBuilder<
+  TPayload,
+  TDocType extends DocumentType = DocumentType,
+  TOutput = TPayload
+> {
+  /**
+   * Didox document type code of the built document
+   *
+   * Used by `documents.create(builder)` to pick the endpoint, so the payload
+   * can never be posted under another document type.
+   */
+  abstract readonly docType: TDocType;
+
   /**
    * Internal payload state
    * 
@@ -100,7 +119,8 @@ export abstract class BaseDocumentBuilder<TPayload> {
    * after all desired builder methods have been chained to get the final
    * document structure ready for API submission.
    * 
-   * @returns The complete document payload of type TPayload
+   * @returns The complete document payload of type TOutput
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors
    * 
    * @example
    * ```typescript
@@ -112,12 +132,61 @@ export abstract class BaseDocumentBuilder<TPayload> {
    *   .build();
    * 
    * // Use with createDraft
-   * await client.documents.createDraft('002', documentPayload);
+   * await client.documents.createDraft(builder.docType, documentPayload);
    * ```
    */
-  build(): TPayload {
+  build(): TOutput {
+    this.assertValid();
     // Return a copy to prevent external modification of internal state
-    return { ...this.payload } as TPayload;
+    return { ...this.payload } as unknown as TOutput;
+  }
+
+  /**
+   * Check the draft without building it
+   * 
+   * Reports every issue at once (missing fields, malformed TINs and dates,
+   * non-positive amounts), each with its path in the builder draft and in the
+   * API payload. `build()` throws when the report has errors; warnings only
+   * inform.
+   * 
+   * @returns Validation report
+   * 
+   * @example
+   * ```typescript
+   * const report = builders.invoice().factura('INV-1', '2025-02-07').validate();
+   * 
+   * for (const issue of report.errors) {
+   *   form.setError(issue.path, issue.messages.ru);
+   * }
+   * ```
+   */
+  validate(): ValidationReport {
+    const issues = new ValidationCollector();
+    this.collectIssues(issues);
+    return issues.report();
+  }
+
+  /**
+   * Report the issues of the current draft
+   * 
+   * Builders override this to check their fields; the default accepts any draft.
+   * 
+   * @param _issues - Collector receiving the issues
+   * @protected
+   */
+  protected collectIssues(_issues: ValidationCollector): void {}
+
+  /**
+   * Throw when the draft has validation errors
+   * 
+   * @throws {DidoxBuilderValidationError} With the full validation report
+   * @protected
+   */
+  protected assertValid(): void {
+    const report = this.validate();
+    if (!report.valid) {
+      throw new DidoxBuilderValidationError(report);
+    }
   }
 }
 
@@ -129,6 +198,7 @@ export abstract class BaseDocumentBuilder<TPayload> {
  * consistency across the SDK.
  * 
  * @template T - The payload type that the builder produces
+ * @template D - Didox document type of the built document
  * 
  * @example
  * ```typescript
@@ -141,4 +211,5 @@ export abstract class BaseDocumentBuilder<TPayload> {
  * const payload = builder.someMethod().build();
  * ```
  */
-export type DocumentBuilderFactory<T> = (initial?: Partial<T>) => BaseDocumentBuilder<T>;
\ No newline at end of file
+export type DocumentBuilderFactory<T, D extends DocumentType = DocumentType> =
+  (initial?: Partial<T>) => BaseDocumentBuilder<T, D>;
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { calculateTotals } from './pricing.js';
+
+describe('calculateTotals', () => {
+  it('computes VAT per line on top of the price', () => {
+    expect(calculateTotals([{ quantity: 3, price: 33.33, vatRate: 12 }])).toEqual({
+      lines: [{ unitPrice: 33.33, excise: 0, net: 99.99, vat: 12, gross: 111.99 }],
+      excise: 0,
+      net: 99.99,
+      vat: 12,
+      gross: 111.99
+    });
+  });
+
+  it('extracts VAT from prices that include it', () => {
+    const totals = calculateTotals([{ quantity: 1, price: 100, vatRate: 12 }], { pricesIncludeVat: true });
+
+    expect(totals.lines[0]).toEqual({ unitPrice: 89.29, excise: 0, net: 89.29, vat: 10.71, gross: 100 });
+    expect(totals).toMatchObject({ net: 89.29, vat: 10.71, gross: 100 });
+  });
+
+  it('adds excise before VAT', () => {
+    const totals = calculateTotals([
+      { quantity: 2, price: 50, vatRate: 12, exciseRate: 10 },
+      { quantity: 2, price: 50, vatRate: 12, exciseSum: 7.5 }
+    ]);
+
+    expect(totals.lines).toEqual([
+      { unitPrice: 50, excise: 10, net: 110, vat: 13.2, gross: 123.2 },
+      { unitPrice: 50, excise: 7.5, net: 107.5, vat: 12.9, gross: 120.4 }
+    ]);
+    expect(totals).toMatchObject({ excise: 17.5, net: 217.5, vat: 26.1, gross: 243.6 });
+  });
+
+  it('sums rounded lines by default', () => {
+    const lines = [1, 2, 3].map(() => ({ quantity: 1, price: 10.04, vatRate: 12 }));
+    const totals = calculateTotals(lines);
+
+    expect(totals.lines.map(line => line.vat)).toEqual([1.2, 1.2, 1.2]);
+    expect(totals).toMatchObject({ net: 30.12, vat: 3.6, gross: 33.72 });
+  });
+
+  it('rounds exact document amounts once with document rounding', () => {
+    const lines = [1, 2, 3].map(() => ({ quantity: 1, price: 10.04, vatRate: 12 }));
+    const totals = calculateTotals(lines, { rounding: 'document' });
+
+    expect(totals.lines.map(line => line.vat)).toEqual([1.2, 1.2, 1.2]);
+    expect(totals).toMatchObject({ net: 30.12, vat: 3.61, gross: 33.73 });
+  });
+
+  it('rounds half away from zero without binary floating point errors', () => {
+    const totals = calculateTotals([{ quantity: '0.5', price: '2.01' }]);
+
+    expect(totals.lines[0]?.net).toBe(1.01);
+    expect(calculateTotals([{ quantity: 3, price: 0.1 }]).net).toBe(0.3);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Line and document amounts for priced documents
+ *
+ * Shared by the invoice, act and TTN builders so every document computes
+ * amounts the way Didox does: exact decimal arithmetic, VAT per line, and
+ * amounts rounded half away from zero to 2 decimals (tiyin).
+ */
+
+import { Decimal } from '../../../../utils/decimal.js';
+import type { DecimalInput } from '../../../../utils/decimal.js';
+
+/**
+ * When amounts are rounded
+ * - `line`: every line is rounded to 2 decimals and document totals are sums of
+ *   the rounded lines (how the Didox UI computes documents)
+ * - `document`: lines are still rounded for the payload, but document totals are
+ *   computed from exact line amounts and rounded once
+ */
+export type RoundingStrategy = 'line' | 'document';
+
+/**
+ * Pricing settings of a builder
+ */
+export interface PricingOptions {
+  /**
+   * @default 'line'
+   */
+  rounding?: RoundingStrategy;
+
+  /**
+   * Whether product prices include VAT
+   * When true, VAT is extracted from the price: `vat = amount × rate / (100 + rate)`.
+   * @default false
+   */
+  pricesIncludeVat?: boolean;
+}
+
+/**
+ * Quantity, price and VAT rate of one line
+ */
+export interface PricedLine {
+  quantity: DecimalInput;
+  price: DecimalInput;
+
+  /**
+   * VAT rate in percent (0 or omitted for lines without VAT)
+   */
+  vatRate?: number;
+
+  /**
+   * Excise rate in percent of quantity × price (before VAT)
+   */
+  exciseRate?: number;
+
+  /**
+   * Excise amount of the line (takes precedence over `exciseRate`)
+   */
+  exciseSum?: DecimalInput;
+}
+
+/**
+ * Amounts of one line, rounded to 2 decimals
+ */
+export interface LineTotals {
+  /**
+   * Unit price without VAT
+   */
+  unitPrice: number;
+
+  /**
+   * Excise included in `net`
+   */
+  excise: number;
+
+  /**
+   * Amount without VAT, including excise
+   */
+  net: number;
+
+  vat: number;
+
+  /**
+   * Amount with VAT
+   */
+  gross: number;
+}
+
+/**
+ * Amounts of a whole document, rounded to 2 decimals
+ */
+export interface DocumentTotals {
+  lines: LineTotals[];
+  excise: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+/**
+ * Precision of intermediate results that cannot be exact (VAT extracted from a gross amount)
+ */
+const EXACT_SCALE = 10;
+
+/**
+ * Compute line and document amounts
+ *
+ * @param lines - Quantities, prices and VAT rates
+ * @param options - Rounding strategy and price basis
+ * @returns Amounts per line and for the document
+ *
+ * @example
+ * ```typescript
+ * calculateTotals([{ quantity: 3, price: 33.33, vatRate: 12 }]);
+ * // { lines: [{ unitPrice: 33.33, excise: 0, net: 99.99, vat: 12, gross: 111.99 }], excise: 0, net: 99.99, vat: 12, gross: 111.99 }
+ *
+ * calculateTotals([{ quantity: 1, price: 112, vatRate: 12 }], { pricesIncludeVat: true });
+ * // { lines: [{ unitPrice: 100, excise: 0, net: 100, vat: 12, gross: 112 }], excise: 0, net: 100, vat: 12, gross: 112 }
+ * ```
+ */
+export function calculateTotals(lines: PricedLine[], options: PricingOptions = {}): DocumentTotals {
+  const inclusive = options.pricesIncludeVat ?? false;
+  const exact = { excise: Decimal.ZERO, net: Decimal.ZERO, vat: Decimal.ZERO, gross: Decimal.ZERO };
+  const rounded = { excise: Decimal.ZERO, net: Decimal.ZERO, vat: Decimal.ZERO, gross: Decimal.ZERO };
+
+  const lineTotals = lines.map(line => {
+    const quantity = Decimal.from(line.quantity);
+    const price = Decimal.from(line.price);
+    const amount = quantity.times(price);
+    const rate = line.vatRate ?? 0;
+    const exciseRate = line.exciseRate ?? 0;
+
+    let unitPrice: Decimal;
+    let excise: Decimal;
+    let net: Decimal;
+    let vat: Decimal;
+    let gross: Decimal;
+
+    if (inclusive) {
+      // The price covers excise and VAT: peel VAT off first, then excise
+      const exactVat = amount.times(rate).divide(100 + rate, EXACT_SCALE);
+      const exactNet = amount.minus(exactVat);
+      const exactExcise = line.exciseSum !== undefined
+        ? Decimal.from(line.exciseSum)
+        : exactNet.times(exciseRate).divide(100 + exciseRate, EXACT_SCALE);
+      exact.gross = exact.gross.plus(amount);
+      exact.vat = exact.vat.plus(exactVat);
+      exact.excise = exact.excise.plus(exactExcise);
+
+      gross = amount.round(2);
+      vat = exactVat.round(2);
+      net = gross.minus(vat);
+      excise = exactExcise.round(2);
+      unitPrice = quantity.isZero() ? Decimal.ZERO : net.minus(excise).divide(quantity, 2);
+    } else {
+      const exactExcise = line.exciseSum !== undefined
+        ? Decimal.from(line.exciseSum)
+        : amount.times(exciseRate).times('0.01');
+      const exactNet = amount.plus(exactExcise);
+      exact.excise = exact.excise.plus(exactExcise);
+      exact.net = exact.net.plus(exactNet);
+      exact.vat = exact.vat.plus(exactNet.times(rate).times('0.01'));
+
+      unitPrice = price;
+      excise = exactExcise.round(2);
+      net = amount.round(2).plus(excise);
+      vat = net.times(rate).times('0.01').round(2);
+      gross = net.plus(vat);
+    }
+
+    rounded.excise = rounded.excise.plus(excise);
+    rounded.net = rounded.net.plus(net);
+    rounded.vat = rounded.vat.plus(vat);
+    rounded.gross = rounded.gross.plus(gross);
+
+    return {
+      unitPrice: unitPrice.toNumber(),
+      excise: excise.toNumber(),
+      net: net.toNumber(),
+      vat: vat.toNumber(),
+      gross: gross.toNumber()
+    };
+  });
+
+  if (options.rounding !== 'document') {
+    return {
+      lines: lineTotals,
+      excise: rounded.excise.toNumber(),
+      net: rounded.net.toNumber(),
+      vat: rounded.vat.toNumber(),
+      gross: rounded.gross.toNumber()
+    };
+  }
+
+  const excise = exact.excise.round(2).toNumber();
+  const vat = exact.vat.round(2);
+  if (inclusive) {
+    const gross = exact.gross.round(2);
+    return { lines: lineTotals, excise, net: gross.minus(vat).toNumber(), vat: vat.toNumber(), gross: gross.toNumber() };
+  }
+  const net = exact.net.round(2);
+  return { lines: lineTotals, excise, net: net.toNumber(), vat: vat.toNumber(), gross: net.plus(vat).toNumber() };
+}
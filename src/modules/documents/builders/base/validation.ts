@@ -0,0 +1,279 @@
+/**
+ * Builder Validation
+ *
+ * Collect-all validation used by `builder.validate()` and `builder.build()`.
+ * Builders report every problem of a draft at once, with the field path in both
+ * the builder (DX) structure and the Didox API payload, so a form can highlight
+ * all invalid fields in one pass.
+ */
+
+import { parseDidoxDate } from '../../../../utils/dates.js';
+import type { LocalizedName } from '../../documents.types.js';
+
+/**
+ * Issue severity
+ * - `error`: the document cannot be built; `build()` throws
+ * - `warning`: the document can be built but is probably not what was intended
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Machine-readable issue codes
+ * - `required`: the field is missing or empty
+ * - `min_items`: the list has fewer items than required
+ * - `invalid_tin`: not a 9-digit TIN or 14-digit PINFL
+ * - `invalid_date`: not a date (`YYYY-MM-DD` or `DD.MM.YYYY`)
+ * - `not_positive`: the number must be greater than zero
+ * - `negative`: the number must not be negative
+ * - `date_order`: the date is earlier than the date it must follow
+ * - `missing_vat_rate`: VAT is enabled but the line has no VAT rate (warning)
+ * - `same_party`: both parties have the same TIN (warning)
+ * - `no_changes`: a document derived from another one does not change anything
+ * - `not_additive`: an additional document cannot carry a reduction or other change of the original
+ */
+export type ValidationIssueCode =
+  | 'required'
+  | 'min_items'
+  | 'invalid_tin'
+  | 'invalid_date'
+  | 'not_positive'
+  | 'negative'
+  | 'date_order'
+  | 'missing_vat_rate'
+  | 'same_party'
+  | 'no_changes'
+  | 'not_additive';
+
+/**
+ * One problem found in a builder draft
+ */
+export interface ValidationIssue {
+  /**
+   * Path in the builder draft, e.g. `products[0].price`
+   */
+  path: string;
+
+  /**
+   * Path in the built API payload, e.g. `ProductList.Products[0].Summa`
+   */
+  apiPath: string;
+
+  severity: ValidationSeverity;
+  code: ValidationIssueCode;
+
+  /**
+   * English message
+   */
+  message: string;
+
+  /**
+   * Message in every language supported by Didox
+   */
+  messages: LocalizedName;
+}
+
+/**
+ * Result of `builder.validate()`
+ */
+export interface ValidationReport {
+  /**
+   * True when there are no errors (warnings do not make a draft invalid)
+   */
+  valid: boolean;
+
+  /**
+   * Every issue in the order the fields appear in the document
+   */
+  issues: ValidationIssue[];
+
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Message templates; `{field}` is replaced with the DX path, `{min}` and `{other}` with the issue parameters
+ */
+const MESSAGES: Record<ValidationIssueCode, LocalizedName> = {
+  required: {
+    ru: 'Поле {field} обязательно',
+    uz: '{field} maydoni majburiy',
+    en: '{field} is required'
+  },
+  min_items: {
+    ru: '{field}: требуется элементов не меньше {min}',
+    uz: '{field}: kamida {min} ta element kerak',
+    en: '{field} must contain at least {min} item(s)'
+  },
+  invalid_tin: {
+    ru: '{field}: ИНН должен состоять из 9 цифр (ПИНФЛ — из 14)',
+    uz: '{field}: STIR 9 ta raqamdan (JSHSHIR 14 ta raqamdan) iborat bo\'lishi kerak',
+    en: '{field} must be a 9-digit TIN or a 14-digit PINFL'
+  },
+  invalid_date: {
+    ru: '{field}: неверная дата (ожидается ГГГГ-ММ-ДД)',
+    uz: '{field}: sana noto\'g\'ri (YYYY-MM-DD kutilmoqda)',
+    en: '{field} must be a date (YYYY-MM-DD)'
+  },
+  not_positive: {
+    ru: '{field}: значение должно быть больше нуля',
+    uz: '{field}: qiymat noldan katta bo\'lishi kerak',
+    en: '{field} must be greater than zero'
+  },
+  negative: {
+    ru: '{field}: значение не может быть отрицательным',
+    uz: '{field}: qiymat manfiy bo\'lishi mumkin emas',
+    en: '{field} must not be negative'
+  },
+  date_order: {
+    ru: '{field}: дата не может быть раньше {other}',
+    uz: '{field}: sana {other} sanasidan oldin bo\'lishi mumkin emas',
+    en: '{field} must not be earlier than {other}'
+  },
+  missing_vat_rate: {
+    ru: '{field}: не указана ставка НДС, будет использовано 0%',
+    uz: '{field}: QQS stavkasi ko\'rsatilmagan, 0% qo\'llaniladi',
+    en: '{field} is not set; 0% VAT will be used'
+  },
+  same_party: {
+    ru: '{field}: совпадает с ИНН {other}',
+    uz: '{field}: {other} STIR bilan bir xil',
+    en: '{field} is the same as {other}'
+  },
+  no_changes: {
+    ru: '{field}: нет изменений относительно исходного документа',
+    uz: '{field}: asl hujjatga nisbatan o\'zgarishlar yo\'q',
+    en: '{field} does not change the original document'
+  },
+  not_additive: {
+    ru: '{field}: дополнительный документ не может уменьшать или изменять исходный, оформите исправленный',
+    uz: '{field}: qo\'shimcha hujjat asl hujjatni kamaytira yoki o\'zgartira olmaydi, tuzatilgan hujjat rasmiylashtiring',
+    en: '{field} reduces or changes the original, which an additional document cannot do; issue a corrected one'
+  }
+};
+
+/**
+ * Accumulates issues while a builder checks its draft
+ *
+ * The check methods return whether the value passed, so nested checks can be
+ * skipped when their parent is missing.
+ *
+ * @example
+ * ```typescript
+ * protected collectIssues(issues: ValidationCollector): void {
+ *   if (issues.required(this.payload.seller, 'seller', 'Seller')) {
+ *     issues.tin(this.payload.seller.tin, 'seller.tin', 'SellerTin');
+ *   }
+ * }
+ * ```
+ */
+export class ValidationCollector {
+  private readonly issues: ValidationIssue[] = [];
+
+  /**
+   * Add an issue
+   *
+   * @param params - Values for the `{min}` and `{other}` message placeholders
+   */
+  add(
+    severity: ValidationSeverity,
+    code: ValidationIssueCode,
+    path: string,
+    apiPath: string,
+    params: Record<string, string | number> = {}
+  ): void {
+    const values: Record<string, string | number> = { field: path, ...params };
+    const template = MESSAGES[code];
+    const format = (text: string) => text.replace(/\{(\w+)\}/g, (match, key: string) => String(values[key] ?? match));
+    const messages = { ru: format(template.ru), uz: format(template.uz), en: format(template.en) };
+
+    this.issues.push({ path, apiPath, severity, code, message: messages.en, messages });
+  }
+
+  /**
+   * Value must be present (not undefined, null, an empty or blank string)
+   */
+  required<T>(value: T, path: string, apiPath: string): value is NonNullable<T> {
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+      this.add('error', 'required', path, apiPath);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * List must have at least `min` items
+   */
+  minItems<T>(list: T[] | undefined, min: number, path: string, apiPath: string): list is T[] {
+    if (!Array.isArray(list) || list.length < min) {
+      this.add('error', 'min_items', path, apiPath, { min });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Value must be a 9-digit TIN or a 14-digit PINFL
+   */
+  tin(value: string | undefined, path: string, apiPath: string): boolean {
+    if (!this.required(value, path, apiPath)) {
+      return false;
+    }
+    if (!/^(\d{9}|\d{14})$/.test(value.trim())) {
+      this.add('error', 'invalid_tin', path, apiPath);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Value must be a date in a format Didox accepts
+   */
+  date(value: string | undefined, path: string, apiPath: string): boolean {
+    if (!this.required(value, path, apiPath)) {
+      return false;
+    }
+    if (!parseDidoxDate(value)) {
+      this.add('error', 'invalid_date', path, apiPath);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Value must be a number greater than zero
+   */
+  positive(value: number | undefined, path: string, apiPath: string): boolean {
+    if (!this.required(value, path, apiPath)) {
+      return false;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      this.add('error', 'not_positive', path, apiPath);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Value, when set, must be a number of zero or more
+   */
+  nonNegative(value: number | undefined, path: string, apiPath: string): boolean {
+    if (value === undefined) {
+      return true;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      this.add('error', 'negative', path, apiPath);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Issues collected so far, split by severity
+   */
+  report(): ValidationReport {
+    const issues = [...this.issues];
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+    return { valid: errors.length === 0, issues, errors, warnings };
+  }
+}
@@ -1,4 +1,5 @@
 import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
 
 /**
  * Contract Document Builder (Stub)
@@ -6,7 +7,9 @@ import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocument
  * Builder for creating contract documents.
  * This is a placeholder implementation that will be expanded in future stages.
  */
-class ContractBuilder extends BaseDocumentBuilder<any> {
+class ContractBuilder extends BaseDocumentBuilder<any, DocumentType.CONTRACT_NK> {
+  readonly docType = DocumentType.CONTRACT_NK;
+
   // TODO: Add contract-specific methods
 }
 
@@ -16,5 +19,5 @@ class ContractBuilder extends BaseDocumentBuilder<any> {
  * @param initial - Optional initial contract data
  * @returns Contract builder instance
  */
-export const contract: DocumentBuilderFactory<any> = (initial?) => 
+export const contract: DocumentBuilderFactory<any, DocumentType.CONTRACT_NK> = (initial?) => 
   new ContractBuilder(initial);
\ No newline at end of file
@@ -15,7 +15,10 @@
  */
 
 import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
-import { DidoxValidationError } from '../../../http/errors.js';
+import { DocumentType } from '../documents.enums.js';
+import { parseDidoxDate } from '../../../utils/dates.js';
+import { Decimal } from '../../../utils/decimal.js';
+import type { ValidationCollector } from './base/validation.js';
 
 /**
  * DX-friendly interface for agent passport information
@@ -325,7 +328,9 @@ export interface ApiEmpowermentPayload {
  *   .build();
  * ```
  */
-export class EmpowermentBuilder extends BaseDocumentBuilder<ApiEmpowermentPayload> {
+export class EmpowermentBuilder extends BaseDocumentBuilder<ApiEmpowermentPayload, DocumentType.EMPOWERMENT> {
+  readonly docType = DocumentType.EMPOWERMENT;
+
   private draft: Partial<EmpowermentDraft> = {
     products: []
   };
@@ -546,7 +551,7 @@ export class EmpowermentBuilder extends BaseDocumentBuilder<ApiEmpowermentPayloa
    * - HasExcise: false, HasVat: false (always)
    *
    * @returns Complete API payload ready for Didox submission
-   * @throws {DidoxValidationError} When required fields are missing or products list is empty
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    *
    * @example
    * ```typescript
@@ -562,32 +567,14 @@ export class EmpowermentBuilder extends BaseDocumentBuilder<ApiEmpowermentPayloa
    * ```
    */
   build(): ApiEmpowermentPayload & Record<string, any> {
-    // Validation
-    if (!this.draft.empowerment) {
-      throw new DidoxValidationError('Empowerment information is required');
-    }
-
-    if (!this.draft.agent) {
-      throw new DidoxValidationError('Agent information is required');
-    }
-
-    if (!this.draft.seller) {
-      throw new DidoxValidationError('Seller information is required');
-    }
-
-    if (!this.draft.buyer) {
-      throw new DidoxValidationError('Buyer information is required');
-    }
-
-    if (!this.draft.products || this.draft.products.length === 0) {
-      throw new DidoxValidationError('At least one product is required');
-    }
+    this.assertValid();
+    const draft = this.draft as EmpowermentDraft;
 
     // Transform contract (empty strings if not provided)
-    const contractDoc = this.draft.contract
+    const contractDoc = draft.contract
       ? {
-          ContractNo: this.draft.contract.no,
-          ContractDate: this.draft.contract.date
+          ContractNo: draft.contract.no,
+          ContractDate: draft.contract.date
         }
       : {
           ContractNo: '',
@@ -596,65 +583,65 @@ export class EmpowermentBuilder extends BaseDocumentBuilder<ApiEmpowermentPayloa
 
     // Transform agent passport (null defaults)
     const agentPassport = {
-      Number: this.draft.agent.passport?.number || null,
-      IssuedBy: this.draft.agent.passport?.issuedBy || null,
-      DateOfIssue: this.draft.agent.passport?.issueDate || null
+      Number: draft.agent.passport?.number || null,
+      IssuedBy: draft.agent.passport?.issuedBy || null,
+      DateOfIssue: draft.agent.passport?.issueDate || null
     };
 
     // Transform seller
     const seller = {
-      Name: this.draft.seller.name,
-      Address: this.draft.seller.address,
-      BankAccount: this.draft.seller.account,
-      BankId: this.draft.seller.bankId,
-      Director: this.draft.seller.director || '',
-      Accountant: this.draft.seller.accountant || '',
-      BranchCode: this.draft.seller.branchCode || '',
-      BranchName: this.draft.seller.branchName || ''
+      Name: draft.seller.name,
+      Address: draft.seller.address,
+      BankAccount: draft.seller.account,
+      BankId: draft.seller.bankId,
+      Director: draft.seller.director || '',
+      Accountant: draft.seller.accountant || '',
+      BranchCode: draft.seller.branchCode || '',
+      BranchName: draft.seller.branchName || ''
     };
 
     // Transform buyer
     const buyer = {
-      Name: this.draft.buyer.name,
-      Address: this.draft.buyer.address,
-      BankAccount: this.draft.buyer.account,
-      BankId: this.draft.buyer.bankId,
-      Director: this.draft.buyer.director || '',
-      Accountant: this.draft.buyer.accountant || '',
-      BranchCode: this.draft.buyer.branchCode || '',
-      BranchName: this.draft.buyer.branchName || ''
+      Name: draft.buyer.name,
+      Address: draft.buyer.address,
+      BankAccount: draft.buyer.account,
+      BankId: draft.buyer.bankId,
+      Director: draft.buyer.director || '',
+      Accountant: draft.buyer.accountant || '',
+      BranchCode: draft.buyer.branchCode || '',
+      BranchName: draft.buyer.branchName || ''
     };
 
     // Transform products with auto-increment OrdNo
-    const products = this.draft.products.map((product, index) => ({
+    const products = draft.products.map((product, index) => ({
       OrdNo: index + 1,
       CatalogCode: product.catalogCode,
       CatalogName: product.catalogName || '',
       Name: product.name,
       MeasureId: product.measureId,
-      Count: String(product.count) // Convert to string
+      Count: Decimal.from(product.count).toString() // Plain decimal string, never exponent notation (1e-7)
     }));
 
     // Build API payload
     const apiPayload: ApiEmpowermentPayload = {
       EmpowermentDoc: {
-        EmpowermentNo: this.draft.empowerment.no,
-        EmpowermentDateOfIssue: this.draft.empowerment.issueDate,
-        EmpowermentDateOfExpire: this.draft.empowerment.expireDate
+        EmpowermentNo: draft.empowerment.no,
+        EmpowermentDateOfIssue: draft.empowerment.issueDate,
+        EmpowermentDateOfExpire: draft.empowerment.expireDate
       },
       ContractDoc: contractDoc,
       Agent: {
-        JobTitle: this.draft.agent.jobTitle || null,
-        Fio: this.draft.agent.fio,
+        JobTitle: draft.agent.jobTitle || null,
+        Fio: draft.agent.fio,
         Passport: agentPassport,
-        AgentTin: this.draft.agent.pinfl
+        AgentTin: draft.agent.pinfl
       },
-      SellerTin: this.draft.seller.tin,
+      SellerTin: draft.seller.tin,
       Seller: seller,
-      BuyerTin: this.draft.buyer.tin,
+      BuyerTin: draft.buyer.tin,
       Buyer: buyer,
       ProductList: {
-        Tin: this.draft.seller.tin, // ProductList.Tin = SellerTin
+        Tin: draft.seller.tin, // ProductList.Tin = SellerTin
         HasExcise: false,
         HasVat: false,
         Products: products
@@ -666,6 +653,59 @@ export class EmpowermentBuilder extends BaseDocumentBuilder<ApiEmpowermentPayloa
     return this.deepMerge(apiPayload, basePayload) as ApiEmpowermentPayload & Record<string, any>;
   }
 
+  /**
+   * Check empowerment details, agent, parties and products
+   *
+   * @param issues - Collector receiving the issues (see `validate()`)
+   */
+  protected collectIssues(issues: ValidationCollector): void {
+    const { empowerment, contract, agent, seller, buyer, products } = this.draft;
+
+    if (issues.required(empowerment, 'empowerment', 'EmpowermentDoc')) {
+      issues.required(empowerment.no, 'empowerment.no', 'EmpowermentDoc.EmpowermentNo');
+      const issued = issues.date(empowerment.issueDate, 'empowerment.issueDate', 'EmpowermentDoc.EmpowermentDateOfIssue');
+      const expires = issues.date(empowerment.expireDate, 'empowerment.expireDate', 'EmpowermentDoc.EmpowermentDateOfExpire');
+      if (issued && expires && parseDidoxDate(empowerment.expireDate)! < parseDidoxDate(empowerment.issueDate)!) {
+        issues.add('error', 'date_order', 'empowerment.expireDate', 'EmpowermentDoc.EmpowermentDateOfExpire', {
+          other: 'empowerment.issueDate'
+        });
+      }
+    }
+
+    if (contract) {
+      issues.required(contract.no, 'contract.no', 'ContractDoc.ContractNo');
+      issues.date(contract.date, 'contract.date', 'ContractDoc.ContractDate');
+    }
+
+    if (issues.required(agent, 'agent', 'Agent')) {
+      issues.required(agent.fio, 'agent.fio', 'Agent.Fio');
+      issues.tin(agent.pinfl, 'agent.pinfl', 'Agent.AgentTin');
+    }
+
+    const party = (data: CompanyDraft | undefined, path: string, apiPath: string) => {
+      if (issues.required(data, path, apiPath)) {
+        issues.tin(data.tin, `${path}.tin`, `${apiPath}Tin`);
+        issues.required(data.name, `${path}.name`, `${apiPath}.Name`);
+        issues.required(data.account, `${path}.account`, `${apiPath}.BankAccount`);
+        issues.required(data.bankId, `${path}.bankId`, `${apiPath}.BankId`);
+        issues.required(data.address, `${path}.address`, `${apiPath}.Address`);
+      }
+    };
+    party(seller, 'seller', 'Seller');
+    party(buyer, 'buyer', 'Buyer');
+
+    if (issues.minItems(products, 1, 'products', 'ProductList.Products')) {
+      products.forEach((product, index) => {
+        const path = `products[${index}]`;
+        const apiPath = `ProductList.Products[${index}]`;
+        issues.required(product.name, `${path}.name`, `${apiPath}.Name`);
+        issues.required(product.catalogCode, `${path}.catalogCode`, `${apiPath}.CatalogCode`);
+        issues.required(product.measureId, `${path}.measureId`, `${apiPath}.MeasureId`);
+        issues.positive(product.count, `${path}.count`, `${apiPath}.Count`);
+      });
+    }
+  }
+
   /**
    * Deep merge helper for combining API payload with raw data
    * 
@@ -82,7 +82,8 @@
  */
 
 import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
-import { DidoxValidationError } from '../../../http/errors.js';
+import { DocumentType } from '../documents.enums.js';
+import type { ValidationCollector } from './base/validation.js';
 
 /**
  * DX-friendly interface for founders protocol document draft
@@ -249,7 +250,12 @@ export interface ApiFoundersProtocolPayload {
  *   .build();
  * ```
  */
-export class FoundersProtocolBuilder extends BaseDocumentBuilder<ApiFoundersProtocolPayload> {
+export class FoundersProtocolBuilder extends BaseDocumentBuilder<
+  ApiFoundersProtocolPayload,
+  DocumentType.FOUNDERS_PROTOCOL
+> {
+  readonly docType = DocumentType.FOUNDERS_PROTOCOL;
+
   private draft: Partial<FoundersProtocolDraft> = {
     participants: [],
     parts: []
@@ -439,7 +445,7 @@ export class FoundersProtocolBuilder extends BaseDocumentBuilder<ApiFoundersProt
    * - Removes undefined values
    *
    * @returns Complete API payload ready for Didox submission
-   * @throws {DidoxValidationError} When required fields are missing
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    *
    * @example
    * ```typescript
@@ -454,44 +460,30 @@ export class FoundersProtocolBuilder extends BaseDocumentBuilder<ApiFoundersProt
    * ```
    */
   build(): ApiFoundersProtocolPayload & Record<string, any> {
-    // Validation
-    if (!this.draft.document) {
-      throw new DidoxValidationError('Document information is required');
-    }
-
-    if (!this.draft.company) {
-      throw new DidoxValidationError('Company information is required');
-    }
-
-    if (!this.draft.participants || this.draft.participants.length === 0) {
-      throw new DidoxValidationError('At least one participant is required');
-    }
-
-    if (!this.draft.parts || this.draft.parts.length === 0) {
-      throw new DidoxValidationError('At least one agenda part is required');
-    }
+    this.assertValid();
+    const draft = this.draft as FoundersProtocolDraft;
 
     // Build API payload and assign to parent's payload
     const apiPayload: ApiFoundersProtocolPayload = {
       documentdoc: {
-        documentname: this.draft.document.name,
-        documentno: this.draft.document.no,
-        documentplace: this.draft.document.place,
-        documentdate: this.draft.document.date
+        documentname: draft.document.name,
+        documentno: draft.document.no,
+        documentplace: draft.document.place,
+        documentdate: draft.document.date
       },
       company: {
-        tin: this.draft.company.tin,
-        name: this.draft.company.name,
-        fiztin: this.draft.company.fizTin,
-        fio: this.draft.company.fio,
-        bankid: this.draft.company.bankId || '',
-        oked: this.draft.company.oked || 0,
-        account: this.draft.company.account || '',
-        address: this.draft.company.address,
-        workphone: this.draft.company.workPhone || '',
-        mobile: this.draft.company.mobile || ''
+        tin: draft.company.tin,
+        name: draft.company.name,
+        fiztin: draft.company.fizTin,
+        fio: draft.company.fio,
+        bankid: draft.company.bankId || '',
+        oked: draft.company.oked || 0,
+        account: draft.company.account || '',
+        address: draft.company.address,
+        workphone: draft.company.workPhone || '',
+        mobile: draft.company.mobile || ''
       },
-      participants: this.draft.participants.map(participant => ({
+      participants: draft.participants.map(participant => ({
         tin: participant.tin,
         name: participant.name,
         companyTaxId: participant.companyTin || '',
@@ -501,7 +493,7 @@ export class FoundersProtocolBuilder extends BaseDocumentBuilder<ApiFoundersProt
         ischairman: participant.chairman || false,
         issecretary: participant.secretary || false
       })),
-      parts: this.draft.parts.map((part, index) => ({
+      parts: draft.parts.map((part, index) => ({
         ordno: index + 1,
         title: part.title,
         body: part.body
@@ -514,6 +506,46 @@ export class FoundersProtocolBuilder extends BaseDocumentBuilder<ApiFoundersProt
     // Return with raw data applied
     return super.build() as ApiFoundersProtocolPayload & Record<string, any>;
   }
+
+  /**
+   * Check document details, company, participants and agenda
+   *
+   * @param issues - Collector receiving the issues (see `validate()`)
+   */
+  protected collectIssues(issues: ValidationCollector): void {
+    const { document, company, participants, parts } = this.draft;
+
+    if (issues.required(document, 'document', 'documentdoc')) {
+      issues.required(document.name, 'document.name', 'documentdoc.documentname');
+      issues.required(document.no, 'document.no', 'documentdoc.documentno');
+      issues.required(document.place, 'document.place', 'documentdoc.documentplace');
+      issues.date(document.date, 'document.date', 'documentdoc.documentdate');
+    }
+
+    if (issues.required(company, 'company', 'company')) {
+      issues.tin(company.tin, 'company.tin', 'company.tin');
+      issues.required(company.name, 'company.name', 'company.name');
+      issues.tin(company.fizTin, 'company.fizTin', 'company.fiztin');
+      issues.required(company.fio, 'company.fio', 'company.fio');
+      issues.required(company.address, 'company.address', 'company.address');
+    }
+
+    if (issues.minItems(participants, 1, 'participants', 'participants')) {
+      participants.forEach((participant, index) => {
+        const path = `participants[${index}]`;
+        issues.tin(participant.tin, `${path}.tin`, `${path}.tin`);
+        issues.required(participant.name, `${path}.name`, `${path}.name`);
+        issues.required(participant.share, `${path}.share`, `${path}.share`);
+      });
+    }
+
+    if (issues.minItems(parts, 1, 'parts', 'parts')) {
+      parts.forEach((part, index) => {
+        issues.required(part.title, `parts[${index}].title`, `parts[${index}].title`);
+        issues.required(part.body, `parts[${index}].body`, `parts[${index}].body`);
+      });
+    }
+  }
 }
 
 /**
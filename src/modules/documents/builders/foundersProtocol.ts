@@ -1,4 +1,5 @@
 import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
 
 /**
  * Founders Protocol Document Builder (Stub)
@@ -6,7 +7,9 @@ import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocument
  * Builder for creating founders protocol documents.
  * This is a placeholder implementation that will be expanded in future stages.
  */
-class FoundersProtocolBuilder extends BaseDocumentBuilder<any> {
+class FoundersProtocolBuilder extends BaseDocumentBuilder<any, DocumentType.FOUNDERS_PROTOCOL> {
+  readonly docType = DocumentType.FOUNDERS_PROTOCOL;
+
   // TODO: Add founders protocol methods
 }
 
@@ -16,5 +19,5 @@ class FoundersProtocolBuilder extends BaseDocumentBuilder<any> {
  * @param initial - Optional initial founders protocol data
  * @returns Founders protocol builder instance
  */
-export const foundersProtocol: DocumentBuilderFactory<any> = (initial?) => 
+export const foundersProtocol: DocumentBuilderFactory<any, DocumentType.FOUNDERS_PROTOCOL> = (initial?) => 
   new FoundersProtocolBuilder(initial);
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
 
 /**
  * Hybrid Invoice Document Builder (Stub)
@@ -6,7 +7,9 @@ import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocument
  * Builder for creating hybrid invoice documents.
  * This is a placeholder implementation that will be expanded in future stages.
  */
-class HybridInvoiceBuilder extends BaseDocumentBuilder<any> {
+class HybridInvoiceBuilder extends BaseDocumentBuilder<any, DocumentType.HYBRID_FACTURA> {
+  readonly docType = DocumentType.HYBRID_FACTURA;
+
   // TODO: Add hybrid invoice methods
 }
 
@@ -16,5 +19,5 @@ class HybridInvoiceBuilder extends BaseDocumentBuilder<any> {
  * @param initial - Optional initial hybrid invoice data
  * @returns Hybrid invoice builder instance
  */
-export const hybridInvoice: DocumentBuilderFactory<any> = (initial?) => 
+export const hybridInvoice: DocumentBuilderFactory<any, DocumentType.HYBRID_FACTURA> = (initial?) => 
   new HybridInvoiceBuilder(initial);
\ No newline at end of file
@@ -22,12 +22,43 @@ import { multiParty } from './multi-party.js';
 
 // Export base classes and types for extensibility
 export { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
+
+// Export concrete builder classes
+export { InvoiceBuilder } from './invoice.js';
+export { ActBuilder } from './act.js';
+export { TtnBuilder } from './ttn.js';
+export { EmpowermentBuilder } from './empowerment.js';
+export { ArbitraryDocumentBuilder } from './arbitrary.js';
+export { MultiPartyDocumentBuilder } from './multi-party.js';
+export { FoundersProtocolBuilder } from './founders-protocol.js';
+export { LetterNKBuilder } from './letter-nk.js';
 export type { DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+export { ValidationCollector } from './base/validation.js';
+export { calculateTotals } from './base/pricing.js';
+export type {
+  DocumentTotals,
+  LineTotals,
+  PricedLine,
+  PricingOptions,
+  RoundingStrategy
+} from './base/pricing.js';
+export type {
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+  ValidationSeverity
+} from './base/validation.js';
 
 // Export builder-specific types
 export type {
   InvoiceDraft,
   InvoiceProductDraft,
+  InvoiceLgotaDraft,
+  InvoiceCommittentDraft,
+  InvoiceMarksDraft,
+  InvoiceOriginalLine,
+  InvoiceLineChange,
+  InvoiceLineDelta,
   ApiInvoicePayload
 } from './invoice.js';
 
@@ -42,7 +73,8 @@ export type {
   ProductGroupDraft,
   TtnProductDraft,
   ApiTtnPayload,
-  Party
+  Party,
+  TtnTotals
 } from './ttn.js';
 
 export type {
@@ -95,6 +127,9 @@ export type {
  * 
  * await client.documents.createDraft('002', invoicePayload);
  * 
+ * // Or let the builder pick the document type
+ * await client.documents.create(builders.act().act('ACT-001', '2025-02-07'));
+ * 
  * // Create a transport waybill
  * const ttnPayload = builders.ttn()
  *   .raw({ transportInfo: { vehicleNumber: '01A123BC' } })
@@ -111,13 +146,13 @@ export const builders = {
   invoice,
 
   /**
-   * Pharmacy invoice document builder
+   * Pharmacy invoice document builder (docType: '008')
    * For creating pharmacy-specific invoices
    */
   invoicePharm,
 
   /**
-   * Hybrid invoice document builder
+   * Hybrid invoice document builder (docType: '023')
    * For creating hybrid invoices
    */
   hybridInvoice,
@@ -129,13 +164,13 @@ export const builders = {
   ttn,
 
   /**
-   * Act document builder (docType: '075')
+   * Act document builder (docType: '005')
    * For creating act of work completed documents
    */
   act,
 
   /**
-   * Contract document builder
+   * Contract document builder (docType: '007')
    * For creating contract documents
    */
   contract,
@@ -155,13 +190,13 @@ export const builders = {
   arbitrary,
 
   /**
-   * Verification act document builder
+   * Verification act document builder (docType: '052')
    * For creating verification act documents
    */
   verificationAct,
 
   /**
-   * Acceptance transfer document builder
+   * Acceptance transfer document builder (docType: '054')
    * For creating acceptance transfer documents
    */
   acceptanceTransfer,
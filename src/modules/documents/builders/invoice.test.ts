@@ -0,0 +1,147 @@
+import { DidoxBuilderValidationError, DidoxValidationError } from '../../../http/errors.js';
+import { DocumentType, FacturaType } from '../documents.enums.js';
+import { invoice } from './invoice.js';
+import type { InvoiceProductDraft } from './invoice.js';
+
+const party = (tin: string) => ({
+  tin,
+  name: `Company ${tin}`,
+  vatRegCode: '326060012345',
+  account: '20208000900123456001',
+  bankId: '00014',
+  address: 'Tashkent'
+});
+
+const product = (name: string, catalogCode: string, quantity: number, price: number): InvoiceProductDraft => ({
+  name,
+  catalogCode,
+  packageCode: '1502963',
+  quantity,
+  price,
+  vatRate: 12,
+  origin: 1
+});
+
+/**
+ * `documents.getById()` response of an issued invoice with two lines
+ */
+function issuedInvoice() {
+  const json = invoice()
+    .factura('INV-1', '2025-02-07')
+    .contract('C-1', '2025-01-10')
+    .seller(party('123456789'))
+    .buyer(party('987654321'))
+    .flags({ hasVat: true })
+    .addProduct(product('Cement', '10112006002000000', 10, 15000))
+    .addProduct(product('Sand', '10112006003000000', 5, 1000))
+    .build();
+
+  return { document: { doc_id: 'DOC-1', doctype: DocumentType.FACTURA }, json };
+}
+
+describe('InvoiceBuilder.correctionOf', () => {
+  it('references the original invoice and copies its lines', () => {
+    const payload = invoice().correctionOf(issuedInvoice()).factura('INV-1/1', '2025-02-10').build();
+
+    expect(payload.FacturaType).toBe(FacturaType.CORRECTED);
+    expect(payload.OldFacturaDoc).toMatchObject({ OldFacturaId: 'DOC-1', OldFacturaNo: 'INV-1', OldFacturaDate: '2025-02-07' });
+    expect(payload.ProductList.Products.map(line => [line.Name, line.Count, line.Summa])).toEqual([
+      ['Cement', 10, 15000],
+      ['Sand', 5, 1000]
+    ]);
+  });
+
+  it('reports line deltas as new minus original amounts', () => {
+    const builder = invoice()
+      .correctionOf(issuedInvoice())
+      .updateProduct(0, { quantity: 8 })
+      .removeProduct(1)
+      .addProduct(product('Gravel', '10112006004000000', 1, 500));
+
+    expect(builder.deltas()).toEqual([
+      { change: 'changed', index: 0, originalOrdNo: 1, name: 'Cement', quantity: -2, unitPrice: 0, excise: 0, net: -30000, vat: -3600, gross: -33600 },
+      { change: 'added', index: 1, name: 'Gravel', quantity: 1, unitPrice: 500, excise: 0, net: 500, vat: 60, gross: 560 },
+      { change: 'removed', originalOrdNo: 2, name: 'Sand', quantity: -5, unitPrice: -1000, excise: 0, net: -5000, vat: -600, gross: -5600 }
+    ]);
+  });
+
+  it('marks untouched lines as unchanged', () => {
+    const deltas = invoice().correctionOf(issuedInvoice()).updateProduct(1, { price: 1200 }).deltas();
+
+    expect(deltas.map(delta => delta.change)).toEqual(['unchanged', 'changed']);
+    expect(deltas[1]).toMatchObject({ quantity: 0, unitPrice: 200, net: 1000, vat: 120, gross: 1120 });
+  });
+
+  it('rejects documents that are not invoices', () => {
+    expect(() => invoice().correctionOf({ document: { doc_id: 'X', doctype: DocumentType.ACT }, json: {} }))
+      .toThrow(DidoxValidationError);
+  });
+});
+
+describe('InvoiceBuilder.adjustmentOf', () => {
+  const lines = (builder: ReturnType<typeof invoice>) => {
+    const payload = builder.factura('INV-1/A1', '2025-02-10').build();
+    return {
+      type: payload.FacturaType,
+      products: payload.ProductList.Products.map(line => [line.Name, line.Count, line.Summa, line.DeliverySum, line.VatSum])
+    };
+  };
+
+  it('sends a price increase as the original quantity at the price difference', () => {
+    expect(lines(invoice().adjustmentOf(issuedInvoice()).updateProduct(0, { price: 16000 }))).toEqual({
+      type: FacturaType.ADDITIONAL,
+      products: [['Cement', 10, 1000, 10000, 1200]]
+    });
+  });
+
+  it('sends a quantity increase as the added quantity at the new price', () => {
+    expect(lines(invoice().adjustmentOf(issuedInvoice()).updateProduct(1, { quantity: 7 }))).toEqual({
+      type: FacturaType.ADDITIONAL,
+      products: [['Sand', 2, 1000, 2000, 240]]
+    });
+  });
+
+  it('splits a combined increase into self-consistent lines and keeps new products', () => {
+    const result = lines(invoice()
+      .adjustmentOf(issuedInvoice())
+      .updateProduct(0, { quantity: 12, price: 16000 })
+      .addProduct(product('Gravel', '10112006004000000', 1, 500)));
+
+    expect(result.type).toBe(FacturaType.ADDITIONAL);
+    expect(result.products).toEqual([
+      ['Cement', 10, 1000, 10000, 1200],
+      ['Cement', 2, 16000, 32000, 3840],
+      ['Gravel', 1, 500, 500, 60]
+    ]);
+    for (const [, count, price, amount] of result.products) {
+      expect(Number(count) * Number(price)).toBe(amount);
+    }
+  });
+
+  it('falls back to a corrected invoice with full lines for reductions', () => {
+    expect(lines(invoice().adjustmentOf(issuedInvoice()).updateProduct(0, { quantity: 8 }))).toEqual({
+      type: FacturaType.CORRECTED,
+      products: [
+        ['Cement', 8, 15000, 120000, 14400],
+        ['Sand', 5, 1000, 5000, 600]
+      ]
+    });
+  });
+
+  it('rejects an adjustment without changes', () => {
+    const report = invoice().adjustmentOf(issuedInvoice()).factura('INV-1/A1', '2025-02-10').validate();
+
+    expect(report.errors.map(issue => issue.code)).toContain('no_changes');
+  });
+
+  it('rejects reductions when an additional invoice is forced', () => {
+    const builder = invoice()
+      .adjustmentOf(issuedInvoice())
+      .factura('INV-1/A1', '2025-02-10')
+      .removeProduct(1)
+      .facturaType(FacturaType.ADDITIONAL);
+
+    expect(builder.validate().errors.map(issue => `${issue.path} ${issue.code}`)).toEqual(['products not_additive']);
+    expect(() => builder.build()).toThrow(DidoxBuilderValidationError);
+  });
+});
@@ -1,4 +1,11 @@
-import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
+import { DocumentType, FacturaType } from '../documents.enums.js';
+import { DidoxValidationError } from '../../../http/errors.js';
+import { Decimal } from '../../../utils/decimal.js';
+import { calculateTotals } from './base/pricing.js';
+import type { DocumentTotals, LineTotals, PricingOptions } from './base/pricing.js';
+import type { ValidationCollector } from './base/validation.js';
+import type { RawDocumentResponse } from '../documents.types.js';
 
 /**
  * DX-friendly Invoice Draft interface
@@ -7,6 +14,9 @@ import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocument
  * This gets transformed to Didox API JSON format in build().
  */
 export interface InvoiceDraft {
+  /** Invoice type (defaults to FacturaType.STANDARD) */
+  facturaType?: FacturaType;
+
   /** Invoice document information */
   factura: {
     no: string;
@@ -42,13 +52,29 @@ export interface InvoiceDraft {
   /** List of products/services */
   products: InvoiceProductDraft[];
 
-  /** Optional invoice flags */
+  /** Optional invoice flags; excise, lgota and committent default to whether any product uses them */
   flags?: {
     hasVat?: boolean;
     hasExcise?: boolean;
     hasLgota?: boolean;
     hasCommittent?: boolean;
   };
+
+  /** Optional rounding strategy and price basis */
+  pricing?: PricingOptions;
+
+  /** Invoice this one corrects or supplements (required for corrected and additional invoices) */
+  oldFactura?: {
+    id: string;
+    no: string;
+    date: string;
+  };
+
+  /** Lines of the original invoice as issued, compared by `deltas()` */
+  originalLines?: InvoiceOriginalLine[];
+
+  /** Send only the per-line differences to the original (adjustment invoices) */
+  deltasOnly?: boolean;
 }
 
 /**
@@ -63,18 +89,110 @@ export interface InvoiceProductDraft {
   catalogCode: string;
   /** Optional catalog name */
   catalogName?: string;
-  /** Package code */
-  packageCode: string;
+  /** Package code (required unless `measureId` is set) */
+  packageCode?: string;
   /** Package name */
-  packageName: string;
+  packageName?: string;
+  /** Unit of measure ID from the Didox measures directory */
+  measureId?: number;
+  /** Product barcode */
+  barcode?: string;
   /** Quantity */
   quantity: number;
-  /** Unit price */
+  /** Unit price (without VAT unless `pricing({ pricesIncludeVat: true })`) */
   price: number;
-  /** VAT rate (optional) */
+  /** VAT rate (optional); with a benefit, the rate the benefit waives */
   vatRate?: number;
+  /** Excise rate in percent of quantity × price */
+  exciseRate?: number;
+  /** Excise amount of the line (overrides `exciseRate`) */
+  exciseSum?: number;
+  /** VAT benefit (lgota); the line is billed without VAT */
+  lgota?: InvoiceLgotaDraft;
+  /** Committent the product is sold for (commission trade) */
+  committent?: InvoiceCommittentDraft;
+  /** Marking codes of labelled goods */
+  marks?: InvoiceMarksDraft;
   /** Origin code */
   origin: number;
+  /** Line number (`OrdNo`) of the original invoice this product replaces; set by `correctionOf()` and `adjustmentOf()` */
+  originalOrdNo?: number;
+}
+
+/**
+ * VAT benefit (lgota) of an invoice line
+ */
+export interface InvoiceLgotaDraft {
+  /** Benefit ID from the Didox benefits directory */
+  id: number;
+  /** Benefit name */
+  name: string;
+  /** 1 - exemption from VAT (default), 2 - zero VAT rate */
+  type?: 1 | 2;
+  /** Waived VAT amount (defaults to quantity × price × `vatRate`) */
+  vatSum?: number;
+}
+
+/**
+ * Committent of an invoice line sold under a commission agreement
+ */
+export interface InvoiceCommittentDraft {
+  /** Committent TIN or PINFL */
+  tin: string;
+  name: string;
+  vatRegCode?: string;
+  vatRegStatus?: number;
+}
+
+/**
+ * Marking codes of an invoice line
+ */
+export interface InvoiceMarksDraft {
+  /** Marked product type */
+  productType?: number;
+  /** Identification codes of individual items (KIZ) */
+  kiz?: string[];
+  /** Group package codes (NomUpak) */
+  groupPackages?: string[];
+  /** Transport package codes (IdentTransUpak) */
+  transportPackages?: string[];
+}
+
+/**
+ * Line of the invoice an invoice is derived from
+ */
+export interface InvoiceOriginalLine {
+  /** Line number (`OrdNo`) in the original invoice */
+  ordNo: number;
+  /** Product as read from the original invoice */
+  product: InvoiceProductDraft;
+  /** Amounts as issued */
+  amounts: LineTotals;
+}
+
+/**
+ * How a line differs from the original invoice
+ */
+export type InvoiceLineChange = 'added' | 'changed' | 'removed' | 'unchanged';
+
+/**
+ * Difference of one line to the original invoice
+ * 
+ * Amounts are new minus original values, so reductions are negative.
+ */
+export interface InvoiceLineDelta {
+  change: InvoiceLineChange;
+  /** Index in the builder products (absent for removed lines) */
+  index?: number;
+  /** Line number in the original invoice (absent for added lines) */
+  originalOrdNo?: number;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  excise: number;
+  net: number;
+  vat: number;
+  gross: number;
 }
 
 /**
@@ -89,6 +207,11 @@ export interface ApiInvoicePayload {
     FacturaNo: string;
     FacturaDate: string;
   };
+  OldFacturaDoc?: {
+    OldFacturaId: string;
+    OldFacturaNo: string;
+    OldFacturaDate: string;
+  };
   ContractDoc?: {
     ContractNo: string;
     ContractDate: string;
@@ -117,17 +240,36 @@ export interface ApiInvoicePayload {
     HasCommittent: boolean;
     Products: {
       OrdNo: number;
+      CommittentTin?: string;
+      CommittentName?: string;
+      CommittentVatRegCode?: string;
+      CommittentVatRegStatus?: number;
       Name: string;
       CatalogCode: string;
-      PackageCode: string;
-      PackageName: string;
+      CatalogName: string;
+      Marks?: {
+        ProductType?: number;
+        KIZ?: string[];
+        NomUpak?: string[];
+        IdentTransUpak?: string[];
+      };
+      Barcode?: string;
+      MeasureId?: number;
+      PackageCode?: string;
+      PackageName?: string;
       Count: number;
       Summa: number;
+      ExciseRate?: number;
+      ExciseSum?: number;
       DeliverySum: number;
       VatRate: number;
       VatSum: number;
       DeliverySumWithVat: number;
       WithoutVat: boolean;
+      LgotaId?: number;
+      LgotaName?: string;
+      LgotaType?: number;
+      LgotaVatSum?: number;
       Origin: number;
     }[];
   };
@@ -154,7 +296,9 @@ export interface ApiInvoicePayload {
  * await client.documents.createDraft('002', payload);
  * ```
  */
-class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
+export class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft, DocumentType.FACTURA, ApiInvoicePayload> {
+  readonly docType = DocumentType.FACTURA;
+
   /**
    * Set invoice document information
    * 
@@ -176,6 +320,22 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
     return this;
   }
 
+  /**
+   * Set invoice type (optional, defaults to FacturaType.STANDARD)
+   * 
+   * @param type - Invoice type
+   * @returns Builder instance for chaining
+   * 
+   * @example
+   * ```typescript
+   * builder.facturaType(FacturaType.EXPENSE_REIMBURSEMENT)
+   * ```
+   */
+  facturaType(type: FacturaType): this {
+    this.payload.facturaType = type;
+    return this;
+  }
+
   /**
    * Set contract reference (optional)
    * 
@@ -193,6 +353,106 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
     return this;
   }
 
+  /**
+   * Set the invoice this one corrects or supplements
+   * 
+   * Set automatically by `correctionOf()`, `additionalTo()` and `adjustmentOf()`.
+   * 
+   * @param id - Didox ID of the original invoice (`FacturaId`)
+   * @param no - Original invoice number
+   * @param date - Original invoice date (YYYY-MM-DD format)
+   * @returns Builder instance for chaining
+   * 
+   * @example
+   * ```typescript
+   * builder.oldFactura('66E2A3B1C4D5E6F7A8B9C0D1', 'INV-001', '2025-02-07')
+   * ```
+   */
+  oldFactura(id: string, no: string, date: string): this {
+    this.payload.oldFactura = { id, no, date };
+    return this;
+  }
+
+  /**
+   * Start a corrected invoice (исправленный) replacing an existing one
+   * 
+   * Prefills contract, parties, VAT flag and products from the original and
+   * references it in `OldFacturaDoc`. Change the products with
+   * `updateProduct()`, `removeProduct()` and `addProduct()`; `deltas()`
+   * shows what changed. The corrected invoice needs its own number and date.
+   * 
+   * @param original - `documents.getById()` response of the original invoice (or its `json` payload)
+   * @returns Builder instance for chaining
+   * @throws {DidoxValidationError} When the document is not an invoice
+   * 
+   * @example
+   * ```typescript
+   * const original = await client.documents.getById(id);
+   * 
+   * const payload = builders.invoice()
+   *   .correctionOf(original)
+   *   .factura('INV-001/1', '2025-02-10')
+   *   .updateProduct(0, { quantity: 8 })
+   *   .build();
+   * ```
+   */
+  correctionOf(original: RawDocumentResponse): this {
+    return this.deriveFrom(original, FacturaType.CORRECTED, true);
+  }
+
+  /**
+   * Start an additional invoice (дополнительный) for goods or services supplementing an existing invoice
+   * 
+   * Prefills contract, parties and VAT flag and references the original in
+   * `OldFacturaDoc`; add the additional products with `addProduct()`.
+   * 
+   * @param original - `documents.getById()` response of the original invoice (or its `json` payload)
+   * @returns Builder instance for chaining
+   * @throws {DidoxValidationError} When the document is not an invoice
+   * 
+   * @example
+   * ```typescript
+   * builders.invoice()
+   *   .additionalTo(original)
+   *   .factura('INV-001/D1', '2025-02-10')
+   *   .addProduct({ name: 'Доставка', catalogCode: '10112006002000000', packageCode: '1502963', quantity: 1, price: 50000, vatRate: 12, origin: 4 })
+   * ```
+   */
+  additionalTo(original: RawDocumentResponse): this {
+    return this.deriveFrom(original, FacturaType.ADDITIONAL, false);
+  }
+
+  /**
+   * Start an adjustment of an existing invoice, issued in the form its changes allow
+   * 
+   * Prefills like `correctionOf()`. When the changes only add to the original
+   * (higher quantities or prices, new products), `build()` sends an additional
+   * invoice (`FacturaType.ADDITIONAL`) with just the additions: a price increase
+   * as the original quantity at the price difference, a quantity increase as the
+   * added quantity at the new price. Reductions, removed lines and other changes
+   * cannot be added, so the adjustment is then sent as a corrected invoice
+   * (`FacturaType.CORRECTED`) with all lines at their new values.
+   * 
+   * @param original - `documents.getById()` response of the original invoice (or its `json` payload)
+   * @returns Builder instance for chaining
+   * @throws {DidoxValidationError} When the document is not an invoice
+   * 
+   * @example
+   * ```typescript
+   * // Price of the second line (10 pcs) raised from 15000 to 16000
+   * builders.invoice()
+   *   .adjustmentOf(original)
+   *   .factura('INV-001/A1', '2025-02-10')
+   *   .updateProduct(1, { price: 16000 })
+   *   .build(); // FacturaType 1, one line: Count 10, Summa 1000, DeliverySum 10000
+   * ```
+   */
+  adjustmentOf(original: RawDocumentResponse): this {
+    this.deriveFrom(original, undefined, true);
+    this.payload.deltasOnly = true;
+    return this;
+  }
+
   /**
    * Set seller organization details
    * 
@@ -289,6 +549,37 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
     return this;
   }
 
+  /**
+   * Change fields of a product
+   * 
+   * @param index - Product index (0-based)
+   * @param changes - Fields to replace
+   * @returns Builder instance for chaining
+   * @throws {DidoxValidationError} When there is no product at the index
+   * 
+   * @example
+   * ```typescript
+   * builder.updateProduct(0, { quantity: 8, price: 14500 })
+   * ```
+   */
+  updateProduct(index: number, changes: Partial<InvoiceProductDraft>): this {
+    const products = this.productsAt(index);
+    products[index] = { ...products[index]!, ...changes };
+    return this;
+  }
+
+  /**
+   * Remove a product
+   * 
+   * @param index - Product index (0-based)
+   * @returns Builder instance for chaining
+   * @throws {DidoxValidationError} When there is no product at the index
+   */
+  removeProduct(index: number): this {
+    this.productsAt(index).splice(index, 1);
+    return this;
+  }
+
   /**
    * Set invoice flags (optional)
    * 
@@ -310,6 +601,124 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
     return this;
   }
 
+  /**
+   * Set rounding strategy and price basis (optional)
+   * 
+   * @param options - Pricing settings
+   * @returns Builder instance for chaining
+   * 
+   * @example
+   * ```typescript
+   * // Prices include 12% VAT; totals are rounded once per document
+   * builder.pricing({ pricesIncludeVat: true, rounding: 'document' })
+   * ```
+   */
+  pricing(options: PricingOptions): this {
+    this.payload.pricing = options;
+    return this;
+  }
+
+  /**
+   * Compute line and document amounts without building
+   * 
+   * Uses the same calculation as `build()`; VAT is applied only when
+   * `flags({ hasVat: true })` is set and the line has no benefit (lgota).
+   * Excise is part of the amount without VAT.
+   * 
+   * @returns Amounts per product and for the invoice, rounded to 2 decimals
+   * 
+   * @example
+   * ```typescript
+   * const { net, vat, gross } = builder.totals();
+   * ```
+   */
+  totals(): DocumentTotals {
+    return this.totalsOf(this.payload.products ?? []);
+  }
+
+  /**
+   * Amounts of the given lines with the invoice VAT flag and pricing
+   */
+  private totalsOf(products: InvoiceProductDraft[]): DocumentTotals {
+    const hasVat = this.payload.flags?.hasVat ?? false;
+    return calculateTotals(
+      products.map(product => ({
+        quantity: product.quantity,
+        price: product.price,
+        vatRate: hasVat && !product.lgota ? product.vatRate ?? 0 : 0,
+        ...(product.exciseRate !== undefined && { exciseRate: product.exciseRate }),
+        ...(product.exciseSum !== undefined && { exciseSum: product.exciseSum })
+      })),
+      this.payload.pricing
+    );
+  }
+
+  /**
+   * Compare the products with the original invoice, line by line
+   * 
+   * Products are matched to original lines by `originalOrdNo`. Amounts are
+   * computed like `totals()` and compared with the amounts as issued.
+   * Without original lines (set by `correctionOf()` and `adjustmentOf()`), every product is `added`.
+   * 
+   * @returns Differences of the products in order, followed by the removed original lines
+   * 
+   * @example
+   * ```typescript
+   * builder.correctionOf(original).updateProduct(0, { quantity: 8 }).deltas();
+   * // [{ change: 'changed', index: 0, originalOrdNo: 1, quantity: -2, net: -30000, ... }, { change: 'unchanged', ... }]
+   * ```
+   */
+  deltas(): InvoiceLineDelta[] {
+    const products = this.payload.products ?? [];
+    const { matches, removed } = matchOriginals(products, this.payload.originalLines ?? []);
+    const totals = this.totals();
+
+    const deltas: InvoiceLineDelta[] = products.map((product, index) => {
+      const line = totals.lines[index]!;
+      const original = matches[index];
+
+      if (!original) {
+        return { change: 'added', index, name: product.name, quantity: product.quantity, ...line };
+      }
+
+      const delta = {
+        quantity: difference(product.quantity, original.product.quantity),
+        unitPrice: difference(line.unitPrice, original.amounts.unitPrice),
+        excise: difference(line.excise, original.amounts.excise),
+        net: difference(line.net, original.amounts.net),
+        vat: difference(line.vat, original.amounts.vat),
+        gross: difference(line.gross, original.amounts.gross)
+      };
+      const unchanged = Object.values(delta).every(value => value === 0)
+        && product.name === original.product.name
+        && product.catalogCode === original.product.catalogCode;
+
+      return {
+        change: unchanged ? 'unchanged' : 'changed',
+        index,
+        originalOrdNo: original.ordNo,
+        name: product.name,
+        ...delta
+      };
+    });
+
+    for (const original of removed) {
+      deltas.push({
+        change: 'removed',
+        originalOrdNo: original.ordNo,
+        name: original.product.name,
+        quantity: difference(0, original.product.quantity),
+        unitPrice: difference(0, original.amounts.unitPrice),
+        excise: difference(0, original.amounts.excise),
+        net: difference(0, original.amounts.net),
+        vat: difference(0, original.amounts.vat),
+        gross: difference(0, original.amounts.gross)
+      });
+    }
+
+    return deltas;
+  }
+
   /**
    * Build and transform to API payload
    * 
@@ -317,7 +726,7 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
    * Validates required fields and transforms DX structure to Didox API JSON format.
    * 
    * @returns API-compatible invoice payload ready for createDraft()
-   * @throws Error if required fields are missing
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    * 
    * @example
    * ```typescript
@@ -325,89 +734,305 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
    * await client.documents.createDraft('002', apiPayload);
    * ```
    */
-  build(): any {
-    // Validate required fields
-    if (!this.payload.factura) {
-      throw new Error('Invoice factura information is required');
-    }
-    if (!this.payload.seller) {
-      throw new Error('Seller information is required');
-    }
-    if (!this.payload.buyer) {
-      throw new Error('Buyer information is required');
-    }
-    if (!this.payload.products || this.payload.products.length === 0) {
-      throw new Error('At least one product is required');
-    }
+  build(): ApiInvoicePayload {
+    this.assertValid();
+    const draft = this.payload as InvoiceDraft;
 
-    const flags = this.payload.flags || {};
+    const flags = draft.flags || {};
+    const facturaType = this.resolveFacturaType();
+    const additionsOnly = draft.deltasOnly === true && facturaType === FacturaType.ADDITIONAL;
+    const products = additionsOnly ? this.adjustment().additions : draft.products;
+    const totals = this.totalsOf(products);
 
     // Transform DX structure to API structure
     const apiPayload: ApiInvoicePayload = {
       Version: 1,
-      FacturaType: 0,
+      FacturaType: facturaType,
       FacturaDoc: {
-        FacturaNo: this.payload.factura.no,
-        FacturaDate: this.payload.factura.date,
+        FacturaNo: draft.factura.no,
+        FacturaDate: draft.factura.date,
       },
-      SellerTin: this.payload.seller.tin,
+      SellerTin: draft.seller.tin,
       Seller: {
-        Name: this.payload.seller.name,
-        VatRegCode: this.payload.seller.vatRegCode,
-        Account: this.payload.seller.account,
-        BankId: this.payload.seller.bankId,
-        Address: this.payload.seller.address,
+        Name: draft.seller.name,
+        VatRegCode: draft.seller.vatRegCode,
+        Account: draft.seller.account,
+        BankId: draft.seller.bankId,
+        Address: draft.seller.address,
       },
-      BuyerTin: this.payload.buyer.tin,
+      BuyerTin: draft.buyer.tin,
       Buyer: {
-        Name: this.payload.buyer.name,
-        VatRegCode: this.payload.buyer.vatRegCode,
-        Account: this.payload.buyer.account,
-        BankId: this.payload.buyer.bankId,
-        Address: this.payload.buyer.address,
+        Name: draft.buyer.name,
+        VatRegCode: draft.buyer.vatRegCode,
+        Account: draft.buyer.account,
+        BankId: draft.buyer.bankId,
+        Address: draft.buyer.address,
       },
       ProductList: {
-        Tin: this.payload.seller.tin,
+        Tin: draft.seller.tin,
         HasVat: flags.hasVat ?? false,
-        HasExcise: flags.hasExcise ?? false,
-        HasLgota: flags.hasLgota ?? false,
-        HasCommittent: flags.hasCommittent ?? false,
-        Products: this.payload.products.map((product, index) => {
-          const deliverySum = product.quantity * product.price;
-          const vatRate = product.vatRate ?? 0;
-          const vatSum = flags.hasVat && vatRate > 0 ? (deliverySum * vatRate) / 100 : 0;
-          const deliverySumWithVat = deliverySum + vatSum;
+        HasExcise: flags.hasExcise ?? draft.products.some(hasExcise),
+        HasLgota: flags.hasLgota ?? draft.products.some(product => product.lgota !== undefined),
+        HasCommittent: flags.hasCommittent ?? draft.products.some(product => product.committent !== undefined),
+        Products: products.map((product, index) => {
+          const line = totals.lines[index]!;
+          const { committent, marks, lgota } = product;
 
           return {
             OrdNo: index + 1,
+            ...(committent && {
+              CommittentTin: committent.tin,
+              CommittentName: committent.name,
+              CommittentVatRegCode: committent.vatRegCode ?? '',
+              ...(committent.vatRegStatus !== undefined && { CommittentVatRegStatus: committent.vatRegStatus }),
+            }),
             Name: product.name,
             CatalogCode: product.catalogCode,
-            PackageCode: product.packageCode,
-            PackageName: product.packageName,
+            CatalogName: product.catalogName ?? '',
+            ...(marks && {
+              Marks: {
+                ...(marks.productType !== undefined && { ProductType: marks.productType }),
+                ...(marks.kiz && { KIZ: marks.kiz }),
+                ...(marks.groupPackages && { NomUpak: marks.groupPackages }),
+                ...(marks.transportPackages && { IdentTransUpak: marks.transportPackages }),
+              },
+            }),
+            ...(product.barcode !== undefined && { Barcode: product.barcode }),
+            ...(product.measureId !== undefined && { MeasureId: product.measureId }),
+            ...(product.packageCode !== undefined && { PackageCode: product.packageCode }),
+            ...(product.packageName !== undefined && { PackageName: product.packageName }),
             Count: product.quantity,
-            Summa: deliverySumWithVat,
-            DeliverySum: deliverySum,
-            VatRate: vatRate,
-            VatSum: vatSum,
-            DeliverySumWithVat: deliverySumWithVat,
-            WithoutVat: !flags.hasVat,
+            Summa: line.unitPrice,
+            ...(hasExcise(product) && {
+              ExciseRate: product.exciseRate ?? 0,
+              ExciseSum: line.excise,
+            }),
+            DeliverySum: line.net,
+            VatRate: lgota ? 0 : product.vatRate ?? 0,
+            VatSum: line.vat,
+            DeliverySumWithVat: line.gross,
+            WithoutVat: lgota ? lgota.type !== 2 : !flags.hasVat,
+            ...(lgota && {
+              LgotaId: lgota.id,
+              LgotaName: lgota.name,
+              LgotaType: lgota.type ?? 1,
+              LgotaVatSum: lgota.vatSum !== undefined && !additionsOnly
+                ? lgota.vatSum
+                : Decimal.from(line.net).times(product.vatRate ?? 0).times('0.01').round(2).toNumber(),
+            }),
             Origin: product.origin,
           };
         }),
       },
     };
 
-    // Add optional contract
-    if (this.payload.contract) {
+    // Add optional references
+    if (draft.oldFactura) {
+      apiPayload.OldFacturaDoc = {
+        OldFacturaId: draft.oldFactura.id,
+        OldFacturaNo: draft.oldFactura.no,
+        OldFacturaDate: draft.oldFactura.date,
+      };
+    }
+
+    if (draft.contract) {
       apiPayload.ContractDoc = {
-        ContractNo: this.payload.contract.no,
-        ContractDate: this.payload.contract.date,
+        ContractNo: draft.contract.no,
+        ContractDate: draft.contract.date,
       };
     }
 
     return apiPayload;
   }
 
+  /**
+   * Invoice type as sent
+   * 
+   * An adjustment without an explicit type is an additional invoice when it only
+   * adds to the original and a corrected invoice otherwise.
+   */
+  private resolveFacturaType(): FacturaType {
+    if (this.payload.facturaType !== undefined) {
+      return this.payload.facturaType;
+    }
+    if (this.payload.deltasOnly) {
+      return this.adjustment().reductions.length === 0 ? FacturaType.ADDITIONAL : FacturaType.CORRECTED;
+    }
+    return FacturaType.STANDARD;
+  }
+
+  /**
+   * Split the changes to the original into additional lines and changes that cannot be added
+   */
+  private adjustment(): InvoiceAdjustment {
+    const products = this.payload.products ?? [];
+    const { matches, removed } = matchOriginals(products, this.payload.originalLines ?? []);
+    const additions: InvoiceProductDraft[] = [];
+    const reductions: string[] = removed.map(() => 'products');
+
+    products.forEach((product, index) => {
+      const original = matches[index];
+      if (!original) {
+        additions.push(product);
+        return;
+      }
+
+      const previous = original.product;
+      const quantity = difference(product.quantity, previous.quantity);
+      const price = difference(product.price, previous.price);
+      const excise = product.exciseSum !== undefined ? difference(product.exciseSum, previous.exciseSum ?? 0) : 0;
+      const parts: InvoiceProductDraft[] = [
+        ...(price > 0 ? [{ ...product, quantity: previous.quantity, price }] : []),
+        ...(quantity > 0 ? [{ ...product, quantity, price: product.price }] : []),
+      ];
+
+      const additive = quantity >= 0 && price >= 0 && excise >= 0
+        && (parts.length > 0 || excise === 0)
+        && product.vatRate === previous.vatRate
+        && product.exciseRate === previous.exciseRate
+        && product.name === previous.name
+        && product.catalogCode === previous.catalogCode;
+      if (!additive) {
+        reductions.push(`products[${index}]`);
+        return;
+      }
+
+      // A fixed excise amount goes with the first part only
+      if (product.exciseSum !== undefined) {
+        parts.forEach((part, position) => {
+          part.exciseSum = position === 0 ? excise : 0;
+        });
+      }
+      additions.push(...parts);
+    });
+
+    return { additions, reductions };
+  }
+
+  /**
+   * Prefill the draft from an existing invoice and reference it
+   */
+  private deriveFrom(original: RawDocumentResponse, type: FacturaType | undefined, copyProducts: boolean): this {
+    const source = readOriginalInvoice(original);
+
+    if (type !== undefined) {
+      this.payload.facturaType = type;
+    } else {
+      delete this.payload.facturaType;
+    }
+    this.payload.oldFactura = source.reference;
+    this.payload.seller = source.seller;
+    this.payload.buyer = source.buyer;
+    this.payload.flags = { hasVat: source.hasVat };
+    this.payload.products = copyProducts
+      ? source.lines.map(line => ({ ...line.product, originalOrdNo: line.ordNo }))
+      : [];
+    if (source.contract) {
+      this.payload.contract = source.contract;
+    }
+    if (copyProducts) {
+      this.payload.originalLines = source.lines;
+    } else {
+      delete this.payload.originalLines;
+    }
+    delete this.payload.deltasOnly;
+    return this;
+  }
+
+  /**
+   * Products, throwing when there is no product at the index
+   */
+  private productsAt(index: number): InvoiceProductDraft[] {
+    const products = this.payload.products ?? [];
+    if (!Number.isInteger(index) || index < 0 || index >= products.length) {
+      throw new DidoxValidationError(`No product at index ${index}`, 'products');
+    }
+    return products;
+  }
+
+  /**
+   * Check factura, contract, parties and product lines
+   * 
+   * @param issues - Collector receiving the issues (see `validate()`)
+   */
+  protected collectIssues(issues: ValidationCollector): void {
+    const { factura, contract, seller, buyer, products, flags, facturaType, oldFactura, deltasOnly } = this.payload;
+
+    if (issues.required(factura, 'factura', 'FacturaDoc')) {
+      issues.required(factura.no, 'factura.no', 'FacturaDoc.FacturaNo');
+      issues.date(factura.date, 'factura.date', 'FacturaDoc.FacturaDate');
+    }
+
+    if (deltasOnly || facturaType === FacturaType.CORRECTED || facturaType === FacturaType.ADDITIONAL) {
+      issues.required(oldFactura, 'oldFactura', 'OldFacturaDoc');
+    }
+    if (oldFactura) {
+      issues.required(oldFactura.id, 'oldFactura.id', 'OldFacturaDoc.OldFacturaId');
+      issues.required(oldFactura.no, 'oldFactura.no', 'OldFacturaDoc.OldFacturaNo');
+      issues.date(oldFactura.date, 'oldFactura.date', 'OldFacturaDoc.OldFacturaDate');
+    }
+
+    if (contract) {
+      issues.required(contract.no, 'contract.no', 'ContractDoc.ContractNo');
+      issues.date(contract.date, 'contract.date', 'ContractDoc.ContractDate');
+    }
+
+    const party = (data: InvoiceDraft['seller'] | undefined, path: string, apiPath: string) => {
+      if (issues.required(data, path, apiPath)) {
+        issues.tin(data.tin, `${path}.tin`, `${apiPath}Tin`);
+        issues.required(data.name, `${path}.name`, `${apiPath}.Name`);
+        issues.required(data.account, `${path}.account`, `${apiPath}.Account`);
+        issues.required(data.bankId, `${path}.bankId`, `${apiPath}.BankId`);
+        issues.required(data.address, `${path}.address`, `${apiPath}.Address`);
+      }
+    };
+    party(seller, 'seller', 'Seller');
+    party(buyer, 'buyer', 'Buyer');
+
+    if (seller?.tin && seller.tin === buyer?.tin) {
+      issues.add('warning', 'same_party', 'buyer.tin', 'BuyerTin', { other: 'seller.tin' });
+    }
+
+    if (issues.minItems(products, 1, 'products', 'ProductList.Products')) {
+      products.forEach((product, index) => {
+        const path = `products[${index}]`;
+        const apiPath = `ProductList.Products[${index}]`;
+        issues.required(product.name, `${path}.name`, `${apiPath}.Name`);
+        issues.required(product.catalogCode, `${path}.catalogCode`, `${apiPath}.CatalogCode`);
+        if (product.measureId === undefined) {
+          issues.required(product.packageCode, `${path}.packageCode`, `${apiPath}.PackageCode`);
+        }
+        issues.positive(product.quantity, `${path}.quantity`, `${apiPath}.Count`);
+        issues.positive(product.price, `${path}.price`, `${apiPath}.Summa`);
+        issues.nonNegative(product.vatRate, `${path}.vatRate`, `${apiPath}.VatRate`);
+        if (flags?.hasVat && !product.lgota && product.vatRate === undefined) {
+          issues.add('warning', 'missing_vat_rate', `${path}.vatRate`, `${apiPath}.VatRate`);
+        }
+        issues.nonNegative(product.exciseRate, `${path}.exciseRate`, `${apiPath}.ExciseRate`);
+        issues.nonNegative(product.exciseSum, `${path}.exciseSum`, `${apiPath}.ExciseSum`);
+        if (product.lgota) {
+          issues.required(product.lgota.id, `${path}.lgota.id`, `${apiPath}.LgotaId`);
+          issues.required(product.lgota.name, `${path}.lgota.name`, `${apiPath}.LgotaName`);
+        }
+        if (product.committent) {
+          issues.tin(product.committent.tin, `${path}.committent.tin`, `${apiPath}.CommittentTin`);
+          issues.required(product.committent.name, `${path}.committent.name`, `${apiPath}.CommittentName`);
+        }
+      });
+
+      // Amounts can only be compared once the lines are valid
+      if (deltasOnly && issues.report().valid) {
+        if (this.deltas().every(delta => delta.change === 'unchanged')) {
+          issues.add('error', 'no_changes', 'products', 'ProductList.Products');
+        } else if (facturaType === FacturaType.ADDITIONAL) {
+          for (const path of new Set(this.adjustment().reductions)) {
+            issues.add('error', 'not_additive', path, 'ProductList.Products');
+          }
+        }
+      }
+    }
+  }
+
   /**
    * Get DX-friendly draft payload (for debugging/testing)
    * 
@@ -418,6 +1043,182 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
   }
 }
 
+/**
+ * Changes of an adjustment to the original invoice
+ */
+interface InvoiceAdjustment {
+  /** Lines of an additional invoice: price and quantity increases and new products */
+  additions: InvoiceProductDraft[];
+  /** DX paths of reductions, removed lines and other changes an additional invoice cannot carry */
+  reductions: string[];
+}
+
+/**
+ * Original line of each product (by `originalOrdNo`, first match wins) and the original lines no product refers to
+ */
+function matchOriginals(
+  products: InvoiceProductDraft[],
+  originals: InvoiceOriginalLine[]
+): { matches: (InvoiceOriginalLine | undefined)[]; removed: InvoiceOriginalLine[] } {
+  const matched = new Set<number>();
+  const matches = products.map(product => {
+    const original = originals.find(candidate => candidate.ordNo === product.originalOrdNo);
+    if (!original || matched.has(original.ordNo)) {
+      return undefined;
+    }
+    matched.add(original.ordNo);
+    return original;
+  });
+  return { matches, removed: originals.filter(original => !matched.has(original.ordNo)) };
+}
+
+/**
+ * Invoice data read from a `getById` response
+ */
+interface OriginalInvoice {
+  reference: NonNullable<InvoiceDraft['oldFactura']>;
+  contract?: InvoiceDraft['contract'];
+  seller: InvoiceDraft['seller'];
+  buyer: InvoiceDraft['buyer'];
+  hasVat: boolean;
+  lines: InvoiceOriginalLine[];
+}
+
+/**
+ * Read an invoice from a `getById` response (`{ document, json }`) or a bare invoice payload
+ */
+function readOriginalInvoice(original: RawDocumentResponse): OriginalInvoice {
+  const document: RawDocumentResponse = original?.document;
+  const json: RawDocumentResponse = original?.json ?? original;
+
+  if (document?.doctype !== undefined && document.doctype !== DocumentType.FACTURA) {
+    throw new DidoxValidationError(`Document is not an invoice (doctype ${document.doctype})`, 'original');
+  }
+  if (!json || typeof json !== 'object' || !json.FacturaDoc || !Array.isArray(json.ProductList?.Products)) {
+    throw new DidoxValidationError('Document has no invoice data (FacturaDoc, ProductList)', 'original');
+  }
+
+  const id = json.FacturaId ?? document?.doc_id;
+  if (!id) {
+    throw new DidoxValidationError('Original invoice has no FacturaId; pass the documents.getById() response', 'original');
+  }
+
+  return {
+    reference: {
+      id: String(id),
+      no: text(json.FacturaDoc.FacturaNo),
+      date: text(json.FacturaDoc.FacturaDate),
+    },
+    ...(json.ContractDoc && {
+      contract: { no: text(json.ContractDoc.ContractNo), date: text(json.ContractDoc.ContractDate) },
+    }),
+    seller: readParty(json.SellerTin, json.Seller),
+    buyer: readParty(json.BuyerTin, json.Buyer),
+    hasVat: Boolean(json.ProductList.HasVat),
+    lines: json.ProductList.Products.map(readOriginalLine),
+  };
+}
+
+function readParty(tin: unknown, party: RawDocumentResponse): InvoiceDraft['seller'] {
+  return {
+    tin: text(tin),
+    name: text(party?.Name),
+    vatRegCode: text(party?.VatRegCode),
+    account: text(party?.Account),
+    bankId: text(party?.BankId),
+    address: text(party?.Address),
+  };
+}
+
+/**
+ * Read one product line; the inverse of the mapping in `build()`
+ */
+function readOriginalLine(product: RawDocumentResponse, index: number): InvoiceOriginalLine {
+  const net = amount(product.DeliverySum);
+  const exciseRate = amount(product.ExciseRate);
+  const exciseSum = amount(product.ExciseSum);
+  const lgota = product.LgotaId !== undefined && product.LgotaId !== null;
+  const marks: RawDocumentResponse = product.Marks;
+
+  // Benefit lines are sent with VatRate 0; the waived rate is recovered from LgotaVatSum
+  const vatRate = lgota
+    ? net > 0 ? Math.round(amount(product.LgotaVatSum) * 100 / net) : 0
+    : amount(product.VatRate);
+
+  return {
+    ordNo: product.OrdNo !== undefined ? amount(product.OrdNo) : index + 1,
+    product: {
+      name: text(product.Name),
+      catalogCode: text(product.CatalogCode),
+      ...(product.CatalogName && { catalogName: text(product.CatalogName) }),
+      ...(product.PackageCode && { packageCode: text(product.PackageCode) }),
+      ...(product.PackageName && { packageName: text(product.PackageName) }),
+      ...(product.MeasureId !== undefined && product.MeasureId !== null && { measureId: amount(product.MeasureId) }),
+      ...(product.Barcode && { barcode: text(product.Barcode) }),
+      quantity: amount(product.Count),
+      price: amount(product.Summa),
+      vatRate,
+      ...(exciseRate > 0 ? { exciseRate } : exciseSum > 0 && { exciseSum }),
+      ...(lgota && {
+        lgota: { id: amount(product.LgotaId), name: text(product.LgotaName), type: amount(product.LgotaType) === 2 ? 2 : 1 },
+      }),
+      ...(product.CommittentTin && {
+        committent: {
+          tin: text(product.CommittentTin),
+          name: text(product.CommittentName),
+          ...(product.CommittentVatRegCode && { vatRegCode: text(product.CommittentVatRegCode) }),
+          ...(product.CommittentVatRegStatus !== undefined && { vatRegStatus: amount(product.CommittentVatRegStatus) }),
+        },
+      }),
+      ...(marks && typeof marks === 'object' && {
+        marks: {
+          ...(marks.ProductType !== undefined && { productType: amount(marks.ProductType) }),
+          ...(Array.isArray(marks.KIZ) && { kiz: marks.KIZ.map(text) }),
+          ...(Array.isArray(marks.NomUpak) && { groupPackages: marks.NomUpak.map(text) }),
+          ...(Array.isArray(marks.IdentTransUpak) && { transportPackages: marks.IdentTransUpak.map(text) }),
+        },
+      }),
+      origin: amount(product.Origin),
+    },
+    amounts: {
+      unitPrice: amount(product.Summa),
+      excise: exciseSum,
+      net,
+      vat: amount(product.VatSum),
+      gross: amount(product.DeliverySumWithVat),
+    },
+  };
+}
+
+/**
+ * Numeric field of an API payload (Didox may send numbers as strings); 0 when missing
+ */
+function amount(value: unknown): number {
+  const number = Number(value ?? 0);
+  return Number.isFinite(number) ? number : 0;
+}
+
+/**
+ * String field of an API payload; '' when missing
+ */
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * `a - b` without floating point drift
+ */
+function difference(a: number, b: number): number {
+  return Decimal.from(a).minus(b).toNumber();
+}
+
+/**
+ * Whether a line carries excise
+ */
+function hasExcise(product: InvoiceProductDraft): boolean {
+  return product.exciseSum !== undefined || (product.exciseRate ?? 0) > 0;
+}
+
 /**
  * Creates a new invoice document builder
  * 
@@ -435,7 +1236,7 @@ class InvoiceBuilder extends BaseDocumentBuilder<InvoiceDraft> {
  * await client.documents.createDraft('002', invoice);
  * ```
  */
-export const invoice: DocumentBuilderFactory<InvoiceDraft> = () => new InvoiceBuilder();
+export const invoice = (): InvoiceBuilder => new InvoiceBuilder();
 
 // Export types separately to avoid conflicts
 export type { InvoiceDraft as InvoiceDraftType };
@@ -1,4 +1,5 @@
 import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
 
 /**
  * Pharmacy Invoice Document Builder (Stub)
@@ -6,7 +7,9 @@ import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocument
  * Builder for creating pharmacy invoice documents.
  * This is a placeholder implementation that will be expanded in future stages.
  */
-class InvoicePharmBuilder extends BaseDocumentBuilder<any> {
+class InvoicePharmBuilder extends BaseDocumentBuilder<any, DocumentType.FACTURA_PHARM> {
+  readonly docType = DocumentType.FACTURA_PHARM;
+
   // TODO: Add pharmacy-specific invoice methods
 }
 
@@ -16,5 +19,5 @@ class InvoicePharmBuilder extends BaseDocumentBuilder<any> {
  * @param initial - Optional initial pharmacy invoice data
  * @returns Pharmacy invoice builder instance
  */
-export const invoicePharm: DocumentBuilderFactory<any> = (initial?) => 
+export const invoicePharm: DocumentBuilderFactory<any, DocumentType.FACTURA_PHARM> = (initial?) => 
   new InvoicePharmBuilder(initial);
\ No newline at end of file
@@ -8,7 +8,8 @@
  */
 
 import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
-import { DidoxValidationError } from '../../../http/errors.js';
+import { DocumentType } from '../documents.enums.js';
+import type { ValidationCollector } from './base/validation.js';
 
 /**
  * DX-friendly interface for letter head information (optional)
@@ -248,7 +249,9 @@ export interface ApiLetterNKPayload {
  *   .build();
  * ```
  */
-export class LetterNKBuilder extends BaseDocumentBuilder<ApiLetterNKPayload> {
+export class LetterNKBuilder extends BaseDocumentBuilder<ApiLetterNKPayload, DocumentType.TAX_LETTER> {
+  readonly docType = DocumentType.TAX_LETTER;
+
   private draft: Partial<LetterNKDraft> = {};
 
   /**
@@ -443,7 +446,7 @@ export class LetterNKBuilder extends BaseDocumentBuilder<ApiLetterNKPayload> {
    * - attachments → Attachments with ContentBase64, Description (empty string default)
    *
    * @returns Complete API payload ready for Didox submission
-   * @throws {DidoxValidationError} When required fields are missing
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    *
    * @example
    * ```typescript
@@ -458,25 +461,11 @@ export class LetterNKBuilder extends BaseDocumentBuilder<ApiLetterNKPayload> {
    * ```
    */
   build(): ApiLetterNKPayload & Record<string, any> {
-    // Validation
-    if (!this.draft.letter) {
-      throw new DidoxValidationError('Letter information is required');
-    }
-
-    if (!this.draft.sender) {
-      throw new DidoxValidationError('Sender information is required');
-    }
-
-    if (!this.draft.recipient) {
-      throw new DidoxValidationError('Recipient information is required');
-    }
-
-    if (!this.draft.html) {
-      throw new DidoxValidationError('HTML content is required');
-    }
+    this.assertValid();
+    const draft = this.draft as LetterNKDraft;
 
     // Transform sender head
-    const senderHead = this.draft.sender.head || {};
+    const senderHead = draft.sender.head || {};
     const transformedSenderHead = {
       BranchCode: senderHead.branchCode || '',
       BranchName: senderHead.branchName || '',
@@ -487,7 +476,7 @@ export class LetterNKBuilder extends BaseDocumentBuilder<ApiLetterNKPayload> {
     };
 
     // Transform recipient head
-    const recipientHead = this.draft.recipient.head || {};
+    const recipientHead = draft.recipient.head || {};
     const transformedRecipientHead = {
       BranchCode: recipientHead.branchCode || '',
       BranchName: recipientHead.branchName || '',
@@ -500,21 +489,21 @@ export class LetterNKBuilder extends BaseDocumentBuilder<ApiLetterNKPayload> {
     // Build API payload
     const apiPayload: ApiLetterNKPayload = {
       Letter: {
-        Number: this.draft.letter.number,
-        Date: this.draft.letter.date
+        Number: draft.letter.number,
+        Date: draft.letter.date
       },
       Sender: {
-        Name: this.draft.sender.name,
-        Tin: this.draft.sender.tin,
+        Name: draft.sender.name,
+        Tin: draft.sender.tin,
         Head: transformedSenderHead
       },
       Recipient: {
-        Name: this.draft.recipient.name,
-        Tin: this.draft.recipient.tin,
+        Name: draft.recipient.name,
+        Tin: draft.recipient.tin,
         Head: transformedRecipientHead
       },
-      Html: this.draft.html,
-      Attachments: (this.draft.attachments || []).map(attachment => ({
+      Html: draft.html,
+      Attachments: (draft.attachments || []).map(attachment => ({
         Filename: attachment.filename,
         MimeType: attachment.mimeType,
         Size: attachment.size,
@@ -528,6 +517,40 @@ export class LetterNKBuilder extends BaseDocumentBuilder<ApiLetterNKPayload> {
     return this.deepMerge(apiPayload, basePayload) as ApiLetterNKPayload & Record<string, any>;
   }
 
+  /**
+   * Check letter details, sender, recipient, content and attachments
+   *
+   * @param issues - Collector receiving the issues (see `validate()`)
+   */
+  protected collectIssues(issues: ValidationCollector): void {
+    const { letter, sender, recipient, html, attachments } = this.draft;
+
+    if (issues.required(letter, 'letter', 'Letter')) {
+      issues.required(letter.number, 'letter.number', 'Letter.Number');
+      issues.date(letter.date, 'letter.date', 'Letter.Date');
+    }
+
+    if (issues.required(sender, 'sender', 'Sender')) {
+      issues.required(sender.name, 'sender.name', 'Sender.Name');
+      issues.required(sender.tin, 'sender.tin', 'Sender.Tin');
+    }
+
+    if (issues.required(recipient, 'recipient', 'Recipient')) {
+      issues.required(recipient.name, 'recipient.name', 'Recipient.Name');
+      issues.required(recipient.tin, 'recipient.tin', 'Recipient.Tin');
+    }
+
+    issues.required(html, 'html', 'Html');
+
+    attachments?.forEach((attachment, index) => {
+      const path = `attachments[${index}]`;
+      const apiPath = `Attachments[${index}]`;
+      issues.required(attachment.filename, `${path}.filename`, `${apiPath}.Filename`);
+      issues.required(attachment.mimeType, `${path}.mimeType`, `${apiPath}.MimeType`);
+      issues.required(attachment.base64, `${path}.base64`, `${apiPath}.ContentBase64`);
+    });
+  }
+
   /**
    * Deep merge helper for combining API payload with raw data
    * 
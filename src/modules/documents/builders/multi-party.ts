@@ -1,5 +1,6 @@
-import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
-import { DidoxValidationError } from '../../../http/errors.js';
+import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
+import type { ValidationCollector } from './base/validation.js';
 
 /**
  * DX-friendly MultiPartyDocument Draft interface
@@ -142,7 +143,12 @@ export interface ApiMultiPartyDocumentPayload {
  *   .build();
  * ```
  */
-export class MultiPartyDocumentBuilder extends BaseDocumentBuilder<ApiMultiPartyDocumentPayload> {
+export class MultiPartyDocumentBuilder extends BaseDocumentBuilder<
+  ApiMultiPartyDocumentPayload,
+  DocumentType.MULTI_FREE_FORM
+> {
+  readonly docType = DocumentType.MULTI_FREE_FORM;
+
   /**
    * Internal DX-friendly payload for development
    * 
@@ -295,7 +301,7 @@ export class MultiPartyDocumentBuilder extends BaseDocumentBuilder<ApiMultiParty
    * required by the Didox API for multi-party arbitrary documents (doctype 010).
    * 
    * @returns Complete API payload ready for createDraft()
-   * @throws {DidoxValidationError} When required fields are missing or invalid
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    * 
    * @example
    * ```typescript
@@ -311,8 +317,7 @@ export class MultiPartyDocumentBuilder extends BaseDocumentBuilder<ApiMultiParty
    * ```
    */
   public build(): ApiMultiPartyDocumentPayload {
-    // Validate required fields
-    this.validateRequiredFields();
+    this.assertValid();
 
     const payload: ApiMultiPartyDocumentPayload = {
       data: {
@@ -354,52 +359,37 @@ export class MultiPartyDocumentBuilder extends BaseDocumentBuilder<ApiMultiParty
   }
 
   /**
-   * Validate required fields
+   * Check document details, owner, every client and the PDF file
    * 
-   * @private
-   * @throws {DidoxValidationError} When validation fails
+   * @param issues - Collector receiving the issues (see `validate()`)
    */
-  private validateRequiredFields(): void {
-    if (!this.dxPayload.document?.no) {
-      throw new DidoxValidationError('Document number is required', 'document.no');
-    }
-
-    if (!this.dxPayload.document?.date) {
-      throw new DidoxValidationError('Document date is required', 'document.date');
-    }
+  protected collectIssues(issues: ValidationCollector): void {
+    const { document, contract, owner, clients, pdfBase64 } = this.dxPayload;
 
-    if (!this.dxPayload.owner?.tin) {
-      throw new DidoxValidationError('Owner TIN is required', 'owner.tin');
-    }
-
-    if (!this.dxPayload.owner?.name) {
-      throw new DidoxValidationError('Owner name is required', 'owner.name');
-    }
+    issues.required(document?.no, 'document.no', 'data.Document.DocumentNo');
+    issues.date(document?.date, 'document.date', 'data.Document.DocumentDate');
 
-    if (!this.dxPayload.owner?.address) {
-      throw new DidoxValidationError('Owner address is required', 'owner.address');
+    if (contract) {
+      issues.required(contract.no, 'contract.no', 'data.ContractDoc.ContractNo');
+      issues.date(contract.date, 'contract.date', 'data.ContractDoc.ContractDate');
     }
 
-    if (!this.dxPayload.clients || this.dxPayload.clients.length === 0) {
-      throw new DidoxValidationError('At least one client is required', 'clients');
+    issues.tin(owner?.tin, 'owner.tin', 'data.Owner.Tin');
+    issues.required(owner?.name, 'owner.name', 'data.Owner.Name');
+    issues.required(owner?.address, 'owner.address', 'data.Owner.Address');
+
+    if (issues.minItems(clients, 1, 'clients', 'data.Clients')) {
+      clients.forEach((client, index) => {
+        issues.tin(client.tin, `clients[${index}].tin`, `data.Clients[${index}].Tin`);
+        issues.required(client.name, `clients[${index}].name`, `data.Clients[${index}].Name`);
+        issues.required(client.address, `clients[${index}].address`, `data.Clients[${index}].Address`);
+        if (owner?.tin && client.tin === owner.tin) {
+          issues.add('warning', 'same_party', `clients[${index}].tin`, `data.Clients[${index}].Tin`, { other: 'owner.tin' });
+        }
+      });
     }
 
-    // Validate each client
-    this.dxPayload.clients.forEach((client, index) => {
-      if (!client.tin) {
-        throw new DidoxValidationError(`Client ${index + 1} TIN is required`, `clients[${index}].tin`);
-      }
-      if (!client.name) {
-        throw new DidoxValidationError(`Client ${index + 1} name is required`, `clients[${index}].name`);
-      }
-      if (!client.address) {
-        throw new DidoxValidationError(`Client ${index + 1} address is required`, `clients[${index}].address`);
-      }
-    });
-
-    if (!this.dxPayload.pdfBase64) {
-      throw new DidoxValidationError('PDF base64 data is required', 'pdfBase64');
-    }
+    issues.required(pdfBase64, 'pdfBase64', 'document');
   }
 
   /**
@@ -462,5 +452,5 @@ export class MultiPartyDocumentBuilder extends BaseDocumentBuilder<ApiMultiParty
  *   .build();
  * ```
  */
-export const multiParty: DocumentBuilderFactory<ApiMultiPartyDocumentPayload> = (initial?) => 
+export const multiParty = (initial?: Partial<ApiMultiPartyDocumentPayload>): MultiPartyDocumentBuilder =>
   new MultiPartyDocumentBuilder(initial);
\ No newline at end of file
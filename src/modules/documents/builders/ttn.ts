@@ -1,4 +1,8 @@
-import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { BaseDocumentBuilder } from './base/BaseDocumentBuilder.js';
+import { DidoxBuilderValidationError } from '../../../http/errors.js';
+import { Decimal } from '../../../utils/decimal.js';
+import { DocumentType } from '../documents.enums.js';
+import { ValidationCollector } from './base/validation.js';
 
 /**
  * DX-friendly TTN Draft interface
@@ -161,6 +165,29 @@ export interface TtnProductDraft {
   vatRate?: number;
 }
 
+/**
+ * Amounts computed by `TtnBuilder.totals()`, rounded to 2 decimals
+ */
+export interface TtnTotals {
+  /**
+   * Goods amount and delivery share of every product, per product group
+   */
+  groups: {
+    amount: number;
+    products: { amount: number; deliverySum: number }[];
+  }[];
+
+  /**
+   * Goods amount of all product groups
+   */
+  amount: number;
+
+  /**
+   * Distance × price per km
+   */
+  totalDeliveryCost: number;
+}
+
 /**
  * API TTN Payload interface
  * 
@@ -437,21 +464,68 @@ export class TtnProductGroupBuilder {
    * Build the final product group data
    * 
    * @returns Complete product group draft
+   * @throws {DidoxBuilderValidationError} When the group has validation errors
    * @internal Used by TTNBuilder
    */
   build(): ProductGroupDraft {
-    if (!this.groupData.loadingPoint) {
-      throw new Error('Loading point is required for product group');
-    }
-    if (!this.groupData.unloadingPoint) {
-      throw new Error('Unloading point is required for product group');
-    }
-    if (!this.groupData.products || this.groupData.products.length === 0) {
-      throw new Error('At least one product is required for product group');
+    const issues = new ValidationCollector();
+    collectProductGroupIssues(issues, this.groupData, '', '');
+    const report = issues.report();
+    if (!report.valid) {
+      throw new DidoxBuilderValidationError(report);
     }
 
     return this.groupData as ProductGroupDraft;
   }
+
+  /**
+   * Product group data as configured so far, without validation
+   * 
+   * @internal Used by TTNBuilder, which validates the groups in `validate()`
+   */
+  getDraft(): Partial<ProductGroupDraft> {
+    return this.groupData;
+  }
+}
+
+/**
+ * Report the issues of one product group
+ * 
+ * @param path - DX path prefix of the group (empty for a standalone group)
+ * @param apiPath - API path prefix of the group
+ */
+function collectProductGroupIssues(
+  issues: ValidationCollector,
+  group: Partial<ProductGroupDraft>,
+  path: string,
+  apiPath: string
+): void {
+  const point = (data: ProductGroupDraft['loadingPoint'] | undefined, field: string, apiField: string) => {
+    if (issues.required(data, `${path}${field}`, `${apiPath}${apiField}`)) {
+      issues.required(data.address, `${path}${field}.address`, `${apiPath}${apiField}.Address`);
+      issues.tin(data.tin, `${path}${field}.tin`, `${apiPath}${apiField}.Tin`);
+      issues.required(data.name, `${path}${field}.name`, `${apiPath}${apiField}.Name`);
+    }
+  };
+  point(group.loadingPoint, 'loadingPoint', 'LoadingPoint');
+  point(group.unloadingPoint, 'unloadingPoint', 'UnloadingPoint');
+
+  if (group.empowerment) {
+    issues.required(group.empowerment.no, `${path}empowerment.no`, `${apiPath}Empowerment.EmpowermentNo`);
+    issues.date(group.empowerment.date, `${path}empowerment.date`, `${apiPath}Empowerment.EmpowermentDate`);
+  }
+
+  if (issues.minItems(group.products, 1, `${path}products`, `${apiPath}ProductList`)) {
+    group.products.forEach((product, index) => {
+      const productPath = `${path}products[${index}]`;
+      const productApiPath = `${apiPath}ProductList[${index}]`;
+      issues.required(product.name, `${productPath}.name`, `${productApiPath}.Name`);
+      issues.required(product.catalogCode, `${productPath}.catalogCode`, `${productApiPath}.CatalogCode`);
+      issues.required(product.packageCode, `${productPath}.packageCode`, `${productApiPath}.PackageCode`);
+      issues.positive(product.count, `${productPath}.count`, `${productApiPath}.Count`);
+      issues.positive(product.price, `${productPath}.price`, `${productApiPath}.Amount`);
+    });
+  }
 }
 
 /**
@@ -486,7 +560,9 @@ export class TtnProductGroupBuilder {
  * await client.documents.createDraft('041', payload);
  * ```
  */
-class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
+export class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload, DocumentType.WAYBILL> {
+  readonly docType = DocumentType.WAYBILL;
+
   private dxPayload: Partial<TtnDraft> = {};
 
   /**
@@ -752,7 +828,7 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
   addProductGroup(builderFn: (builder: TtnProductGroupBuilder) => TtnProductGroupBuilder): this {
     const groupBuilder = new TtnProductGroupBuilder();
     const configuredBuilder = builderFn(groupBuilder);
-    const productGroup = configuredBuilder.build();
+    const productGroup = configuredBuilder.getDraft() as ProductGroupDraft;
 
     if (!this.dxPayload.productGroups) {
       this.dxPayload.productGroups = [];
@@ -776,9 +852,48 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
    * })
    * ```
    */
-  totals(totals: { distanceKm: number; pricePerKm: number }): this {
-    this.dxPayload.totals = totals;
-    return this;
+  totals(totals: { distanceKm: number; pricePerKm: number }): this;
+
+  /**
+   * Compute goods amounts and delivery cost without building
+   * 
+   * Uses the same exact decimal calculation as `build()`.
+   * 
+   * @returns Amounts per product, per product group and for the waybill
+   * 
+   * @example
+   * ```typescript
+   * const { amount, totalDeliveryCost } = builder.totals();
+   * ```
+   */
+  totals(): TtnTotals;
+
+  totals(totals?: { distanceKm: number; pricePerKm: number }): this | TtnTotals {
+    if (totals) {
+      this.dxPayload.totals = totals;
+      return this;
+    }
+
+    const pricePerKm = this.dxPayload.totals?.pricePerKm ?? 0;
+    const groups = (this.dxPayload.productGroups ?? []).map(group => {
+      const products = (group.products ?? []).map(product => {
+        const amount = Decimal.from(product.count).times(product.price).round(2);
+        return { amount, deliverySum: amount.times(pricePerKm).divide(100, 0) };
+      });
+      return { amount: Decimal.sum(products.map(product => product.amount)), products };
+    });
+
+    return {
+      groups: groups.map(group => ({
+        amount: group.amount.toNumber(),
+        products: group.products.map(product => ({
+          amount: product.amount.toNumber(),
+          deliverySum: product.deliverySum.toNumber()
+        }))
+      })),
+      amount: Decimal.sum(groups.map(group => group.amount)).toNumber(),
+      totalDeliveryCost: Decimal.from(this.dxPayload.totals?.distanceKm ?? 0).times(pricePerKm).round(2).toNumber()
+    };
   }
 
   /**
@@ -826,6 +941,7 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
    * Performs automatic calculations for delivery costs and product numbering.
    * 
    * @returns Complete TTN payload ready for Didox API
+   * @throws {DidoxBuilderValidationError} When the draft has validation errors (see `validate()`)
    * 
    * @example
    * ```typescript
@@ -834,22 +950,10 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
    * ```
    */
   build(): ApiTtnPayload {
+    this.assertValid();
     const draft = this.dxPayload as TtnDraft;
 
-    // Validation
-    if (!draft.waybill) throw new Error('Waybill information is required');
-    if (!draft.consignor) throw new Error('Consignor is required');
-    if (!draft.consignee) throw new Error('Consignee is required'); 
-    if (!draft.carrier) throw new Error('Carrier is required');
-    if (!draft.transport) throw new Error('Transport information is required');
-    if (!draft.productGroups || draft.productGroups.length === 0) {
-      throw new Error('At least one product group is required');
-    }
-    if (!draft.totals) throw new Error('Totals information is required');
-    if (!draft.responsiblePerson) throw new Error('Responsible person is required');
-
-    // Calculate totals
-    const totalDeliveryCost = draft.totals.distanceKm * draft.totals.pricePerKm;
+    const totals = this.totals();
 
     // Transform to API format
     const apiPayload: ApiTtnPayload = {
@@ -976,8 +1080,7 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
           }),
 
           ProductList: group.products.map((product, productIndex) => {
-            const amount = product.count * product.price;
-            const deliverySum = Math.round((amount / 100) * draft.totals.pricePerKm);
+            const { amount, deliverySum } = totals.groups[groupIndex]!.products[productIndex]!;
 
             return {
               OrdNo: productIndex + 1,
@@ -986,7 +1089,7 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
               Name: product.name,
               PackageCode: product.packageCode,
               PackageName: product.packageName,
-              Count: product.count.toString(),
+              Count: Decimal.from(product.count).toString(),
               Amount: amount.toString(),
               DeliverySum: deliverySum.toString()
             };
@@ -999,9 +1102,9 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
         FullName: draft.responsiblePerson.fullName
       },
 
-      TotalDistance: draft.totals.distanceKm.toFixed(2),
-      DeliveryCost: draft.totals.pricePerKm.toString(),
-      TotalDeliveryCost: totalDeliveryCost.toFixed(2),
+      TotalDistance: Decimal.from(draft.totals.distanceKm).toFixed(2),
+      DeliveryCost: Decimal.from(draft.totals.pricePerKm).toString(),
+      TotalDeliveryCost: totals.totalDeliveryCost.toFixed(2),
 
       ...(draft.flags?.hasCommittent !== undefined && {
         HasCommittent: draft.flags.hasCommittent
@@ -1017,6 +1120,64 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
     // Merge any raw overrides from base payload
     return { ...apiPayload, ...this.payload };
   }
+
+  /**
+   * Check waybill details, parties, transport, product groups and totals
+   * 
+   * @param issues - Collector receiving the issues (see `validate()`)
+   */
+  protected collectIssues(issues: ValidationCollector): void {
+    const { waybill, contract, consignor, consignee, carrier, transport, productGroups, totals, responsiblePerson } =
+      this.dxPayload;
+
+    if (issues.required(waybill, 'waybill', 'WaybillDoc')) {
+      issues.required(waybill.no, 'waybill.no', 'WaybillDoc.WaybillNo');
+      issues.date(waybill.date, 'waybill.date', 'WaybillDoc.WaybillDate');
+      issues.required(waybill.deliveryType, 'waybill.deliveryType', 'DeliveryType');
+    }
+
+    if (contract) {
+      issues.required(contract.no, 'contract.no', 'ContractDoc.ContractNo');
+      issues.date(contract.date, 'contract.date', 'ContractDoc.ContractDate');
+    }
+
+    const party = (data: Party | undefined, path: string, apiPath: string) => {
+      if (issues.required(data, path, apiPath)) {
+        issues.tin(data.tin, `${path}.tin`, `${apiPath}.${apiPath}Tin`);
+        issues.required(data.name, `${path}.name`, `${apiPath}.${apiPath}Name`);
+      }
+    };
+    party(consignor, 'consignor', 'Consignor');
+    party(consignee, 'consignee', 'Consignee');
+    party(carrier, 'carrier', 'Carrier');
+
+    if (issues.required(transport, 'transport', 'Roadway')) {
+      issues.required(transport.type, 'transport.type', 'TransportType');
+      if (issues.required(transport.truck, 'transport.truck', 'Roadway.Truck')) {
+        issues.required(transport.truck.regNo, 'transport.truck.regNo', 'Roadway.Truck.RegNo');
+      }
+      if (issues.required(transport.driver, 'transport.driver', 'Roadway.Driver')) {
+        issues.tin(transport.driver.pinfl, 'transport.driver.pinfl', 'Roadway.Driver.Pinfl');
+        issues.required(transport.driver.fullName, 'transport.driver.fullName', 'Roadway.Driver.FullName');
+      }
+    }
+
+    if (issues.minItems(productGroups, 1, 'productGroups', 'Roadway.ProductGroups')) {
+      productGroups.forEach((group, index) => {
+        collectProductGroupIssues(issues, group, `productGroups[${index}].`, `Roadway.ProductGroups[${index}].`);
+      });
+    }
+
+    if (issues.required(totals, 'totals', 'TotalDistance')) {
+      issues.positive(totals.distanceKm, 'totals.distanceKm', 'TotalDistance');
+      issues.nonNegative(totals.pricePerKm, 'totals.pricePerKm', 'DeliveryCost');
+    }
+
+    if (issues.required(responsiblePerson, 'responsiblePerson', 'ResponsiblePerson')) {
+      issues.tin(responsiblePerson.pinfl, 'responsiblePerson.pinfl', 'ResponsiblePerson.Pinfl');
+      issues.required(responsiblePerson.fullName, 'responsiblePerson.fullName', 'ResponsiblePerson.FullName');
+    }
+  }
 }
 
 /**
@@ -1048,5 +1209,5 @@ class TtnBuilder extends BaseDocumentBuilder<ApiTtnPayload> {
  *   .build();
  * ```
  */
-export const ttn: DocumentBuilderFactory<ApiTtnPayload> = (initial?) => 
+export const ttn = (initial?: Partial<ApiTtnPayload>): TtnBuilder =>
   new TtnBuilder(initial);
\ No newline at end of file
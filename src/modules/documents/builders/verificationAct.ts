@@ -1,4 +1,5 @@
 import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocumentBuilder.js';
+import { DocumentType } from '../documents.enums.js';
 
 /**
  * Verification Act Document Builder (Stub)
@@ -6,7 +7,9 @@ import { BaseDocumentBuilder, DocumentBuilderFactory } from './base/BaseDocument
  * Builder for creating verification act documents.
  * This is a placeholder implementation that will be expanded in future stages.
  */
-class VerificationActBuilder extends BaseDocumentBuilder<any> {
+class VerificationActBuilder extends BaseDocumentBuilder<any, DocumentType.VERIFICATION_ACT> {
+  readonly docType = DocumentType.VERIFICATION_ACT;
+
   // TODO: Add verification act methods
 }
 
@@ -16,5 +19,5 @@ class VerificationActBuilder extends BaseDocumentBuilder<any> {
  * @param initial - Optional initial verification act data
  * @returns Verification act builder instance
  */
-export const verificationAct: DocumentBuilderFactory<any> = (initial?) => 
+export const verificationAct: DocumentBuilderFactory<any, DocumentType.VERIFICATION_ACT> = (initial?) => 
   new VerificationActBuilder(initial);
\ No newline at end of file
@@ -88,6 +88,26 @@ export enum OwnerType {
   OUTGOING = 1
 }
 
+/**
+ * Invoice (factura) type, sent as `FacturaType`
+ */
+export enum FacturaType {
+  /** Standard invoice */
+  STANDARD = 0,
+
+  /** Additional invoice (дополнительный) supplementing an earlier invoice */
+  ADDITIONAL = 1,
+
+  /** Reimbursement of expenses (возмещение расходов) */
+  EXPENSE_REIMBURSEMENT = 2,
+
+  /** Delivery without payment (без оплаты) */
+  WITHOUT_PAYMENT = 3,
+
+  /** Corrected invoice (исправленный) replacing an earlier invoice */
+  CORRECTED = 4
+}
+
 /**
  * Document output format enum
  */
@@ -1,4 +1,14 @@
 import type { DocumentType, DocumentStatus, OwnerType, DocumentOutputFormat } from './documents.enums.js';
+import type { Readable } from 'node:stream';
+import type { BaseDocumentBuilder } from './builders/base/BaseDocumentBuilder.js';
+import type { ApiInvoicePayload } from './builders/invoice.js';
+import type { ApiActPayload } from './builders/act.js';
+import type { ApiTtnPayload } from './builders/ttn.js';
+import type { ApiEmpowermentPayload } from './builders/empowerment.js';
+import type { ApiArbitraryDocumentPayload } from './builders/arbitrary.js';
+import type { ApiMultiPartyDocumentPayload } from './builders/multi-party.js';
+import type { ApiFoundersProtocolPayload } from './builders/founders-protocol.js';
+import type { ApiLetterNKPayload } from './builders/letter-nk.js';
 
 /**
  * Parameters for listing documents
@@ -115,12 +125,94 @@ export interface ListDocumentsParams {
   output?: 'raw' | 'normalized';
 }
 
+/**
+ * Parameters for iterating over all documents
+ * Same filters as `list`; `page` is the first page to read and `limit` the page size
+ */
+export type IterateDocumentsParams = Omit<ListDocumentsParams, 'page' | 'limit' | 'output'> & {
+  /**
+   * First page to read
+   * @default 1
+   */
+  page?: number;
+
+  /**
+   * Page size
+   * @default 100
+   * @maximum 100
+   */
+  limit?: number;
+};
+
+/**
+ * Options for `iterate` and `listAll`
+ */
+export interface DocumentIterationOptions {
+  /**
+   * Stop after this many documents
+   */
+  maxItems?: number;
+
+  /**
+   * Abort the iteration; the signal's reason is thrown
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Text in the languages supported by Didox
+ */
+export interface LocalizedName {
+  ru: string;
+  uz: string;
+  en: string;
+}
+
+/**
+ * Decoded document status
+ */
+export interface DocumentStatusInfo {
+  code: DocumentStatus;
+
+  /**
+   * `DocumentStatus` key, e.g. `SIGNED` (`UNKNOWN` for codes the SDK does not know)
+   */
+  name: string;
+
+  /**
+   * English description
+   */
+  description: string;
+
+  labels: LocalizedName;
+}
+
+/**
+ * Decoded document type
+ */
+export interface DocumentTypeInfo {
+  code: DocumentType;
+
+  /**
+   * `DocumentType` key, e.g. `FACTURA` (`UNKNOWN` for codes the SDK does not know)
+   */
+  name: string;
+
+  /**
+   * English description
+   */
+  description: string;
+
+  labels: LocalizedName;
+}
+
 /**
  * Document metadata interface
+ * Normalized form of a documents list item (`output: 'normalized'`, `iterate`, `listAll`)
  */
 export interface DocumentMetadata {
   /**
-   * Document unique identifier
+   * Document unique identifier ('' when the list item has none; see `raw`)
    */
   id: string;
 
@@ -129,16 +221,31 @@ export interface DocumentMetadata {
    */
   type: DocumentType;
 
+  /**
+   * Document type name in Russian, Uzbek and English
+   */
+  typeLabel: LocalizedName;
+
   /**
    * Document status
    */
   status: DocumentStatus;
 
+  /**
+   * Status name in Russian, Uzbek and English
+   */
+  statusLabel: LocalizedName;
+
   /**
    * Owner type (incoming/outgoing)
    */
   owner: OwnerType;
 
+  /**
+   * Direction from the current company's point of view
+   */
+  direction: 'incoming' | 'outgoing';
+
   /**
    * Document number
    */
@@ -147,17 +254,17 @@ export interface DocumentMetadata {
   /**
    * Document date
    */
-  date?: string;
+  date?: Date;
 
   /**
    * Creation timestamp
    */
-  createdAt: string;
+  createdAt: Date;
 
   /**
    * Last update timestamp
    */
-  updatedAt: string;
+  updatedAt: Date;
 
   /**
    * Partner information
@@ -166,10 +273,31 @@ export interface DocumentMetadata {
     tin: string;
     name: string;
   };
+
+  /**
+   * List item as returned by the API
+   */
+  raw: RawDocumentMetadata;
+}
+
+/**
+ * Documents list item as returned by the API (`doc_id`, `doctype`, `doc_status`, ...)
+ * Structure depends on Didox API version
+ */
+export type RawDocumentMetadata = unknown;
+
+/**
+ * Document count for one status or type
+ */
+export interface DocumentStatisticsEntry<T> {
+  code: T;
+  labels: LocalizedName;
+  count: number;
 }
 
 /**
  * Document statistics response
+ * Normalized form of `statistics` (`output: 'normalized'`)
  */
 export interface DocumentStatistics {
   /**
@@ -191,6 +319,26 @@ export interface DocumentStatistics {
    * Count by owner type
    */
   byOwner: Record<number, number>;
+
+  /**
+   * Counts by status with decoded names, in status code order
+   */
+  statuses: Array<DocumentStatisticsEntry<DocumentStatus>>;
+
+  /**
+   * Counts by document type with decoded names, in type code order
+   */
+  types: Array<DocumentStatisticsEntry<DocumentType>>;
+
+  /**
+   * Incoming documents count
+   */
+  incoming: number;
+
+  /**
+   * Outgoing documents count
+   */
+  outgoing: number;
 }
 
 /**
@@ -228,6 +376,224 @@ export interface DocumentPrivileges {
   canDownload: boolean;
 }
 
+/**
+ * Options for signing document actions (send, accept, reject, cancel)
+ */
+export interface DocumentActionOptions {
+  /**
+   * Base64-encoded PKCS#7 signature of the document, produced by an E-IMZO key
+   * When omitted, the configured `signer` signs the document
+   */
+  signature?: string;
+
+  /**
+   * Certificate used when the signature is created by the configured `signer`
+   */
+  certificateId?: string;
+
+  /**
+   * Skip the `getPrivileges` check before the action
+   * @default false
+   */
+  skipPrivilegeCheck?: boolean;
+}
+
+/**
+ * Document privilege checked before lifecycle actions
+ */
+export type DocumentPrivilege = keyof DocumentPrivileges;
+
+/**
+ * Raw lifecycle action response
+ * Structure depends on Didox API version; may contain the new document status
+ */
+export type RawDocumentActionResponse = unknown;
+
+/**
+ * Options for `waitForStatus`
+ */
+export interface WaitForStatusOptions {
+  /**
+   * Give up after this many milliseconds
+   * @default 300000 (5 minutes)
+   */
+  timeout?: number;
+
+  /**
+   * Delay before the second poll, in milliseconds
+   * @default 2000
+   */
+  interval?: number;
+
+  /**
+   * Upper bound for the delay between polls, in milliseconds
+   * @default 30000
+   */
+  maxInterval?: number;
+
+  /**
+   * Multiplier applied to the delay after every poll
+   * @default 1.5
+   */
+  backoffFactor?: number;
+
+  /**
+   * Abort waiting; the signal's reason is thrown
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for `waitForStatuses`
+ */
+export interface WaitForStatusesOptions extends WaitForStatusOptions {
+  /**
+   * Maximum number of `getById` requests in flight during one poll
+   * @default 5
+   */
+  concurrency?: number;
+}
+
+/**
+ * One draft of a `createDrafts` batch
+ * Pass either a ready `payload` with its `docType` or a `builder` (built when the item is processed).
+ */
+export interface CreateDraftItem<R = string> {
+  /**
+   * Didox document type code (e.g. '002'); defaults to the builder's `docType`
+   */
+  docType?: string;
+
+  payload?: unknown;
+  builder?: BaseDocumentBuilder<unknown>;
+
+  /**
+   * Caller reference (e.g. billing row ID) copied to the report
+   */
+  externalRef?: R;
+}
+
+/**
+ * Options for `createDrafts`
+ */
+export interface CreateDraftsOptions {
+  /**
+   * Maximum number of `createDraft` requests in flight
+   * @default 5
+   */
+  concurrency?: number;
+
+  /**
+   * Skip the remaining items after the first failure (requests in flight still complete)
+   * @default false
+   */
+  stopOnError?: boolean;
+}
+
+/**
+ * Outcome of one `createDrafts` item
+ * - `created`: the draft exists; `documentId` is its ID
+ * - `failed`: the item was rejected; `error` is the typed SDK error
+ * - `skipped`: not attempted because `stopOnError` stopped the batch
+ */
+export type CreateDraftItemResult<R = string> =
+  | {
+      status: 'created';
+      index: number;
+      docType: string;
+      externalRef?: R;
+      documentId: string;
+      response: RawDocumentResponse;
+    }
+  | {
+      status: 'failed';
+      index: number;
+      docType: string;
+      externalRef?: R;
+
+      /**
+       * `DidoxValidationError`, `DidoxServerValidationError`, `DidoxApiError`, ... (or a builder error)
+       */
+      error: Error;
+
+      /**
+       * Validation messages per field, from Didox or from client-side validation (empty otherwise)
+       */
+      fieldErrors: Record<string, string[]>;
+    }
+  | {
+      status: 'skipped';
+      index: number;
+      docType: string;
+      externalRef?: R;
+    };
+
+/**
+ * Per-item report of `createDrafts`
+ */
+export interface CreateDraftsReport<R = string> {
+  /**
+   * Results in input order
+   */
+  items: CreateDraftItemResult<R>[];
+
+  created: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Document rendition returned by `download`
+ * - `pdf`: printable form
+ * - `json`: document JSON as stored by Didox
+ * - `p7s`: signed CMS container with all signatures
+ * - `zip`: archive with the document and its signatures
+ */
+export type DocumentDownloadFormat = 'pdf' | 'json' | 'p7s' | 'zip';
+
+/**
+ * Options for downloading a document rendition
+ */
+export interface DownloadDocumentOptions {
+  format: DocumentDownloadFormat;
+
+  /**
+   * Return a readable stream (default, not held in memory) or a Buffer
+   * @default 'stream'
+   */
+  as?: 'stream' | 'buffer';
+
+  /**
+   * Request timeout in milliseconds (response headers only for streams)
+   */
+  timeout?: number;
+}
+
+/**
+ * Downloaded document rendition
+ */
+export interface DocumentDownload<T extends Readable | Buffer = Readable | Buffer> {
+  /**
+   * File contents: a stream that must be consumed, or a Buffer
+   */
+  data: T;
+
+  /**
+   * MIME type reported by Didox, e.g. `application/pdf`
+   */
+  contentType: string;
+
+  /**
+   * File name from Content-Disposition, or `<id>.<format>`
+   */
+  filename: string;
+
+  /**
+   * Size in bytes, when reported by Didox
+   */
+  size?: number;
+}
+
 /**
  * Document creation payload
  */
@@ -280,7 +646,7 @@ export interface DocumentsListResponse {
   /**
    * Array of documents
    */
-  data: DocumentMetadata[];
+  data: RawDocumentMetadata[];
 
   /**
    * Pagination metadata
@@ -333,6 +699,53 @@ export interface DocumentsStatisticsResponse {
   byOwner: Record<number, number>;
 }
 
+/**
+ * Document type code, as an enum member or its string value (e.g. `DocumentType.ACT` or `'005'`)
+ */
+export type DocumentTypeCode = `${DocumentType}`;
+
+/**
+ * Payload accepted by `createDraft` for each document type code
+ * Types without a dedicated builder accept any JSON object.
+ */
+export interface DocumentPayloadMap {
+  '002': ApiInvoicePayload; // DocumentType.FACTURA
+  '008': Record<string, unknown>; // DocumentType.FACTURA_PHARM
+  '023': Record<string, unknown>; // DocumentType.HYBRID_FACTURA
+  '041': ApiTtnPayload; // DocumentType.WAYBILL
+  '005': ApiActPayload; // DocumentType.ACT
+  '006': ApiEmpowermentPayload; // DocumentType.EMPOWERMENT
+  '007': Record<string, unknown>; // DocumentType.CONTRACT_NK
+  '000': ApiArbitraryDocumentPayload; // DocumentType.FREE_FORM
+  '052': Record<string, unknown>; // DocumentType.VERIFICATION_ACT
+  '054': Record<string, unknown>; // DocumentType.ACCEPTANCE_TRANSFER
+  '010': ApiMultiPartyDocumentPayload; // DocumentType.MULTI_FREE_FORM
+  '075': ApiFoundersProtocolPayload; // DocumentType.FOUNDERS_PROTOCOL
+  '013': ApiLetterNKPayload; // DocumentType.TAX_LETTER
+}
+
+/**
+ * Response of `createDraft` / `create` for a document type
+ */
+export interface CreateDraftResponse<T extends DocumentTypeCode = DocumentTypeCode> {
+  /**
+   * Created document in list format
+   */
+  document: {
+    doc_id: string;
+    doctype: T;
+    doc_status: DocumentStatus;
+    [key: string]: unknown;
+  };
+
+  /**
+   * Document JSON as stored by Didox
+   */
+  json: DocumentPayloadMap[T];
+
+  [key: string]: unknown;
+}
+
 /**
  * Raw document response from Didox API
  * Used for getById method - returns document as-is without normalization
@@ -1,11 +1,16 @@
 import { DidoxValidationError } from '../../http/errors.js';
-import type { ListDocumentsParams } from './documents.types.js';
+import type { CreateDraftsOptions, ListDocumentsParams, WaitForStatusesOptions } from './documents.types.js';
 
 /**
  * Date format regex (YYYY-MM-DD)
  */
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 
+/**
+ * Supported document download formats
+ */
+const DOWNLOAD_FORMATS: string[] = ['pdf', 'json', 'p7s', 'zip'];
+
 /**
  * Validates document ID format
  * @param id Document ID to validate
@@ -229,6 +234,98 @@ export function validateListDocumentsParams(params: ListDocumentsParams): void {
   }
 }
 
+/**
+ * Validates document rejection reason
+ * @param reason Reason shown to the sender
+ * @throws {DidoxValidationError} When reason is empty
+ */
+export function validateRejectReason(reason: string): void {
+  if (!reason || typeof reason !== 'string' || reason.trim().length === 0) {
+    throw new DidoxValidationError('Reject reason is required and must be a non-empty string', 'reason');
+  }
+}
+
+/**
+ * Validates the item cap of a paged iteration
+ * @param maxItems Maximum number of documents to read
+ * @throws {DidoxValidationError} When maxItems is not a positive integer
+ */
+export function validateMaxItems(maxItems: number): void {
+  if (!Number.isInteger(maxItems) || maxItems < 1) {
+    throw new DidoxValidationError('maxItems must be a positive integer', 'maxItems');
+  }
+}
+
+/**
+ * Validates parameters of waitForStatus / waitForStatuses
+ * @param ids Document IDs to wait for
+ * @param targetStatuses Statuses that end the wait
+ * @param options Timing options
+ * @throws {DidoxValidationError} When any parameter is invalid
+ */
+export function validateWaitParams(
+  ids: string[],
+  targetStatuses: number[],
+  options: WaitForStatusesOptions
+): void {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw new DidoxValidationError('At least one document ID is required', 'ids');
+  }
+  ids.forEach(validateDocumentId);
+
+  if (targetStatuses.length === 0) {
+    throw new DidoxValidationError('At least one target status is required', 'targetStatuses');
+  }
+  validateStatus(targetStatuses);
+
+  for (const field of ['timeout', 'interval', 'maxInterval'] as const) {
+    const value = options[field];
+    if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+      throw new DidoxValidationError(`${field} must be a positive number of milliseconds`, field);
+    }
+  }
+
+  if (options.backoffFactor !== undefined && (!Number.isFinite(options.backoffFactor) || options.backoffFactor < 1)) {
+    throw new DidoxValidationError('backoffFactor must be a number greater than or equal to 1', 'backoffFactor');
+  }
+
+  if (options.concurrency !== undefined && (!Number.isInteger(options.concurrency) || options.concurrency < 1)) {
+    throw new DidoxValidationError('concurrency must be a positive integer', 'concurrency');
+  }
+}
+
+/**
+ * Validates parameters of createDrafts
+ * Items themselves are validated one by one, so a bad item fails alone.
+ * @param items Drafts to create
+ * @param options Batch options
+ * @throws {DidoxValidationError} When the batch parameters are invalid
+ */
+export function validateCreateDraftsParams(items: unknown, options: CreateDraftsOptions): void {
+  if (!Array.isArray(items)) {
+    throw new DidoxValidationError('Items must be an array', 'items');
+  }
+
+  if (options.concurrency !== undefined && (!Number.isInteger(options.concurrency) || options.concurrency < 1)) {
+    throw new DidoxValidationError('concurrency must be a positive integer', 'concurrency');
+  }
+}
+
+/**
+ * Validates document download format
+ *
+ * @param format - Requested rendition
+ * @throws {DidoxValidationError} When format is not supported
+ */
+export function validateDownloadFormat(format: string): void {
+  if (!DOWNLOAD_FORMATS.includes(format)) {
+    throw new DidoxValidationError(
+      `Download format must be one of: ${DOWNLOAD_FORMATS.join(', ')}`,
+      'format'
+    );
+  }
+}
+
 /**
  * Validates parameters for createDraft method
  * 
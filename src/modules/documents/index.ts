@@ -11,8 +11,35 @@
 export { DocumentsClient } from './DocumentsClient.js';
 
 // Document builders infrastructure
-export { builders, BaseDocumentBuilder } from './builders/index.js';
-export type { DocumentBuilderFactory } from './builders/index.js';
+export {
+  builders,
+  BaseDocumentBuilder,
+  InvoiceBuilder,
+  ActBuilder,
+  TtnBuilder,
+  EmpowermentBuilder,
+  ArbitraryDocumentBuilder,
+  MultiPartyDocumentBuilder,
+  FoundersProtocolBuilder,
+  LetterNKBuilder,
+  ValidationCollector,
+  calculateTotals
+} from './builders/index.js';
+export type {
+  DocumentBuilderFactory,
+  DocumentTotals,
+  InvoiceLineChange,
+  InvoiceLineDelta,
+  LineTotals,
+  PricedLine,
+  PricingOptions,
+  RoundingStrategy,
+  TtnTotals,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+  ValidationSeverity
+} from './builders/index.js';
 
 // Type definitions
 export type {
@@ -36,7 +63,8 @@ export type {
 export {
   DocumentType,
   DocumentStatus,
-  OwnerType
+  OwnerType,
+  FacturaType
 } from './documents.enums.js';
 
 // Validation functions
@@ -14,7 +14,7 @@ import { DidoxValidationError } from '../../http/errors.js';
  * Product Classes (ИКПУ) API module
  */
 export class ProductClassesApi {
-  constructor(private httpClient: HttpClient) {}
+  constructor(private httpClient: HttpClient, private timeout?: number) {}
 
   /**
    * Get attached product class codes for current profile
@@ -26,7 +26,10 @@ export class ProductClassesApi {
    * ```
    */
   async getProductClassCodes(): Promise<ProductClassCodesResponse> {
-    const response = await this.httpClient.get<ProductClassCodesResponse>('/v1/profile/productClassCodes');
+    const response = await this.httpClient.get<ProductClassCodesResponse>('/v1/profile/productClassCodes', {
+      operation: 'profile.getProductClassCodes',
+      timeout: this.timeout
+    });
     return response.data;
   }
 
@@ -63,7 +66,10 @@ export class ProductClassesApi {
 
     const url = `/v1/profile/productClassCodes${searchParams.toString() ? '?' + searchParams.toString() : ''}`;
     
-    const response = await this.httpClient.get<ProductClassSearchResponse>(url);
+    const response = await this.httpClient.get<ProductClassSearchResponse>(url, {
+      operation: 'profile.searchProductClasses',
+      timeout: this.timeout
+    });
     return response.data;
   }
 
@@ -89,7 +95,10 @@ export class ProductClassesApi {
 
     const body: AddProductClassRequest = { classCode };
 
-    const response = await this.httpClient.post<AddProductClassResponse>('/v1/profile/productClasses', body);
+    const response = await this.httpClient.post<AddProductClassResponse>('/v1/profile/productClasses', body, {
+      operation: 'profile.addProductClass',
+      timeout: this.timeout
+    });
     return response.data;
   }
 
@@ -113,7 +122,10 @@ export class ProductClassesApi {
       throw new DidoxValidationError('Class code must contain only digits');
     }
 
-    const response = await this.httpClient.delete<RemoveProductClassResponse>(`/v1/profile/productClasses/${classCode}`);
+    const response = await this.httpClient.delete<RemoveProductClassResponse>(`/v1/profile/productClasses/${classCode}`, {
+      operation: 'profile.removeProductClass',
+      timeout: this.timeout
+    });
     return response.data;
   }
 
@@ -150,7 +162,8 @@ export class ProductClassesApi {
     }
 
     const response = await this.httpClient.get<ProductClassesCodeCheckResponse[]>(
-      `/v1/profile/${taxId}/productClasses/check/${code}/${lang}`
+      `/v1/profile/${taxId}/productClasses/check/${code}/${lang}`,
+      { operation: 'profile.checkProductClassCode', timeout: this.timeout }
     );
     return response.data;
   }
@@ -1,5 +1,5 @@
 import { HttpClient } from '../../http/httpClient.js';
-import { DidoxAuthError, DidoxApiError } from '../../http/errors.js';
+import { DidoxAuthError, DidoxApiError, DidoxServerValidationError } from '../../http/errors.js';
 import {
   validateNotifications,
   validateRegionId,
@@ -30,11 +30,14 @@ export class ProfileApi {
   public readonly warehouses: WarehousesApi;
   public readonly users: UsersApi;
 
-  constructor(private readonly httpClient: HttpClient) {
-    this.productClasses = new ProductClassesApi(httpClient);
-    this.vat = new VatApi(httpClient);
-    this.warehouses = new WarehousesApi(httpClient);
-    this.users = new UsersApi(httpClient);
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly timeout?: number
+  ) {
+    this.productClasses = new ProductClassesApi(httpClient, timeout);
+    this.vat = new VatApi(httpClient, timeout);
+    this.warehouses = new WarehousesApi(httpClient, timeout);
+    this.users = new UsersApi(httpClient, timeout);
   }
 
   /**
@@ -70,13 +73,17 @@ export class ProfileApi {
     const endpoint = '/v1/profile';
 
     try {
-      const response = await this.httpClient.get<CompanyProfile>(endpoint);
+      const response = await this.httpClient.get<CompanyProfile>(endpoint, {
+        operation: 'profile.getProfile',
+        timeout: this.timeout
+      });
       return response.data;
     } catch (error) {
       if (error instanceof DidoxApiError && error.statusCode === 401) {
         throw new DidoxAuthError(
           'Unauthorized: Invalid user key',
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
@@ -93,7 +100,7 @@ export class ProfileApi {
    * @returns Promise resolving to updated profile information
    * 
    * @throws {DidoxValidationError} When input validation fails
-   * @throws {DidoxApiError} When profile update fails (422 status)
+   * @throws {DidoxServerValidationError} When profile update is rejected (422 status), with `fieldErrors`
    * @throws {DidoxAuthError} When authentication fails
    * @throws {DidoxNetworkError} When network request fails
    * 
@@ -112,8 +119,8 @@ export class ProfileApi {
    * } catch (error) {
    *   if (error instanceof DidoxValidationError) {
    *     console.error('Validation failed:', error.message, 'Field:', error.field);
-   *   } else if (error instanceof DidoxApiError && error.statusCode === 422) {
-   *     console.error('Update failed:', error.message);
+   *   } else if (error instanceof DidoxServerValidationError) {
+   *     console.error('Update failed:', error.message, error.fieldErrors);
    *   }
    * }
    * ```
@@ -140,16 +147,22 @@ export class ProfileApi {
     try {
       const response = await this.httpClient.post<ProfileUpdateResponse>(
         endpoint,
-        request
+        request,
+        { operation: 'profile.updateProfile', timeout: this.timeout }
       );
 
       return response.data;
     } catch (error) {
-      if (error instanceof DidoxApiError && error.statusCode === 422) {
-        throw new DidoxApiError(
-          'User not updated',
+      if (error instanceof DidoxServerValidationError) {
+        throw new DidoxServerValidationError(
+          'User not updated: ' + error.message,
           error.statusCode,
-          error.response
+          error.response,
+          {
+            ...(error.code !== undefined && { code: error.code }),
+            ...(error.details !== undefined && { details: error.details })
+          },
+          error.fieldErrors
         );
       }
       throw error;
@@ -190,13 +203,17 @@ export class ProfileApi {
     const endpoint = '/v1/profile/operators';
 
     try {
-      const response = await this.httpClient.get<ProfileOperators>(endpoint);
+      const response = await this.httpClient.get<ProfileOperators>(endpoint, {
+        operation: 'profile.getOperators',
+        timeout: this.timeout
+      });
       return response.data;
     } catch (error) {
       if (error instanceof DidoxApiError && error.statusCode === 401) {
         throw new DidoxAuthError(
           'Unauthorized: Invalid user key',
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
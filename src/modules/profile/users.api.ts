@@ -9,7 +9,7 @@ import { DidoxValidationError } from '../../http/errors.js';
  * Company users and permissions API module
  */
 export class UsersApi {
-  constructor(private httpClient: HttpClient) {}
+  constructor(private httpClient: HttpClient, private timeout?: number) {}
 
   /**
    * Update company users permissions
@@ -47,7 +47,8 @@ export class UsersApi {
 
     const response = await this.httpClient.put<UpdateCompanyUsersPermissionsResponse>(
       '/v1/profile/company/users',
-      permissions
+      permissions,
+      { operation: 'profile.updateCompanyUsersPermissions', timeout: this.timeout }
     );
     return response.data;
   }
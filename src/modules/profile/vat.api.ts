@@ -10,7 +10,7 @@ import { DidoxValidationError } from '../../http/errors.js';
  * VAT and taxpayer information API module
  */
 export class VatApi {
-  constructor(private httpClient: HttpClient) {}
+  constructor(private httpClient: HttpClient, private timeout?: number) {}
 
   /**
    * Get VAT registration status by TIN or PINFL
@@ -51,7 +51,10 @@ export class VatApi {
       url += `?document_date=${documentDate}`;
     }
 
-    const response = await this.httpClient.get<VatRegStatusResponse>(url);
+    const response = await this.httpClient.get<VatRegStatusResponse>(url, {
+      operation: 'profile.getVatRegStatus',
+      timeout: this.timeout
+    });
     return response.data;
   }
 
@@ -96,7 +99,10 @@ export class VatApi {
       url += `?date=${encodeURIComponent(date)}`;
     }
 
-    const response = await this.httpClient.get<TaxpayerTypeResponse>(url);
+    const response = await this.httpClient.get<TaxpayerTypeResponse>(url, {
+      operation: 'profile.getTaxpayerType',
+      timeout: this.timeout
+    });
     return response.data;
   }
 }
\ No newline at end of file
@@ -6,7 +6,7 @@ import { DidoxValidationError } from '../../http/errors.js';
  * Warehouses API module
  */
 export class WarehousesApi {
-  constructor(private httpClient: HttpClient) {}
+  constructor(private httpClient: HttpClient, private timeout?: number) {}
 
   /**
    * Get warehouses by TIN or PINFL
@@ -34,7 +34,10 @@ export class WarehousesApi {
       throw new DidoxValidationError('TIN must be exactly 9 digits or PINFL must be exactly 14 digits');
     }
 
-    const response = await this.httpClient.get<WarehousesResponse>(`/v1/profile/warehouses/${taxIdOrPinfl}`);
+    const response = await this.httpClient.get<WarehousesResponse>(`/v1/profile/warehouses/${taxIdOrPinfl}`, {
+      operation: 'profile.getWarehouses',
+      timeout: this.timeout
+    });
     return response.data;
   }
 }
\ No newline at end of file
@@ -7,7 +7,10 @@ import type { CompanyBranch, GetBranchesByTinRequest, LegalEntityInfo } from './
  * Utilities API implementation
  */
 export class UtilitiesApi {
-  constructor(private readonly httpClient: HttpClient) {}
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly timeout?: number
+  ) {}
 
   /**
    * Get branches by TIN
@@ -52,13 +55,17 @@ export class UtilitiesApi {
     const endpoint = `/v1/profile/branches?tin=${encodeURIComponent(request.tin)}`;
 
     try {
-      const response = await this.httpClient.get<CompanyBranch[]>(endpoint);
+      const response = await this.httpClient.get<CompanyBranch[]>(endpoint, {
+        operation: 'utilities.getBranchesByTin',
+        timeout: this.timeout
+      });
       return response.data;
     } catch (error) {
       if (error instanceof DidoxApiError && error.statusCode === 401) {
         throw new DidoxAuthError(
           'Unauthorized: Invalid user key',
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
@@ -108,13 +115,17 @@ export class UtilitiesApi {
     const endpoint = `/v1/utils/info/${taxId}`;
 
     try {
-      const response = await this.httpClient.get<LegalEntityInfo>(endpoint);
+      const response = await this.httpClient.get<LegalEntityInfo>(endpoint, {
+        operation: 'utilities.getLegalEntityInfoByTin',
+        timeout: this.timeout
+      });
       return response.data;
     } catch (error) {
       if (error instanceof DidoxApiError && error.statusCode === 401) {
         throw new DidoxAuthError(
           'Unauthorized: Invalid user key',
-          error.statusCode
+          error.statusCode,
+          error
         );
       }
       throw error;
@@ -0,0 +1,43 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { DidoxSignatureError } from '../http/errors.js';
+import { SoftwareSignatureProvider } from './SoftwareSignatureProvider.js';
+
+const pfx = readFileSync(join(__dirname, '__fixtures__', 'rc2-40.p12'));
+
+describe('SoftwareSignatureProvider', () => {
+  it('reads the TIN and PINFL of a PFX certificate', async () => {
+    const signer = SoftwareSignatureProvider.fromPfx(pfx, 'secret');
+    const [certificate] = await signer.getCertificates();
+
+    expect(certificate).toMatchObject({
+      tin: '123456789',
+      pinfl: '12345678901234',
+      subject: expect.stringContaining('CN=Test Company')
+    });
+    expect(certificate!.id).toBe(certificate!.serialNumber);
+  });
+
+  it('rejects a wrong PFX password with DidoxSignatureError', () => {
+    expect(() => SoftwareSignatureProvider.fromPfx(pfx, 'wrong')).toThrow(DidoxSignatureError);
+  });
+
+  it('signs with the PFX key as base64 CMS', async () => {
+    const signer = SoftwareSignatureProvider.fromPfx(pfx, 'secret');
+    const [certificate] = await signer.getCertificates();
+
+    const attached = Buffer.from(await signer.sign('payload'), 'base64');
+    const detached = Buffer.from(await signer.sign('payload', { detached: true }), 'base64');
+
+    expect(attached.includes(Buffer.from('payload'))).toBe(true);
+    expect(detached.includes(Buffer.from('payload'))).toBe(false);
+    await expect(signer.sign('payload', { certificateId: certificate!.id.toLowerCase() })).resolves.toEqual(expect.any(String));
+    await expect(signer.sign('payload', { certificateId: 'FF' })).rejects.toThrow('Certificate FF is not available');
+  });
+
+  it('requires a timestamper to attach timestamps', async () => {
+    const signer = SoftwareSignatureProvider.fromPfx(pfx, 'secret');
+
+    await expect(signer.attachTimestamp(await signer.sign('payload'))).rejects.toThrow(DidoxSignatureError);
+  });
+});
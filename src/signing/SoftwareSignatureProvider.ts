@@ -0,0 +1,223 @@
+import { createPrivateKey, KeyObject, X509Certificate } from 'node:crypto';
+import { DidoxSignatureError } from '../http/errors.js';
+import { addTimestampToken, createSignedData, readSignatureValue } from './cms.js';
+import { readPkcs12 } from './pkcs12.js';
+import type {
+  SignatureProvider,
+  SignerCertificate,
+  SignOptions,
+  SoftwareSignatureProviderOptions,
+  Timestamper
+} from './signature.types.js';
+
+/**
+ * Subject attributes carrying Uzbek identifiers
+ * E-IMZO certificates use the 1.2.860.3.16.1.x OIDs; UID is common in test certificates
+ */
+const TIN_ATTRIBUTES = ['1.2.860.3.16.1.1', 'UID'];
+const PINFL_ATTRIBUTES = ['1.2.860.3.16.1.2'];
+
+/**
+ * Signature provider backed by a local private key
+ *
+ * Produces PKCS#7/CMS SignedData (SHA-256 with RSA or ECDSA) using Node `crypto`.
+ * Intended for tests and for server-side keys; interactive E-IMZO signing needs
+ * a provider that talks to the E-IMZO agent.
+ *
+ * PFX files may use PBES2 (AES or 3DES) or the legacy SHA-1 schemes with 3DES or
+ * RC2; RC4-encrypted files must be re-exported.
+ *
+ * @example
+ * ```typescript
+ * const signer = SoftwareSignatureProvider.fromPfx(
+ *   await readFile('robot.pfx'),
+ *   process.env.PFX_PASSWORD!
+ * );
+ *
+ * const didox = new DidoxClient({
+ *   partnerToken: 'your-partner-token',
+ *   environment: 'production',
+ *   signer
+ * });
+ *
+ * await didox.documents.send(draftId);
+ * ```
+ */
+export class SoftwareSignatureProvider implements SignatureProvider {
+  private readonly privateKey: KeyObject;
+  private readonly certificate: X509Certificate;
+  private readonly chain: X509Certificate[];
+  private readonly timestamper: Timestamper | undefined;
+  private readonly now: () => Date;
+
+  /**
+   * @param options - Key, certificate and timestamp settings
+   * @throws {DidoxSignatureError} When the key or certificate cannot be read or do not match
+   */
+  constructor(options: SoftwareSignatureProviderOptions) {
+    try {
+      this.privateKey = options.key instanceof KeyObject
+        ? options.key
+        : createPrivateKey({
+            key: options.key,
+            ...(Buffer.isBuffer(options.key) && { format: 'der', type: 'pkcs8' }),
+            ...(options.passphrase !== undefined && { passphrase: options.passphrase })
+          } as Parameters<typeof createPrivateKey>[0]);
+    } catch (error) {
+      throw new DidoxSignatureError('Cannot read signing key', error as Error);
+    }
+
+    const [certificate, ...bundled] = parseCertificates(options.certificate);
+    if (!certificate) {
+      throw new DidoxSignatureError('Signer certificate is required');
+    }
+
+    if (!certificate.checkPrivateKey(this.privateKey)) {
+      throw new DidoxSignatureError('Signer certificate does not match the private key');
+    }
+
+    this.certificate = certificate;
+    this.chain = [...bundled, ...(options.chain ?? []).flatMap(parseCertificates)];
+    this.timestamper = options.timestamper;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Create a provider from a PKCS#12 (PFX/P12) file
+   *
+   * @param pfx - File contents
+   * @param password - File password
+   * @param options - Timestamp and clock settings
+   * @throws {DidoxSignatureError} When the file cannot be opened (wrong password, RC4 encryption)
+   */
+  public static fromPfx(
+    pfx: Buffer,
+    password: string,
+    options: Pick<SoftwareSignatureProviderOptions, 'timestamper' | 'now'> = {}
+  ): SoftwareSignatureProvider {
+    let contents: ReturnType<typeof readPkcs12>;
+    try {
+      contents = readPkcs12(pfx, password);
+    } catch (error) {
+      throw new DidoxSignatureError((error as Error).message, error as Error);
+    }
+
+    // The signer certificate is the one matching the key; the rest form the chain
+    const certificates = contents.certificates.map(der => new X509Certificate(der));
+    const signer = certificates.find(certificate => certificate.checkPrivateKey(contents.privateKey));
+    if (!signer) {
+      throw new DidoxSignatureError('PKCS#12 file contains no certificate for its private key');
+    }
+
+    return new SoftwareSignatureProvider({
+      key: contents.privateKey,
+      certificate: signer.raw,
+      chain: certificates.filter(certificate => certificate !== signer).map(certificate => certificate.raw),
+      ...options
+    });
+  }
+
+  /**
+   * List the signer certificate
+   */
+  public async getCertificates(): Promise<SignerCertificate[]> {
+    return [describeCertificate(this.certificate)];
+  }
+
+  /**
+   * Sign data with the local key
+   *
+   * @param data - Data to sign (strings are encoded as UTF-8)
+   * @param options - Certificate and signature format
+   * @returns Base64-encoded CMS SignedData
+   * @throws {DidoxSignatureError} When another certificate is requested or the key type is unsupported
+   */
+  public async sign(data: string | Uint8Array, options: SignOptions = {}): Promise<string> {
+    const certificateId = describeCertificate(this.certificate).id;
+    if (options.certificateId !== undefined && options.certificateId.toUpperCase() !== certificateId) {
+      throw new DidoxSignatureError(`Certificate ${options.certificateId} is not available`);
+    }
+
+    try {
+      const signature = createSignedData({
+        content: typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(data),
+        detached: options.detached ?? false,
+        certificate: this.certificate.raw,
+        chain: this.chain.map(certificate => certificate.raw),
+        privateKey: this.privateKey,
+        signingTime: this.now()
+      });
+      return signature.toString('base64');
+    } catch (error) {
+      throw new DidoxSignatureError(`Signing failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Attach an RFC 3161 timestamp obtained from the configured timestamper
+   *
+   * @param signature - Base64-encoded CMS SignedData
+   * @returns Base64-encoded CMS SignedData with a timestamp token
+   * @throws {DidoxSignatureError} When no timestamper is configured or the request fails
+   */
+  public async attachTimestamp(signature: string): Promise<string> {
+    if (!this.timestamper) {
+      throw new DidoxSignatureError('No timestamper configured for SoftwareSignatureProvider');
+    }
+
+    try {
+      const contentInfo = Buffer.from(signature, 'base64');
+      const token = await this.timestamper(readSignatureValue(contentInfo));
+      return addTimestampToken(contentInfo, token).toString('base64');
+    } catch (error) {
+      throw new DidoxSignatureError(`Timestamp failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+}
+
+/**
+ * Parse PEM (one or more blocks) or DER certificates
+ */
+function parseCertificates(input: string | Buffer): X509Certificate[] {
+  try {
+    const text = typeof input === 'string' ? input : input.toString('latin1');
+    const blocks = text.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+
+    if (blocks) {
+      return blocks.map(block => new X509Certificate(block));
+    }
+    return [new X509Certificate(Buffer.isBuffer(input) ? input : Buffer.from(input, 'base64'))];
+  } catch (error) {
+    throw new DidoxSignatureError('Cannot read certificate', error as Error);
+  }
+}
+
+/**
+ * Describe a certificate for `getCertificates`
+ */
+function describeCertificate(certificate: X509Certificate): SignerCertificate {
+  const attribute = (names: string[]) => {
+    for (const line of certificate.subject.split('\n')) {
+      const [name, ...value] = line.split('=');
+      if (name && names.includes(name)) {
+        return value.join('=');
+      }
+    }
+    return undefined;
+  };
+
+  const tin = attribute(TIN_ATTRIBUTES);
+  const pinfl = attribute(PINFL_ATTRIBUTES);
+
+  return {
+    id: certificate.serialNumber.toUpperCase(),
+    subject: certificate.subject.split('\n').join(', '),
+    issuer: certificate.issuer.split('\n').join(', '),
+    serialNumber: certificate.serialNumber.toUpperCase(),
+    validFrom: new Date(certificate.validFrom),
+    validTo: new Date(certificate.validTo),
+    ...(tin !== undefined && { tin }),
+    ...(pinfl !== undefined && { pinfl }),
+    pem: certificate.toString()
+  };
+}
@@ -0,0 +1,34 @@
+#!/bin/sh
+# Regenerate the PKCS#12 test files (OpenSSL 3)
+# Every file holds the same EC P-256 key and certificate, password "secret"
+set -e
+cd "$(dirname "$0")"
+
+work=$(mktemp -d)
+trap 'rm -rf "$work"' EXIT
+
+openssl ecparam -name prime256v1 -genkey -noout -out "$work/key.pem"
+# TIN in UID, PINFL in the E-IMZO attribute
+cat > "$work/req.cnf" <<CNF
+oid_section = oids
+[ oids ]
+pinfl = 1.2.860.3.16.1.2
+[ req ]
+distinguished_name = dn
+[ dn ]
+CNF
+openssl req -new -x509 -config "$work/req.cnf" -key "$work/key.pem" -out "$work/cert.pem" -days 36500 \
+  -subj "/CN=Test Company/O=Test Company/UID=123456789/pinfl=12345678901234"
+
+export_pfx() {
+  openssl pkcs12 -export -inkey "$work/key.pem" -in "$work/cert.pem" -passout pass:secret "$@"
+}
+
+# OpenSSL 3 default: PBES2 with PBKDF2 and AES-256-CBC
+export_pfx -out aes.p12
+# Legacy SHA-1 schemes used by older OpenSSL and Windows exports
+export_pfx -legacy -out 3des.p12 -keypbe PBE-SHA1-3DES -certpbe PBE-SHA1-3DES
+export_pfx -legacy -out rc2-40.p12 -keypbe PBE-SHA1-3DES -certpbe PBE-SHA1-RC2-40
+export_pfx -legacy -out rc2-128.p12 -keypbe PBE-SHA1-RC2-128 -certpbe PBE-SHA1-RC2-128
+# Not supported, must be re-exported
+export_pfx -legacy -out rc4.p12 -keypbe PBE-SHA1-RC4-128 -certpbe PBE-SHA1-RC4-128
@@ -0,0 +1,77 @@
+import { createHash, verify, X509Certificate } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { OID, addTimestampToken, createSignedData, readSignatureValue } from './cms.js';
+import { DerNode, Tag, integer, readChildren, readDer, readOid, sequence, tlv } from './der.js';
+import { readPkcs12 } from './pkcs12.js';
+
+const { privateKey, certificates } = readPkcs12(readFileSync(join(__dirname, '__fixtures__', 'aes.p12')), 'secret');
+const certificate = new X509Certificate(certificates[0]!);
+const content = Buffer.from('{"FacturaId":"F-1"}');
+
+/**
+ * Encapsulated content and first SignerInfo of a ContentInfo
+ */
+function parse(contentInfo: Buffer): { encapsulated: DerNode[]; signerInfo: DerNode[] } {
+  const [type, explicit] = readChildren(readDer(contentInfo));
+  expect(readOid(type!)).toBe(OID.signedData);
+
+  const fields = readChildren(readDer(explicit!.content));
+  const signerInfos = readChildren(fields[fields.length - 1]!);
+  return { encapsulated: readChildren(fields[2]!), signerInfo: readChildren(signerInfos[0]!) };
+}
+
+/**
+ * Check the signer's signature over the signed attributes and the content digest they carry
+ */
+function verifySignerInfo(signerInfo: DerNode[], signed: Buffer): boolean {
+  const attributes = signerInfo.find(node => node.tag === 0xa0)!;
+  const signature = signerInfo.find(node => node.tag === Tag.OCTET_STRING)!;
+
+  const digest = readChildren(attributes)
+    .map(attribute => readChildren(attribute))
+    .find(([type]) => readOid(type!) === OID.messageDigest)!;
+  const [value] = readChildren(digest[1]!);
+
+  // Signed attributes are signed with their SET tag, not the [0] stored in SignerInfo
+  return value!.content.equals(createHash('sha256').update(signed).digest()) &&
+    verify('sha256', tlv(Tag.SET, attributes.content), certificate.publicKey, signature.content);
+}
+
+describe('createSignedData', () => {
+  const input = { content, certificate: certificate.raw, chain: [], privateKey, signingTime: new Date('2026-03-10T07:00:00Z') };
+
+  it('creates an attached signature that verifies with the signer certificate', () => {
+    const { encapsulated, signerInfo } = parse(createSignedData({ ...input, detached: false }));
+
+    expect(readOid(encapsulated[0]!)).toBe(OID.data);
+    expect(readDer(encapsulated[1]!.content).content).toEqual(content);
+    expect(readOid(readChildren(signerInfo[4]!)[0]!)).toBe(OID.ecdsaWithSha256);
+    expect(verifySignerInfo(signerInfo, content)).toBe(true);
+  });
+
+  it('creates a detached signature without the content', () => {
+    const { encapsulated, signerInfo } = parse(createSignedData({ ...input, detached: true }));
+
+    expect(encapsulated).toHaveLength(1);
+    expect(verifySignerInfo(signerInfo, content)).toBe(true);
+    expect(verifySignerInfo(signerInfo, Buffer.from('tampered'))).toBe(false);
+  });
+
+  it('adds a timestamp token without touching the signature', () => {
+    const signed = createSignedData({ ...input, detached: true });
+    const token = sequence(integer(1));
+    const stamped = addTimestampToken(addTimestampToken(signed, sequence(integer(2))), token);
+
+    const { signerInfo } = parse(stamped);
+    const unsigned = readChildren(signerInfo[signerInfo.length - 1]!);
+    expect(unsigned).toHaveLength(1);
+
+    const [type, values] = readChildren(unsigned[0]!);
+    expect(readOid(type!)).toBe(OID.timeStampToken);
+    expect(values!.content).toEqual(token);
+
+    expect(readSignatureValue(stamped)).toEqual(readSignatureValue(signed));
+    expect(verifySignerInfo(signerInfo, content)).toBe(true);
+  });
+});
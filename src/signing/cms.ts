@@ -0,0 +1,206 @@
+import { createHash, sign as cryptoSign, KeyObject } from 'node:crypto';
+import {
+  DerNode,
+  Tag,
+  algorithm,
+  contextTag,
+  integer,
+  nullValue,
+  octetString,
+  oid,
+  readChildren,
+  readDer,
+  readOid,
+  sequence,
+  set,
+  time,
+  tlv
+} from './der.js';
+
+/**
+ * Object identifiers used in CMS signatures
+ */
+export const OID = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  timeStampToken: '1.2.840.113549.1.9.16.2.14'
+} as const;
+
+/**
+ * Input for a CMS SignedData signature
+ */
+export interface SignedDataInput {
+  /**
+   * Data to sign
+   */
+  content: Buffer;
+
+  /**
+   * Omit the content from the signature (detached signature)
+   */
+  detached: boolean;
+
+  /**
+   * Signer certificate (DER)
+   */
+  certificate: Buffer;
+
+  /**
+   * Intermediate certificates to embed (DER)
+   */
+  chain: Buffer[];
+
+  /**
+   * Signer private key (RSA or EC)
+   */
+  privateKey: KeyObject;
+
+  /**
+   * Value of the signing-time attribute
+   */
+  signingTime: Date;
+}
+
+/**
+ * Create a PKCS#7/CMS SignedData structure (SHA-256, signed attributes)
+ *
+ * @returns DER-encoded ContentInfo
+ * @throws {Error} When the key type is not supported
+ */
+export function createSignedData(input: SignedDataInput): Buffer {
+  const { issuer, serialNumber } = readIssuerAndSerial(input.certificate);
+  const digest = createHash('sha256').update(input.content).digest();
+
+  const attributes = [
+    sequence(oid(OID.contentType), set(oid(OID.data))),
+    sequence(oid(OID.signingTime), set(time(input.signingTime))),
+    sequence(oid(OID.messageDigest), set(octetString(digest)))
+  ];
+
+  // The signature covers the DER encoding of the attributes as a SET
+  const signedAttributes = set(...attributes);
+  const signature = cryptoSign('sha256', signedAttributes, input.privateKey);
+
+  const signerInfo = sequence(
+    integer(1),
+    sequence(issuer, serialNumber),
+    algorithm(OID.sha256),
+    // Stored as [0] IMPLICIT: same content, context-specific tag
+    tlv(0xa0, readDer(signedAttributes).content),
+    signatureAlgorithm(input.privateKey),
+    octetString(signature)
+  );
+
+  const encapsulatedContent = input.detached
+    ? sequence(oid(OID.data))
+    : sequence(oid(OID.data), contextTag(0, octetString(input.content)));
+
+  const signedData = sequence(
+    integer(1),
+    set(algorithm(OID.sha256)),
+    encapsulatedContent,
+    tlv(0xa0, input.certificate, ...input.chain),
+    set(signerInfo)
+  );
+
+  return sequence(oid(OID.signedData), contextTag(0, signedData));
+}
+
+/**
+ * Get the signature value of the first signer (input for a timestamp request)
+ */
+export function readSignatureValue(contentInfo: Buffer): Buffer {
+  const signerInfo = readFirstSignerInfo(contentInfo);
+  const signature = readChildren(signerInfo).find(node => node.tag === Tag.OCTET_STRING);
+  if (!signature) {
+    throw new Error('SignerInfo has no signature value');
+  }
+  return Buffer.from(signature.content);
+}
+
+/**
+ * Add an RFC 3161 timestamp token as an unsigned attribute of the first signer
+ *
+ * @param contentInfo - DER-encoded CMS ContentInfo
+ * @param token - DER-encoded TimeStampToken (ContentInfo)
+ * @returns Updated DER-encoded ContentInfo
+ */
+export function addTimestampToken(contentInfo: Buffer, token: Buffer): Buffer {
+  const root = readSignedDataRoot(contentInfo);
+  const signedDataFields = readChildren(readDer(root[1]!.content));
+  const signerInfos = readChildren(signedDataFields[signedDataFields.length - 1]!);
+
+  const [first, ...others] = signerInfos;
+  const attribute = sequence(oid(OID.timeStampToken), set(token));
+
+  // Replace existing unsigned attributes ([1] IMPLICIT SET) with the new timestamp
+  const withoutUnsigned = readChildren(first!)
+    .filter(node => node.tag !== 0xa1)
+    .map(node => Buffer.from(node.raw));
+
+  const updatedSignerInfo = sequence(...withoutUnsigned, tlv(0xa1, attribute));
+
+  const updatedSignedData = sequence(
+    ...signedDataFields.slice(0, -1).map(node => Buffer.from(node.raw)),
+    set(updatedSignerInfo, ...others.map(node => Buffer.from(node.raw)))
+  );
+
+  return sequence(Buffer.from(root[0]!.raw), contextTag(0, updatedSignedData));
+}
+
+/**
+ * Read issuer Name and serial number INTEGER from a DER certificate
+ */
+function readIssuerAndSerial(certificate: Buffer): { issuer: Buffer; serialNumber: Buffer } {
+  const tbs = readChildren(readDer(certificate))[0]!;
+  const fields = readChildren(tbs);
+
+  // tbsCertificate starts with an optional [0] version
+  const offset = fields[0]!.tag === 0xa0 ? 1 : 0;
+
+  return {
+    serialNumber: Buffer.from(fields[offset]!.raw),
+    issuer: Buffer.from(fields[offset + 2]!.raw)
+  };
+}
+
+/**
+ * Decode ContentInfo and check that it holds SignedData
+ */
+function readSignedDataRoot(contentInfo: Buffer): DerNode[] {
+  const root = readChildren(readDer(contentInfo));
+  if (!root[0] || readOid(root[0]) !== OID.signedData || !root[1]) {
+    throw new Error('Not a CMS SignedData structure');
+  }
+  return root;
+}
+
+function readFirstSignerInfo(contentInfo: Buffer): DerNode {
+  const root = readSignedDataRoot(contentInfo);
+  const signedDataFields = readChildren(readDer(root[1]!.content));
+  const signerInfos = readChildren(signedDataFields[signedDataFields.length - 1]!);
+  if (!signerInfos[0]) {
+    throw new Error('SignedData has no signers');
+  }
+  return signerInfos[0];
+}
+
+/**
+ * Signature AlgorithmIdentifier for the key type
+ */
+function signatureAlgorithm(privateKey: KeyObject): Buffer {
+  switch (privateKey.asymmetricKeyType) {
+    case 'rsa':
+      return algorithm(OID.rsaEncryption, nullValue());
+    case 'ec':
+      return algorithm(OID.ecdsaWithSha256);
+    default:
+      throw new Error(`Unsupported key type: ${privateKey.asymmetricKeyType ?? 'unknown'}`);
+  }
+}
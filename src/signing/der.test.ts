@@ -0,0 +1,44 @@
+import { Tag, integer, oid, readChildren, readDer, readInteger, readOid, sequence, tlv } from './der.js';
+
+describe('der', () => {
+  it('reads back short and long lengths', () => {
+    const short = tlv(Tag.OCTET_STRING, Buffer.alloc(10, 1));
+    const long = tlv(Tag.OCTET_STRING, Buffer.alloc(300, 2));
+
+    expect(short.subarray(0, 2)).toEqual(Buffer.from([0x04, 10]));
+    expect(long.subarray(0, 4)).toEqual(Buffer.from([0x04, 0x82, 0x01, 0x2c]));
+
+    const node = readDer(long);
+    expect(node.tag).toBe(Tag.OCTET_STRING);
+    expect(node.content).toEqual(Buffer.alloc(300, 2));
+    expect(node.raw).toEqual(long);
+  });
+
+  it('reads children of a sequence', () => {
+    const encoded = sequence(integer(3), oid('1.2.840.113549.1.7.2'), integer(65537));
+    const [version, type, exponent] = readChildren(readDer(encoded));
+
+    expect(readInteger(version!)).toBe(3);
+    expect(readOid(type!)).toBe('1.2.840.113549.1.7.2');
+    expect(readInteger(exponent!)).toBe(65537);
+  });
+
+  it('keeps positive integers positive', () => {
+    expect(integer(0)).toEqual(Buffer.from([0x02, 0x01, 0x00]));
+    expect(integer(127)).toEqual(Buffer.from([0x02, 0x01, 0x7f]));
+    expect(integer(128)).toEqual(Buffer.from([0x02, 0x02, 0x00, 0x80]));
+  });
+
+  it('round-trips object identifiers with multi-byte arcs', () => {
+    for (const dotted of ['2.16.840.1.101.3.4.2.1', '1.2.860.3.16.1.2', '1.2.840.10045.4.3.2']) {
+      expect(readOid(readDer(oid(dotted)))).toBe(dotted);
+    }
+  });
+
+  it('rejects truncated data', () => {
+    const encoded = tlv(Tag.OCTET_STRING, Buffer.alloc(10));
+
+    expect(() => readDer(encoded.subarray(0, 8))).toThrow('DER element exceeds available data');
+    expect(() => readDer(encoded.subarray(0, 1))).toThrow('Unexpected end of DER data');
+  });
+});
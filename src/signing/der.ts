@@ -0,0 +1,214 @@
+/**
+ * Minimal DER (ASN.1) reader and writer used to build CMS signatures
+ * Covers only the types needed for PKCS#7/CMS, X.509 and PKCS#12
+ */
+
+/**
+ * ASN.1 tags
+ */
+export const Tag = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  BMP_STRING: 0x1e,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31
+} as const;
+
+/**
+ * Decoded DER element
+ */
+export interface DerNode {
+  /**
+   * Tag byte (single-byte tags only)
+   */
+  tag: number;
+
+  /**
+   * Whole element: tag, length and content
+   */
+  raw: Buffer;
+
+  /**
+   * Content bytes
+   */
+  content: Buffer;
+}
+
+/**
+ * Decode one DER element
+ *
+ * @param buffer - DER data
+ * @param offset - Element start
+ * @throws {Error} When the data is not valid DER
+ */
+export function readDer(buffer: Buffer, offset = 0): DerNode {
+  if (offset + 2 > buffer.length) {
+    throw new Error('Unexpected end of DER data');
+  }
+
+  const tag = buffer[offset]!;
+  let length = buffer[offset + 1]!;
+  let header = 2;
+
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    if (bytes === 0 || bytes > 4) {
+      throw new Error('Unsupported DER length encoding');
+    }
+    length = 0;
+    for (let i = 0; i < bytes; i++) {
+      length = length * 256 + buffer[offset + 2 + i]!;
+    }
+    header += bytes;
+  }
+
+  const end = offset + header + length;
+  if (end > buffer.length) {
+    throw new Error('DER element exceeds available data');
+  }
+
+  return {
+    tag,
+    raw: buffer.subarray(offset, end),
+    content: buffer.subarray(offset + header, end)
+  };
+}
+
+/**
+ * Decode the child elements of a constructed element
+ */
+export function readChildren(node: DerNode): DerNode[] {
+  const children: DerNode[] = [];
+  let offset = 0;
+  while (offset < node.content.length) {
+    const child = readDer(node.content, offset);
+    children.push(child);
+    offset += child.raw.length;
+  }
+  return children;
+}
+
+/**
+ * Decode an OBJECT IDENTIFIER content into dotted notation
+ */
+export function readOid(node: DerNode): string {
+  const bytes = node.content;
+  const parts: number[] = [Math.floor(bytes[0]! / 40), bytes[0]! % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i]! & 0x7f);
+    if (!(bytes[i]! & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+/**
+ * Decode an INTEGER content as a number (small values only)
+ */
+export function readInteger(node: DerNode): number {
+  return node.content.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+/**
+ * Encode a DER element
+ */
+export function tlv(tag: number, ...contents: Buffer[]): Buffer {
+  const content = Buffer.concat(contents);
+  const length = content.length;
+
+  let header: Buffer;
+  if (length < 0x80) {
+    header = Buffer.from([tag, length]);
+  } else {
+    const bytes: number[] = [];
+    for (let value = length; value > 0; value = Math.floor(value / 256)) {
+      bytes.unshift(value % 256);
+    }
+    header = Buffer.from([tag, 0x80 | bytes.length, ...bytes]);
+  }
+
+  return Buffer.concat([header, content]);
+}
+
+export function sequence(...items: Buffer[]): Buffer {
+  return tlv(Tag.SEQUENCE, ...items);
+}
+
+/**
+ * Encode a SET OF; elements are sorted as required by DER
+ */
+export function set(...items: Buffer[]): Buffer {
+  return tlv(Tag.SET, ...[...items].sort(Buffer.compare));
+}
+
+/**
+ * Encode a context-specific constructed element (`[n]`)
+ */
+export function contextTag(n: number, ...items: Buffer[]): Buffer {
+  return tlv(0xa0 | n, ...items);
+}
+
+export function oid(dotted: string): Buffer {
+  const parts = dotted.split('.').map(Number);
+  const bytes: number[] = [parts[0]! * 40 + parts[1]!];
+
+  for (const part of parts.slice(2)) {
+    const encoded: number[] = [part & 0x7f];
+    for (let value = Math.floor(part / 128); value > 0; value = Math.floor(value / 128)) {
+      encoded.unshift((value & 0x7f) | 0x80);
+    }
+    bytes.push(...encoded);
+  }
+
+  return tlv(Tag.OID, Buffer.from(bytes));
+}
+
+export function integer(value: number): Buffer {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  if (bytes.length === 0 || bytes[0]! & 0x80) {
+    bytes.unshift(0);
+  }
+  return tlv(Tag.INTEGER, Buffer.from(bytes));
+}
+
+export function octetString(value: Buffer): Buffer {
+  return tlv(Tag.OCTET_STRING, value);
+}
+
+export function nullValue(): Buffer {
+  return Buffer.from([Tag.NULL, 0]);
+}
+
+/**
+ * Encode a time as UTCTime (years 1950-2049) or GeneralizedTime
+ */
+export function time(date: Date): Buffer {
+  const iso = date.toISOString();
+  const digits = iso.slice(0, 19).replace(/[-T:]/g, '');
+  const year = date.getUTCFullYear();
+
+  return year >= 1950 && year < 2050
+    ? tlv(Tag.UTC_TIME, Buffer.from(`${digits.slice(2)}Z`, 'ascii'))
+    : tlv(Tag.GENERALIZED_TIME, Buffer.from(`${digits}Z`, 'ascii'));
+}
+
+/**
+ * AlgorithmIdentifier
+ */
+export function algorithm(dotted: string, parameters?: Buffer): Buffer {
+  return parameters ? sequence(oid(dotted), parameters) : sequence(oid(dotted));
+}
@@ -0,0 +1,42 @@
+import { X509Certificate } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { readPkcs12 } from './pkcs12.js';
+
+/**
+ * Read a test file created by `__fixtures__/generate.sh` (password "secret")
+ */
+function fixture(name: string): Buffer {
+  return readFileSync(join(__dirname, '__fixtures__', name));
+}
+
+describe('readPkcs12', () => {
+  it.each([
+    ['aes.p12', 'PBES2 with AES-256'],
+    ['3des.p12', 'SHA-1 and 3DES'],
+    ['rc2-40.p12', 'SHA-1 and 40-bit RC2 certificates'],
+    ['rc2-128.p12', 'SHA-1 and 128-bit RC2']
+  ])('opens %s (%s)', (name) => {
+    const contents = readPkcs12(fixture(name), 'secret');
+
+    expect(contents.privateKey.asymmetricKeyType).toBe('ec');
+    expect(contents.certificates).toHaveLength(1);
+
+    const certificate = new X509Certificate(contents.certificates[0]!);
+    expect(certificate.checkPrivateKey(contents.privateKey)).toBe(true);
+    expect(certificate.subject).toContain('UID=123456789');
+  });
+
+  it('rejects a wrong password', () => {
+    expect(() => readPkcs12(fixture('aes.p12'), 'wrong')).toThrow('Cannot open PKCS#12 file: wrong password');
+    expect(() => readPkcs12(fixture('rc2-40.p12'), 'wrong')).toThrow('Cannot open PKCS#12 file: wrong password');
+  });
+
+  it('asks to re-export RC4-encrypted files', () => {
+    expect(() => readPkcs12(fixture('rc4.p12'), 'secret')).toThrow(/re-export the file/);
+  });
+
+  it('rejects data that is not a PFX', () => {
+    expect(() => readPkcs12(Buffer.from([0x30, 0x03, 0x02, 0x01, 0x01]), 'secret')).toThrow('Not a PKCS#12 v3 file');
+  });
+});
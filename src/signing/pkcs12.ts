@@ -0,0 +1,320 @@
+import {
+  createDecipheriv,
+  createHash,
+  createHmac,
+  createPrivateKey,
+  pbkdf2Sync,
+  timingSafeEqual,
+  KeyObject
+} from 'node:crypto';
+import { DerNode, Tag, readChildren, readDer, readInteger, readOid } from './der.js';
+import { rc2CbcDecrypt } from './rc2.js';
+
+/**
+ * Object identifiers used in PKCS#12 files
+ */
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  encryptedData: '1.2.840.113549.1.7.6',
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  pbes2: '1.2.840.113549.1.5.13',
+  pbkdf2: '1.2.840.113549.1.5.12',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1'
+} as const;
+
+/**
+ * PBKDF2 pseudo-random functions
+ */
+const PRF: Record<string, string> = {
+  '1.2.840.113549.2.7': 'sha1',
+  '1.2.840.113549.2.9': 'sha256',
+  '1.2.840.113549.2.10': 'sha384',
+  '1.2.840.113549.2.11': 'sha512'
+};
+
+/**
+ * Block ciphers supported by PBES2
+ */
+const CIPHERS: Record<string, { name: string; keyLength: number }> = {
+  '2.16.840.1.101.3.4.1.2': { name: 'aes-128-cbc', keyLength: 16 },
+  '2.16.840.1.101.3.4.1.22': { name: 'aes-192-cbc', keyLength: 24 },
+  '2.16.840.1.101.3.4.1.42': { name: 'aes-256-cbc', keyLength: 32 },
+  '1.2.840.113549.3.7': { name: 'des-ede3-cbc', keyLength: 24 }
+};
+
+/**
+ * Legacy PKCS#12 password-based encryption schemes (SHA-1 key derivation)
+ */
+const PKCS12_PBE: Record<string, { name: string; keyLength: number }> = {
+  '1.2.840.113549.1.12.1.3': { name: 'des-ede3-cbc', keyLength: 24 },
+  '1.2.840.113549.1.12.1.4': { name: 'des-ede-cbc', keyLength: 16 },
+  '1.2.840.113549.1.12.1.5': { name: 'rc2-cbc', keyLength: 16 },
+  '1.2.840.113549.1.12.1.6': { name: 'rc2-cbc', keyLength: 5 }
+};
+
+/**
+ * Hash algorithms of the PKCS#12 MAC
+ */
+const MAC_HASHES: Record<string, string> = {
+  [OID.sha1]: 'sha1',
+  [OID.sha256]: 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512'
+};
+
+/**
+ * Contents of a PKCS#12 file
+ */
+export interface Pkcs12Contents {
+  privateKey: KeyObject;
+
+  /**
+   * Certificates (DER), in file order
+   */
+  certificates: Buffer[];
+}
+
+/**
+ * Read the private key and certificates from a PKCS#12 (PFX/P12) file
+ *
+ * Supports PBES2 (PBKDF2 with AES or 3DES, the OpenSSL 3 default) and the
+ * legacy SHA-1 schemes with 3DES, 2-key 3DES, 128-bit RC2 or 40-bit RC2 (older
+ * OpenSSL and Windows exports). RC4-encrypted files must be re-exported.
+ *
+ * @param pfx - DER-encoded PFX
+ * @param password - PFX password
+ * @throws {Error} When the password is wrong or the file uses an unsupported format
+ */
+export function readPkcs12(pfx: Buffer, password: string): Pkcs12Contents {
+  const fields = readChildren(readDer(pfx));
+  const authSafe = fields[1];
+  if (!authSafe || readInteger(fields[0]!) !== 3) {
+    throw new Error('Not a PKCS#12 v3 file');
+  }
+
+  const authSafeContent = readDataContent(authSafe);
+
+  if (fields[2]) {
+    verifyMac(fields[2], authSafeContent, password);
+  }
+
+  let privateKey: KeyObject | undefined;
+  const certificates: Buffer[] = [];
+
+  for (const contentInfo of readChildren(readDer(authSafeContent))) {
+    const [type] = readChildren(contentInfo);
+    const typeOid = readOid(type!);
+
+    let safeContents: Buffer;
+    if (typeOid === OID.data) {
+      safeContents = readDataContent(contentInfo);
+    } else if (typeOid === OID.encryptedData) {
+      safeContents = readEncryptedData(contentInfo, password);
+    } else {
+      throw new Error(`Unsupported PKCS#12 content type ${typeOid}`);
+    }
+
+    for (const bag of readChildren(readDer(safeContents))) {
+      const [bagId, bagValue] = readChildren(bag);
+      const value = readDer(bagValue!.content);
+
+      switch (readOid(bagId!)) {
+        case OID.keyBag:
+          privateKey ??= createPrivateKey({ key: Buffer.from(value.raw), format: 'der', type: 'pkcs8' });
+          break;
+
+        case OID.shroudedKeyBag: {
+          const [algorithm, encrypted] = readChildren(value);
+          const keyInfo = decrypt(algorithm!, encrypted!.content, password);
+          privateKey ??= createPrivateKey({ key: keyInfo, format: 'der', type: 'pkcs8' });
+          break;
+        }
+
+        case OID.certBag: {
+          const [certId, certValue] = readChildren(value);
+          if (readOid(certId!) === OID.x509Certificate) {
+            certificates.push(Buffer.from(readDer(certValue!.content).content));
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  if (!privateKey) {
+    throw new Error('PKCS#12 file contains no private key');
+  }
+
+  return { privateKey, certificates };
+}
+
+/**
+ * Content of a `data` ContentInfo ([0] EXPLICIT OCTET STRING, possibly constructed)
+ */
+function readDataContent(contentInfo: DerNode): Buffer {
+  const [, explicit] = readChildren(contentInfo);
+  const octets = readDer(explicit!.content);
+  return readOctets(octets);
+}
+
+/**
+ * Bytes of a primitive or constructed OCTET STRING
+ */
+function readOctets(node: DerNode): Buffer {
+  if (node.tag === Tag.OCTET_STRING || node.tag === 0x80) {
+    return Buffer.from(node.content);
+  }
+  return Buffer.concat(readChildren(node).map(readOctets));
+}
+
+/**
+ * Decrypt an `encryptedData` ContentInfo
+ */
+function readEncryptedData(contentInfo: DerNode, password: string): Buffer {
+  const [, explicit] = readChildren(contentInfo);
+  const [, encryptedContentInfo] = readChildren(readDer(explicit!.content));
+  const [, algorithm, encrypted] = readChildren(encryptedContentInfo!);
+
+  return decrypt(algorithm!, readOctets(encrypted!), password);
+}
+
+/**
+ * Decrypt data encrypted with a password-based scheme
+ */
+function decrypt(algorithm: DerNode, data: Buffer, password: string): Buffer {
+  const [schemeId, parameters] = readChildren(algorithm);
+  const scheme = readOid(schemeId!);
+
+  try {
+    if (scheme === OID.pbes2) {
+      const [kdf, encryption] = readChildren(parameters!);
+      const [kdfId, kdfParameters] = readChildren(kdf!);
+      const [cipherId, iv] = readChildren(encryption!);
+
+      if (readOid(kdfId!) !== OID.pbkdf2) {
+        throw new Error('Unsupported PBES2 key derivation function');
+      }
+
+      const cipher = CIPHERS[readOid(cipherId!)];
+      if (!cipher) {
+        throw new Error('Unsupported PBES2 cipher');
+      }
+
+      const [salt, iterations, ...rest] = readChildren(kdfParameters!);
+      const prfNode = rest.find(node => node.tag === Tag.SEQUENCE);
+      const prf = prfNode ? PRF[readOid(readChildren(prfNode)[0]!)] : 'sha1';
+      if (!prf) {
+        throw new Error('Unsupported PBKDF2 pseudo-random function');
+      }
+
+      const key = pbkdf2Sync(Buffer.from(password, 'utf8'), salt!.content, readInteger(iterations!), cipher.keyLength, prf);
+      const decipher = createDecipheriv(cipher.name, key, iv!.content);
+      return Buffer.concat([decipher.update(data), decipher.final()]);
+    }
+
+    const legacy = PKCS12_PBE[scheme];
+    if (legacy) {
+      const [salt, iterations] = readChildren(parameters!);
+      const secret = bmpPassword(password);
+      const rounds = readInteger(iterations!);
+      const key = pkcs12Kdf('sha1', secret, salt!.content, 1, rounds, legacy.keyLength);
+      const iv = pkcs12Kdf('sha1', secret, salt!.content, 2, rounds, 8);
+
+      // Node's OpenSSL 3 build has no RC2
+      if (legacy.name === 'rc2-cbc') {
+        return rc2CbcDecrypt(key, iv, data);
+      }
+      const decipher = createDecipheriv(legacy.name, key, iv);
+      return Buffer.concat([decipher.update(data), decipher.final()]);
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Unsupported')) {
+      throw error;
+    }
+    throw new Error('Cannot decrypt PKCS#12 file: wrong password or corrupted data');
+  }
+
+  throw new Error(`Unsupported PKCS#12 encryption ${scheme}; re-export the file with AES (PBES2) or 3DES`);
+}
+
+/**
+ * Check the file integrity MAC, which also detects a wrong password
+ */
+function verifyMac(macData: DerNode, content: Buffer, password: string): void {
+  const [digestInfo, salt, iterations] = readChildren(macData);
+  const [algorithm, expected] = readChildren(digestInfo!);
+  const hash = MAC_HASHES[readOid(readChildren(algorithm!)[0]!)];
+  if (!hash) {
+    throw new Error('Unsupported PKCS#12 MAC algorithm');
+  }
+
+  const length = createHash(hash).digest().length;
+  const key = pkcs12Kdf(hash, bmpPassword(password), salt!.content, 3, iterations ? readInteger(iterations) : 1, length);
+  const actual = createHmac(hash, key).update(content).digest();
+
+  if (actual.length !== expected!.content.length || !timingSafeEqual(actual, expected!.content)) {
+    throw new Error('Cannot open PKCS#12 file: wrong password');
+  }
+}
+
+/**
+ * Password as a NUL-terminated BMPString (UTF-16BE)
+ */
+function bmpPassword(password: string): Buffer {
+  const bytes = Buffer.alloc((password.length + 1) * 2);
+  for (let i = 0; i < password.length; i++) {
+    bytes.writeUInt16BE(password.charCodeAt(i), i * 2);
+  }
+  return bytes;
+}
+
+/**
+ * PKCS#12 key derivation (RFC 7292, appendix B.2)
+ */
+function pkcs12Kdf(hash: string, password: Buffer, salt: Buffer, id: number, iterations: number, length: number): Buffer {
+  const v = hash === 'sha384' || hash === 'sha512' ? 128 : 64;
+  const repeat = (source: Buffer) => {
+    if (source.length === 0) {
+      return Buffer.alloc(0);
+    }
+    const result = Buffer.alloc(v * Math.ceil(source.length / v));
+    for (let i = 0; i < result.length; i++) {
+      result[i] = source[i % source.length]!;
+    }
+    return result;
+  };
+
+  const diversifier = Buffer.alloc(v, id);
+  const input = Buffer.concat([repeat(salt), repeat(password)]);
+  const blocks: Buffer[] = [];
+  let produced = 0;
+
+  while (produced < length) {
+    let block = createHash(hash).update(diversifier).update(input).digest();
+    for (let i = 1; i < iterations; i++) {
+      block = createHash(hash).update(block).digest();
+    }
+    blocks.push(block);
+    produced += block.length;
+
+    // I_j = (I_j + B + 1) mod 2^(v*8) for every v-byte chunk of I
+    const b = Buffer.alloc(v);
+    for (let i = 0; i < v; i++) {
+      b[i] = block[i % block.length]!;
+    }
+    for (let offset = 0; offset < input.length; offset += v) {
+      let carry = 1;
+      for (let i = v - 1; i >= 0; i--) {
+        const sum = input[offset + i]! + b[i]! + carry;
+        input[offset + i] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+
+  return Buffer.concat(blocks).subarray(0, length);
+}
@@ -0,0 +1,34 @@
+import { rc2CbcDecrypt } from './rc2.js';
+
+// Vectors produced with `openssl enc -rc2-40-cbc` / `-rc2-cbc` (legacy provider)
+const iv = Buffer.from('0001020304050607', 'hex');
+const plain = Buffer.from('Didox RC2 test vector');
+
+describe('rc2CbcDecrypt', () => {
+  it('decrypts 40-bit RC2', () => {
+    const key = Buffer.from('0123456789', 'hex');
+    const data = Buffer.from('85b25d4fcb77561af57222983f140d4a63efe78f94cf17f0', 'hex');
+
+    expect(rc2CbcDecrypt(key, iv, data)).toEqual(plain);
+  });
+
+  it('decrypts 128-bit RC2', () => {
+    const key = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+    const data = Buffer.from('8d05efa68a34358f7d9d77d3b07db629a54a9b43f0dcbd0b', 'hex');
+
+    expect(rc2CbcDecrypt(key, iv, data)).toEqual(plain);
+  });
+
+  it('decrypts a padding-only block to empty data', () => {
+    const key = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+
+    expect(rc2CbcDecrypt(key, iv, Buffer.from('22d0b0f9689b7dee', 'hex'))).toEqual(Buffer.alloc(0));
+  });
+
+  it('rejects data that is not a whole number of blocks', () => {
+    const key = Buffer.from('0123456789', 'hex');
+
+    expect(() => rc2CbcDecrypt(key, iv, Buffer.alloc(0))).toThrow('Invalid RC2 data length');
+    expect(() => rc2CbcDecrypt(key, iv, Buffer.alloc(12))).toThrow('Invalid RC2 data length');
+  });
+});
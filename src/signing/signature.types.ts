@@ -0,0 +1,164 @@
+import type { KeyObject } from 'node:crypto';
+
+/**
+ * Signing certificate available to a signature provider
+ */
+export interface SignerCertificate {
+  /**
+   * Identifier passed back in `SignOptions.certificateId` (certificate serial number, hex)
+   */
+  id: string;
+
+  /**
+   * Subject distinguished name
+   */
+  subject: string;
+
+  /**
+   * Issuer distinguished name
+   */
+  issuer: string;
+
+  /**
+   * Serial number (hex)
+   */
+  serialNumber: string;
+
+  validFrom: Date;
+  validTo: Date;
+
+  /**
+   * Company TIN from the subject, when present
+   */
+  tin?: string;
+
+  /**
+   * Owner PINFL from the subject, when present
+   */
+  pinfl?: string;
+
+  /**
+   * Certificate in PEM format
+   */
+  pem: string;
+}
+
+/**
+ * Signing options
+ */
+export interface SignOptions {
+  /**
+   * Certificate to sign with (see `SignerCertificate.id`)
+   * @default the provider's default certificate
+   */
+  certificateId?: string;
+
+  /**
+   * Produce a detached signature (the signed data is not embedded)
+   * @default false
+   */
+  detached?: boolean;
+}
+
+/**
+ * Source of PKCS#7/CMS signatures for legally significant documents
+ *
+ * Implement this interface to sign through E-IMZO, an HSM or a remote signing
+ * service; `SoftwareSignatureProvider` signs with a local PFX/PEM key.
+ *
+ * @example
+ * ```typescript
+ * class EimzoSignatureProvider implements SignatureProvider {
+ *   async getCertificates() { ... }
+ *   async sign(data, options) { return eimzo.createPkcs7(data, options?.certificateId); }
+ *   async attachTimestamp(signature) { return eimzo.attachTimestamp(signature); }
+ * }
+ *
+ * const didox = new DidoxClient({ ..., signer: new EimzoSignatureProvider() });
+ * await didox.documents.send(draftId); // signature is created by the provider
+ * ```
+ */
+export interface SignatureProvider {
+  /**
+   * List certificates available for signing
+   */
+  getCertificates(): Promise<SignerCertificate[]>;
+
+  /**
+   * Sign data
+   *
+   * @param data - Data to sign (strings are encoded as UTF-8)
+   * @param options - Certificate and signature format
+   * @returns Base64-encoded PKCS#7/CMS signature
+   */
+  sign(data: string | Uint8Array, options?: SignOptions): Promise<string>;
+
+  /**
+   * Add a trusted timestamp to a signature
+   *
+   * @param signature - Base64-encoded PKCS#7/CMS signature
+   * @returns Base64-encoded signature with the timestamp token attached
+   */
+  attachTimestamp(signature: string): Promise<string>;
+}
+
+/**
+ * Obtains an RFC 3161 timestamp token for a signature value
+ *
+ * @param signatureValue - Raw signature value to be timestamped
+ * @returns DER-encoded TimeStampToken
+ */
+export type Timestamper = (signatureValue: Buffer) => Promise<Buffer>;
+
+/**
+ * Options of the software signature provider
+ */
+export interface SoftwareSignatureProviderOptions {
+  /**
+   * Private key: PEM string, DER buffer or KeyObject (RSA or EC)
+   */
+  key: string | Buffer | KeyObject;
+
+  /**
+   * Passphrase of an encrypted PEM key
+   */
+  passphrase?: string;
+
+  /**
+   * Signer certificate (PEM or DER); a PEM bundle may also contain the chain
+   */
+  certificate: string | Buffer;
+
+  /**
+   * Intermediate certificates to embed (PEM or DER)
+   */
+  chain?: Array<string | Buffer>;
+
+  /**
+   * Timestamp authority client used by `attachTimestamp`
+   */
+  timestamper?: Timestamper;
+
+  /**
+   * Clock used for the signing-time attribute
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * Document signing settings
+ */
+export interface DocumentSigningConfig {
+  /**
+   * Certificate used for document actions
+   * @default the provider's first certificate
+   */
+  certificateId?: string;
+
+  /**
+   * Attach a trusted timestamp to every document signature
+   * @default false
+   */
+  timestamp?: boolean;
+}
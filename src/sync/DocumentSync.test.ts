@@ -0,0 +1,140 @@
+import { DocumentStatus, OwnerType } from '../modules/documents/documents.enums.js';
+import type { DidoxClient } from '../client/DidoxClient.js';
+import { DidoxTestServer } from '../testing/DidoxTestServer.js';
+import { MemoryCheckpointStore } from './checkpoints.js';
+import { DocumentSync } from './DocumentSync.js';
+import type { DocumentSyncOptions } from './sync.types.js';
+
+const COMPANY = '123456789';
+const PARTNER = '987654321';
+const DAY = 24 * 60 * 60_000;
+
+describe('DocumentSync', () => {
+  let server: DidoxTestServer;
+  let didox: DidoxClient;
+  let store: MemoryCheckpointStore;
+  let events: string[];
+
+  const seedIncoming = (createdAt: Date) => server.seedDocument({
+    doctype: '002',
+    ownerTin: PARTNER,
+    partnerTin: COMPANY,
+    status: DocumentStatus.SENT,
+    createdAt
+  });
+
+  const createSync = (options: DocumentSyncOptions = {}) => new DocumentSync(didox.documents, {
+    store,
+    owners: [OwnerType.INCOMING],
+    since: new Date(Date.now() - 7 * DAY),
+    onCreated: ({ document }) => { events.push(`created ${document.id}`); },
+    onUpdated: ({ document, previous }) => { events.push(`updated ${document.id} from ${previous?.status ?? 'unknown'}`); },
+    onStatusChanged: ({ document }) => { events.push(`status ${document.id} ${document.status}`); },
+    ...options
+  });
+
+  beforeEach(async () => {
+    server = new DidoxTestServer();
+    server.seedCompany({ tin: COMPANY }).seedCompany({ tin: PARTNER });
+    didox = server.createClient();
+    await didox.auth.loginLegalEntity({ taxId: COMPANY, password: 'password123' });
+    store = new MemoryCheckpointStore();
+    events = [];
+  });
+
+  it('reports new documents once and status changes with the previous state', async () => {
+    const first = seedIncoming(new Date(Date.now() - 2000));
+    const second = seedIncoming(new Date(Date.now() - 1000));
+    const sync = createSync();
+
+    await expect(sync.run()).resolves.toMatchObject({ read: 2, created: 2, updated: 0, unchanged: 0 });
+    expect(events).toEqual([`created ${second.id}`, `created ${first.id}`]);
+
+    events = [];
+    server.setDocumentStatus(first.id, DocumentStatus.SIGNED);
+
+    await expect(sync.run()).resolves.toMatchObject({ read: 2, created: 0, updated: 1, statusChanged: 1, unchanged: 1 });
+    expect(events).toEqual([`updated ${first.id} from ${DocumentStatus.SENT}`, `status ${first.id} ${DocumentStatus.SIGNED}`]);
+  });
+
+  it('resumes an interrupted run without repeating completed documents', async () => {
+    const documents = [3000, 2000, 1000].map(age => seedIncoming(new Date(Date.now() - age)));
+    const [oldest, middle, newest] = documents;
+    let failures = 1;
+    const sync = createSync({
+      onCreated: ({ document }) => {
+        if (document.id === middle!.id && failures-- > 0) {
+          throw new Error('ERP is unavailable');
+        }
+        events.push(`created ${document.id}`);
+      }
+    });
+
+    await expect(sync.run()).rejects.toThrow('ERP is unavailable');
+    const interrupted = await sync.checkpoint();
+    expect(interrupted?.owners.incoming?.pending).toBeDefined();
+    expect(Object.keys(interrupted?.owners.incoming?.documents ?? {})).toEqual([newest!.id]);
+
+    await expect(sync.run()).resolves.toMatchObject({ resumed: true, read: 3, created: 2, unchanged: 1 });
+    expect(events).toEqual([`created ${newest!.id}`, `created ${middle!.id}`, `created ${oldest!.id}`]);
+
+    const completed = await sync.checkpoint();
+    expect(completed?.owners.incoming?.pending).toBeUndefined();
+    expect(completed?.owners.incoming?.cursor).toBeDefined();
+  });
+
+  it('continues from the checkpoint store in a new process', async () => {
+    const document = seedIncoming(new Date(Date.now() - 1000));
+    await createSync().run();
+
+    events = [];
+    await expect(createSync().run()).resolves.toMatchObject({ resumed: false, created: 0, unchanged: 1 });
+    expect(events).toEqual([]);
+
+    server.setDocumentStatus(document.id, DocumentStatus.REJECTED);
+    await expect(createSync().run()).resolves.toMatchObject({ updated: 1, statusChanged: 1 });
+  });
+
+  it('keeps only documents of the days read again and still recognizes older ones', async () => {
+    const old = seedIncoming(new Date(Date.now() - 3 * DAY));
+    const recent = seedIncoming(new Date(Date.now() - 1000));
+    const sync = createSync();
+
+    await sync.run();
+    expect(Object.keys((await sync.checkpoint())?.owners.incoming?.documents ?? {})).toEqual([recent.id]);
+
+    events = [];
+    server.setDocumentStatus(old.id, DocumentStatus.SIGNED);
+
+    await expect(sync.run()).resolves.toMatchObject({ created: 0, updated: 1, statusChanged: 1 });
+    expect(events).toEqual([`updated ${old.id} from unknown`, `status ${old.id} ${DocumentStatus.SIGNED}`]);
+  });
+
+  it('does not report documents older than the overlap but read again with the same day', async () => {
+    // Noon in Tashkent, so the document and the overlap fall on the same day
+    jest.useFakeTimers({ now: new Date('2026-03-10T07:00:00Z'), advanceTimers: true });
+    try {
+      const document = seedIncoming(new Date(Date.now() - 20 * 60_000));
+      const sync = createSync();
+
+      await expect(sync.run()).resolves.toMatchObject({ read: 1, created: 1 });
+      events = [];
+
+      await expect(sync.run()).resolves.toMatchObject({ read: 1, updated: 0, statusChanged: 0, unchanged: 1 });
+      await expect(sync.run()).resolves.toMatchObject({ read: 1, updated: 0, statusChanged: 0, unchanged: 1 });
+      expect(events).toEqual([]);
+      expect(Object.keys((await sync.checkpoint())?.owners.incoming?.documents ?? {})).toEqual([document.id]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('starts over after reset', async () => {
+    seedIncoming(new Date(Date.now() - 1000));
+    const sync = createSync();
+    await sync.run();
+
+    await sync.reset();
+    await expect(sync.run()).resolves.toMatchObject({ created: 1, unchanged: 0 });
+  });
+});
@@ -0,0 +1,278 @@
+import { DidoxValidationError } from '../http/errors.js';
+import { OwnerType } from '../modules/documents/documents.enums.js';
+import type { DocumentsClient } from '../modules/documents/DocumentsClient.js';
+import type { DocumentMetadata, IterateDocumentsParams } from '../modules/documents/documents.types.js';
+import { formatDidoxDate, parseDidoxDate } from '../utils/dates.js';
+import { MemoryCheckpointStore } from './checkpoints.js';
+import type {
+  DocumentSyncChange,
+  DocumentSyncOptions,
+  DocumentSyncReport,
+  DocumentSyncRunOptions,
+  OwnerSyncState,
+  SyncCheckpoint,
+  SyncCheckpointStore
+} from './sync.types.js';
+
+const DEFAULT_OVERLAP = 10 * 60_000;
+const DEFAULT_CHECKPOINT_INTERVAL = 100;
+
+/**
+ * Incremental mirror of Didox documents
+ *
+ * Each run reads documents modified since the previous run (`dateFromUpdated`),
+ * separately for incoming and outgoing documents, and reports new documents,
+ * updates and status changes. Runs start a little before the saved cursor
+ * (`overlap`); documents already synchronized are recognized by their stored
+ * status and modification time and skipped.
+ *
+ * Progress is checkpointed while a run reads documents. A run interrupted by a
+ * crash, an abort or a failing callback is continued by the next `run()`:
+ * documents whose callbacks completed are skipped, the rest are delivered again
+ * (at-least-once delivery).
+ *
+ * The checkpoint keeps only documents modified since the day the next run starts
+ * reading (the cursor minus the overlap; the list filter works by day), so its
+ * size follows recent activity rather than the whole history. A document modified
+ * again after it left the checkpoint is recognized as known by its creation time
+ * and reported as updated without a `previous` state.
+ *
+ * @example
+ * ```typescript
+ * const sync = new DocumentSync(didox.documents, {
+ *   store: new FileCheckpointStore('./var/didox-sync.json'),
+ *   since: new Date('2024-01-01'),
+ *   onCreated: ({ document }) => erp.insert(document),
+ *   onUpdated: ({ document }) => erp.update(document),
+ *   onStatusChanged: ({ document, previous }) =>
+ *     erp.log(document.id, previous?.status, document.status)
+ * });
+ *
+ * setInterval(() => sync.run().catch(console.error), 5 * 60_000);
+ * ```
+ */
+export class DocumentSync {
+  private readonly store: SyncCheckpointStore;
+  private readonly key: string;
+  private readonly owners: OwnerType[];
+  private readonly overlap: number;
+  private readonly checkpointInterval: number;
+  private running: Promise<DocumentSyncReport> | undefined;
+
+  /**
+   * @param documents - Documents module of an authenticated client
+   * @param options - Checkpoint storage, cursor settings and callbacks
+   * @throws {DidoxValidationError} When options are invalid
+   */
+  constructor(
+    private readonly documents: DocumentsClient,
+    private readonly options: DocumentSyncOptions = {}
+  ) {
+    const overlap = options.overlap ?? DEFAULT_OVERLAP;
+    if (!Number.isFinite(overlap) || overlap < 0) {
+      throw new DidoxValidationError('overlap must be a non-negative number of milliseconds', 'overlap');
+    }
+
+    const checkpointInterval = options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
+    if (!Number.isInteger(checkpointInterval) || checkpointInterval < 1) {
+      throw new DidoxValidationError('checkpointInterval must be a positive integer', 'checkpointInterval');
+    }
+
+    const owners = options.owners ?? [OwnerType.INCOMING, OwnerType.OUTGOING];
+    if (owners.length === 0 || owners.some(owner => owner !== OwnerType.INCOMING && owner !== OwnerType.OUTGOING)) {
+      throw new DidoxValidationError('owners must list OwnerType.INCOMING and/or OwnerType.OUTGOING', 'owners');
+    }
+
+    if (options.since !== undefined && Number.isNaN(options.since.getTime())) {
+      throw new DidoxValidationError('since must be a valid date', 'since');
+    }
+
+    this.store = options.store ?? new MemoryCheckpointStore();
+    this.key = options.key ?? 'documents';
+    this.owners = [...new Set(owners)];
+    this.overlap = overlap;
+    this.checkpointInterval = checkpointInterval;
+  }
+
+  /**
+   * Synchronize documents modified since the previous run
+   *
+   * Calling `run()` while a run is in progress returns the running one.
+   *
+   * @param options - Abort signal
+   * @returns Counts of the documents read and reported
+   * @throws The first callback error (progress before it is saved)
+   * @throws {DidoxAuthError} When authentication fails (401 status)
+   * @throws {DidoxApiError} When API returns other error responses
+   * @throws {DidoxNetworkError} When network request fails
+   */
+  run(options: DocumentSyncRunOptions = {}): Promise<DocumentSyncReport> {
+    this.running ??= this.execute(options).finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /**
+   * Saved checkpoint, e.g. for monitoring the cursor
+   */
+  async checkpoint(): Promise<SyncCheckpoint | undefined> {
+    return this.store.load(this.key);
+  }
+
+  /**
+   * Forget the saved progress; the next run starts from `since` again and reports every document as created
+   */
+  async reset(): Promise<void> {
+    await this.store.save(this.key, { version: 1, owners: {} });
+  }
+
+  private async execute({ signal }: DocumentSyncRunOptions): Promise<DocumentSyncReport> {
+    const checkpoint = await this.store.load(this.key) ?? { version: 1, owners: {} };
+    const report: DocumentSyncReport = {
+      startedAt: new Date(),
+      resumed: false,
+      read: 0,
+      created: 0,
+      updated: 0,
+      statusChanged: 0,
+      unchanged: 0,
+      skipped: 0
+    };
+
+    for (const owner of this.owners) {
+      await this.syncOwner(checkpoint, owner, report, signal);
+    }
+
+    return report;
+  }
+
+  private async syncOwner(
+    checkpoint: SyncCheckpoint,
+    owner: OwnerType,
+    report: DocumentSyncReport,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    const ownerKey = owner === OwnerType.OUTGOING ? 'outgoing' : 'incoming';
+    const state: OwnerSyncState = checkpoint.owners[ownerKey] ?? { documents: {} };
+    checkpoint.owners[ownerKey] = state;
+
+    if (state.pending) {
+      report.resumed = true;
+    } else {
+      state.pending = { startedAt: report.startedAt.toISOString() };
+      await this.store.save(this.key, checkpoint);
+    }
+
+    const cursor = state.cursor !== undefined ? new Date(state.cursor) : this.options.since;
+    const params: IterateDocumentsParams = {
+      owner,
+      ...(this.options.filters?.doctype !== undefined && { doctype: this.options.filters.doctype }),
+      ...(this.options.filters?.partner !== undefined && { partner: this.options.filters.partner }),
+      ...(cursor !== undefined && { dateFromUpdated: formatDidoxDate(this.readFrom(cursor)) })
+    };
+
+    let unsaved = 0;
+    try {
+      for await (const document of this.documents.iterate(params, signal ? { signal } : {})) {
+        report.read++;
+        await this.apply(state, owner, document, report);
+
+        if (++unsaved >= this.checkpointInterval) {
+          await this.store.save(this.key, checkpoint);
+          unsaved = 0;
+        }
+      }
+    } catch (error) {
+      if (unsaved > 0) {
+        await this.store.save(this.key, checkpoint);
+      }
+      throw error;
+    }
+
+    // Documents modified while this run was reading are read again by the next run
+    state.cursor = state.pending.startedAt;
+    delete state.pending;
+    this.prune(state);
+    await this.store.save(this.key, checkpoint);
+  }
+
+  /**
+   * Start of the Tashkent day containing the cursor minus the overlap
+   * `dateFromUpdated` filters by day, so a run reads every document modified since then
+   */
+  private readFrom(cursor: Date): Date {
+    return parseDidoxDate(formatDidoxDate(new Date(cursor.getTime() - this.overlap)))!;
+  }
+
+  /**
+   * Drop documents the next run will not read again (modified before the day it starts reading)
+   */
+  private prune(state: OwnerSyncState): void {
+    const windowStart = this.readFrom(new Date(state.cursor!)).getTime();
+
+    for (const [id, entry] of Object.entries(state.documents)) {
+      const updatedAt = entry.updatedAt === '' ? Number.NaN : Date.parse(entry.updatedAt);
+      if (Number.isNaN(updatedAt) || updatedAt < windowStart) {
+        delete state.documents[id];
+      }
+    }
+    state.prunedBefore = new Date(windowStart).toISOString();
+  }
+
+  /**
+   * Whether a document missing from the checkpoint was created before the pruned window, i.e. is already known
+   */
+  private isPruned(state: OwnerSyncState, document: DocumentMetadata): boolean {
+    const createdAt = document.createdAt.getTime();
+    return state.prunedBefore !== undefined && !Number.isNaN(createdAt) && createdAt < Date.parse(state.prunedBefore);
+  }
+
+  /**
+   * Report one document and record it as synchronized
+   */
+  private async apply(
+    state: OwnerSyncState,
+    owner: OwnerType,
+    document: DocumentMetadata,
+    report: DocumentSyncReport
+  ): Promise<void> {
+    if (!document.id) {
+      report.skipped++;
+      return;
+    }
+
+    const updatedAt = Number.isNaN(document.updatedAt.getTime()) ? '' : document.updatedAt.toISOString();
+    const previous = state.documents[document.id];
+
+    if (!previous && this.isPruned(state, document)) {
+      const change: DocumentSyncChange = { owner, document };
+      await this.options.onUpdated?.(change);
+      report.updated++;
+      await this.options.onStatusChanged?.(change);
+      report.statusChanged++;
+    } else if (!previous) {
+      await this.options.onCreated?.({ owner, document });
+      report.created++;
+    } else {
+      const modified = updatedAt !== '' && (previous.updatedAt === '' || updatedAt > previous.updatedAt);
+      const statusChanged = previous.status !== document.status;
+
+      if (!modified && !statusChanged) {
+        report.unchanged++;
+        return;
+      }
+
+      const change: DocumentSyncChange = { owner, document, previous };
+      await this.options.onUpdated?.(change);
+      report.updated++;
+
+      if (statusChanged) {
+        await this.options.onStatusChanged?.(change);
+        report.statusChanged++;
+      }
+    }
+
+    state.documents[document.id] = { status: document.status, updatedAt };
+  }
+}
@@ -0,0 +1,72 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { SyncCheckpoint, SyncCheckpointStore } from './sync.types.js';
+
+/**
+ * Checkpoint store kept in process memory
+ *
+ * Checkpoints are copied on save and load, so callers cannot change stored state.
+ */
+export class MemoryCheckpointStore implements SyncCheckpointStore {
+  private readonly checkpoints = new Map<string, string>();
+
+  async load(key: string): Promise<SyncCheckpoint | undefined> {
+    const stored = this.checkpoints.get(key);
+    return stored === undefined ? undefined : JSON.parse(stored) as SyncCheckpoint;
+  }
+
+  async save(key: string, checkpoint: SyncCheckpoint): Promise<void> {
+    this.checkpoints.set(key, JSON.stringify(checkpoint));
+  }
+}
+
+/**
+ * Checkpoint store backed by a JSON file
+ *
+ * All keys share one file. Writes go to a temporary file that replaces the
+ * original, so a crash never leaves a truncated checkpoint behind.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileCheckpointStore('./var/didox-sync.json');
+ * ```
+ */
+export class FileCheckpointStore implements SyncCheckpointStore {
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - Checkpoint file; created with its directory on first save
+   */
+  constructor(private readonly path: string) {}
+
+  async load(key: string): Promise<SyncCheckpoint | undefined> {
+    await this.queue;
+    return (await this.readAll())[key];
+  }
+
+  save(key: string, checkpoint: SyncCheckpoint): Promise<void> {
+    // Serialize writes so concurrent saves of different keys do not overwrite each other
+    const write = this.queue.then(async () => {
+      const all = await this.readAll();
+      all[key] = checkpoint;
+
+      await mkdir(dirname(this.path), { recursive: true });
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(all), 'utf8');
+      await rename(temporary, this.path);
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async readAll(): Promise<Record<string, SyncCheckpoint>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as Record<string, SyncCheckpoint>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
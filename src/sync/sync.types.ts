@@ -0,0 +1,194 @@
+import type { DocumentStatus, OwnerType } from '../modules/documents/documents.enums.js';
+import type { DocumentMetadata } from '../modules/documents/documents.types.js';
+
+/**
+ * Last synchronized state of one document
+ */
+export interface SyncedDocumentState {
+  status: DocumentStatus;
+
+  /**
+   * Modification time as an ISO string (empty when the API reported none)
+   */
+  updatedAt: string;
+}
+
+/**
+ * Synchronization state of one owner (incoming or outgoing documents)
+ */
+export interface OwnerSyncState {
+  /**
+   * Start of the last completed run (ISO string); the next run reads documents
+   * modified from this time minus the overlap
+   */
+  cursor?: string;
+
+  /**
+   * Unfinished run, resumed by the next `run()` call
+   */
+  pending?: {
+    startedAt: string;
+  };
+
+  /**
+   * Documents modified since the day the next run starts reading, by ID; used to
+   * skip documents the next run reads again and to tell new documents from updates
+   */
+  documents: Record<string, SyncedDocumentState>;
+
+  /**
+   * Entries of documents modified before this time (ISO string) have been dropped;
+   * such documents are recognized as known by their creation time
+   */
+  prunedBefore?: string;
+}
+
+/**
+ * Persisted synchronization state
+ */
+export interface SyncCheckpoint {
+  version: 1;
+  owners: Partial<Record<'incoming' | 'outgoing', OwnerSyncState>>;
+}
+
+/**
+ * Storage for sync checkpoints
+ * Implement it over a database table or key-value store to share progress between processes.
+ */
+export interface SyncCheckpointStore {
+  load(key: string): Promise<SyncCheckpoint | undefined>;
+  save(key: string, checkpoint: SyncCheckpoint): Promise<void>;
+}
+
+/**
+ * Change reported to sync callbacks
+ */
+export interface DocumentSyncChange {
+  /**
+   * Owner the document was read for
+   */
+  owner: OwnerType;
+
+  document: DocumentMetadata;
+
+  /**
+   * State from the previous run; absent for new documents and for documents last
+   * synchronized before the day the run reads from, whose state is no longer kept
+   */
+  previous?: SyncedDocumentState;
+}
+
+/**
+ * Sync callback; the document is recorded as synchronized once the callback resolves
+ */
+export type DocumentSyncHandler = (change: DocumentSyncChange) => void | Promise<void>;
+
+/**
+ * Options of the document sync engine
+ */
+export interface DocumentSyncOptions {
+  /**
+   * Checkpoint storage
+   * @default in-memory store (progress is lost when the process exits)
+   */
+  store?: SyncCheckpointStore;
+
+  /**
+   * Checkpoint key; use different keys for independent mirrors
+   * @default 'documents'
+   */
+  key?: string;
+
+  /**
+   * Owners to synchronize
+   * @default [OwnerType.INCOMING, OwnerType.OUTGOING]
+   */
+  owners?: OwnerType[];
+
+  /**
+   * Start of the first run; documents modified earlier are not read
+   * @default all documents
+   */
+  since?: Date;
+
+  /**
+   * How far before the cursor each run starts reading, in milliseconds
+   * Covers clock skew and documents committed while the previous run was reading.
+   * @default 600000 (10 minutes)
+   */
+  overlap?: number;
+
+  /**
+   * Additional list filters
+   */
+  filters?: {
+    doctype?: string;
+    partner?: string;
+  };
+
+  /**
+   * Save the checkpoint after this many documents
+   * @default 100
+   */
+  checkpointInterval?: number;
+
+  /**
+   * Called for documents seen for the first time
+   */
+  onCreated?: DocumentSyncHandler;
+
+  /**
+   * Called for known documents modified since the last run (including status changes)
+   */
+  onUpdated?: DocumentSyncHandler;
+
+  /**
+   * Called for known documents whose status changed, after `onUpdated`
+   * Also called for updated documents without a `previous` state, whose earlier status is not known.
+   */
+  onStatusChanged?: DocumentSyncHandler;
+}
+
+/**
+ * Options of one sync run
+ */
+export interface DocumentSyncRunOptions {
+  /**
+   * Abort the run; progress up to the current document is saved and the signal's reason is thrown
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Summary of one sync run
+ */
+export interface DocumentSyncReport {
+  /**
+   * Start time of the run
+   */
+  startedAt: Date;
+
+  /**
+   * Whether an interrupted run was continued
+   */
+  resumed: boolean;
+
+  /**
+   * Documents read from the API
+   */
+  read: number;
+
+  created: number;
+  updated: number;
+  statusChanged: number;
+
+  /**
+   * Documents already synchronized (overlap or repeated pages)
+   */
+  unchanged: number;
+
+  /**
+   * List items without a document ID, which cannot be tracked and are not reported
+   */
+  skipped: number;
+}
@@ -0,0 +1,885 @@
+import type { FetchLike, HttpMethod } from '../http/httpClient.js';
+import { DidoxClient } from '../client/DidoxClient.js';
+import type { DidoxConfig } from '../client/DidoxConfig.js';
+import { DocumentStatus } from '../modules/documents/documents.enums.js';
+import type { DocumentPrivileges } from '../modules/documents/documents.types.js';
+import { formatDidoxDate, formatDidoxDateTime, parseDidoxDate } from '../utils/dates.js';
+import { pickString } from '../utils/strings.js';
+import type {
+  DidoxTestServerOptions,
+  TestCompanySeed,
+  TestDocument,
+  TestDocumentSeed,
+  TestServerFault,
+  TestServerRequest
+} from './testServer.types.js';
+
+/**
+ * Response produced by a route handler
+ */
+interface RouteResult {
+  status: number;
+
+  /**
+   * JSON body, or raw bytes for file downloads
+   */
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Session bound to an issued token
+ */
+interface TokenSession {
+  tin: string;
+}
+
+/**
+ * Document lifecycle actions
+ */
+type LifecycleAction = 'send' | 'accept' | 'reject' | 'cancel';
+
+/**
+ * Route handler
+ */
+type RouteHandler = (request: TestServerRequest, params: string[], session: TokenSession | undefined) => RouteResult;
+
+/**
+ * Route definition
+ */
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  authenticated: boolean;
+  handler: RouteHandler;
+}
+
+/**
+ * In-process fake Didox server for offline integration tests
+ *
+ * Implements the endpoints used by the SDK with stateful in-memory behaviour:
+ * authentication, `/v1/account`, `/v1/profile*`, `/v1/utils/info`, document list,
+ * statistics, details, privileges, draft creation and lifecycle actions
+ * (send, accept, reject, cancel, delete). Plug it into the client
+ * through the `fetch` option; no network access is needed.
+ *
+ * @example
+ * ```typescript
+ * const server = new DidoxTestServer();
+ * server.seedCompany({ tin: '123456789', password: 'password123' });
+ * server.seedCompany({ tin: '987654321' });
+ * server.seedDocument({ doctype: '002', ownerTin: '987654321', partnerTin: '123456789', status: 1 });
+ *
+ * const didox = server.createClient();
+ * await didox.auth.loginLegalEntity({ taxId: '123456789', password: 'password123' });
+ *
+ * const incoming = await didox.documents.list({ owner: 0, page: 1, limit: 20 });
+ *
+ * // Simulate a flaky stage server
+ * server.injectFault({ path: '/v2/documents', status: 503, times: 2 });
+ * ```
+ */
+export class DidoxTestServer {
+  /**
+   * Requests received by the server, in order
+   */
+  public readonly requests: TestServerRequest[] = [];
+
+  private readonly companies = new Map<string, TestCompanySeed>();
+  private readonly documents = new Map<string, TestDocument>();
+  private readonly tokens = new Map<string, TokenSession>();
+  private faults: TestServerFault[] = [];
+  private latency: number;
+  private sequence = 0;
+  private readonly routes: Route[];
+
+  constructor(private readonly options: DidoxTestServerOptions = {}) {
+    this.latency = options.latency ?? 0;
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * Fetch implementation serving requests from this server
+   * Pass it as `fetch` in DidoxConfig
+   */
+  public readonly fetch: FetchLike = (url, init) => this.handle(url, init);
+
+  /**
+   * Create a DidoxClient wired to this server
+   *
+   * @param config - Configuration overrides
+   */
+  public createClient(config: Partial<DidoxConfig> = {}): DidoxClient {
+    return new DidoxClient({
+      partnerToken: this.options.partnerToken ?? 'test-partner-token',
+      environment: 'development',
+      ...config,
+      fetch: this.fetch
+    });
+  }
+
+  /**
+   * Add or replace a company
+   */
+  public seedCompany(company: TestCompanySeed): this {
+    this.companies.set(company.tin, { ...company });
+    return this;
+  }
+
+  /**
+   * Add a document
+   *
+   * @returns Stored document
+   */
+  public seedDocument(seed: TestDocumentSeed): TestDocument {
+    const createdAt = seed.createdAt ? new Date(seed.createdAt) : new Date();
+    const document: TestDocument = {
+      id: seed.id ?? this.nextId(),
+      doctype: seed.doctype,
+      status: seed.status ?? DocumentStatus.DRAFT,
+      ownerTin: seed.ownerTin,
+      partnerTin: seed.partnerTin,
+      number: seed.number ?? `DOC-${this.sequence}`,
+      date: seed.date ?? formatDidoxDate(createdAt),
+      createdAt,
+      updatedAt: seed.updatedAt ? new Date(seed.updatedAt) : createdAt,
+      payload: seed.payload ?? {},
+      signatures: []
+    };
+
+    this.documents.set(document.id, document);
+    return document;
+  }
+
+  /**
+   * Get a stored document
+   */
+  public getDocument(id: string): TestDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  /**
+   * Change the status of a stored document (as if the counterparty acted on it)
+   */
+  public setDocumentStatus(id: string, status: DocumentStatus): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      throw new Error(`Document ${id} is not seeded`);
+    }
+    document.status = status;
+    document.updatedAt = new Date();
+  }
+
+  /**
+   * Make the next matching requests fail
+   */
+  public injectFault(fault: TestServerFault): this {
+    this.faults.push({ times: 1, ...fault });
+    return this;
+  }
+
+  /**
+   * Set base latency for every response, in milliseconds
+   */
+  public setLatency(ms: number): this {
+    this.latency = ms;
+    return this;
+  }
+
+  /**
+   * Invalidate all issued tokens (subsequent requests get 401)
+   */
+  public expireTokens(): this {
+    this.tokens.clear();
+    return this;
+  }
+
+  /**
+   * Remove all state: companies, documents, tokens, faults and request log
+   */
+  public reset(): this {
+    this.companies.clear();
+    this.documents.clear();
+    this.tokens.clear();
+    this.faults = [];
+    this.requests.length = 0;
+    this.latency = this.options.latency ?? 0;
+    return this;
+  }
+
+  /**
+   * Handle a request
+   */
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const parsed = new URL(url);
+    const request: TestServerRequest = {
+      method: (init.method ?? 'GET').toUpperCase() as HttpMethod,
+      path: parsed.pathname,
+      query: Object.fromEntries(parsed.searchParams),
+      headers: normalizeHeaders(init.headers),
+      body: typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined
+    };
+    this.requests.push(request);
+
+    const fault = this.takeFault(request);
+    await delay((fault?.delay ?? 0) + this.latency, init.signal ?? undefined);
+
+    if (fault) {
+      if (fault.networkError) {
+        throw new TypeError('fetch failed');
+      }
+      return respond({
+        status: fault.status ?? 500,
+        body: fault.body ?? { message: 'Injected failure' },
+        ...(fault.headers && { headers: fault.headers })
+      });
+    }
+
+    return respond(this.route(request));
+  }
+
+  /**
+   * Find the handler for a request and run it
+   */
+  private route(request: TestServerRequest): RouteResult {
+    const partnerToken = request.headers['partner-authorization'];
+    if (!partnerToken || (this.options.partnerToken && partnerToken !== this.options.partnerToken)) {
+      return error(401, 'Invalid partner token');
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (!match) {
+        continue;
+      }
+
+      let session: TokenSession | undefined;
+      if (route.authenticated) {
+        session = this.tokens.get(request.headers['user-key'] ?? '');
+        if (!session) {
+          return error(401, 'Unauthorized');
+        }
+      }
+
+      return route.handler(request, match.slice(1), session);
+    }
+
+    return error(404, `${request.method} ${request.path} is not implemented by DidoxTestServer`);
+  }
+
+  /**
+   * Take the first fault matching the request
+   */
+  private takeFault(request: TestServerRequest): TestServerFault | undefined {
+    const index = this.faults.findIndex(fault => {
+      if (fault.method && fault.method !== request.method) {
+        return false;
+      }
+      if (fault.path instanceof RegExp) {
+        return fault.path.test(request.path);
+      }
+      return fault.path.endsWith('*')
+        ? request.path.startsWith(fault.path.slice(0, -1))
+        : request.path === fault.path;
+    });
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    const fault = this.faults[index]!;
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  /**
+   * Route table
+   */
+  private createRoutes(): Route[] {
+    const route = (method: HttpMethod, pattern: RegExp, handler: RouteHandler, authenticated = true): Route =>
+      ({ method, pattern, handler, authenticated });
+
+    return [
+      route('POST', /^\/v1\/auth\/company\/(\d{9})\/login\/(ru|uz)$/, (request, [tin]) =>
+        this.loginCompany(request, tin!), false),
+      route('POST', /^\/v1\/auth\/(\d{9})\/password\/(ru|uz)$/, (request, [tin]) =>
+        this.loginLegalEntity(request, tin!), false),
+
+      route('GET', /^\/v1\/account$/, (_request, _params, session) =>
+        ok(this.accountOf(session!.tin))),
+      route('GET', /^\/v1\/profile$/, (_request, _params, session) =>
+        ok(this.profileOf(session!.tin))),
+      route('POST', /^\/v1\/profile\/update$/, (request, _params, session) =>
+        this.updateProfile(request, session!.tin)),
+      route('GET', /^\/v1\/profile\/operators$/, () =>
+        ok([])),
+      route('GET', /^\/v1\/profile\/branches$/, request =>
+        ok(this.companies.get(request.query.tin ?? '')?.branches ?? [])),
+      route('GET', /^\/v1\/profile\/warehouses\/(\d+)$/, (_request, [tin]) =>
+        ok(this.companies.get(tin!)?.warehouses ?? [])),
+      route('GET', /^\/v1\/profile\/productClassCodes$/, (_request, _params, session) =>
+        ok({ current_page: 1, data: this.companies.get(session!.tin)?.productClasses ?? [] })),
+      route('GET', /^\/v1\/utils\/info\/(\d{9})$/, (_request, [tin]) =>
+        this.legalEntityInfo(tin!)),
+
+      route('GET', /^\/v2\/documents$/, (request, _params, session) =>
+        this.listDocuments(request, session!.tin)),
+      route('GET', /^\/v2\/documents\/statistics\/all$/, (request, _params, session) =>
+        this.documentStatistics(request, session!.tin)),
+      route('GET', /^\/v1\/documents\/([^/]+)\/privileges$/, (_request, [id], session) =>
+        this.withDocument(id!, session!.tin, document => ok(this.privilegesOf(document, session!.tin)))),
+      route('GET', /^\/v1\/documents\/([^/]+)$/, (_request, [id], session) =>
+        this.withDocument(id!, session!.tin, document => ok(this.serializeDetails(document, session!.tin)))),
+      route('POST', /^\/v1\/documents\/(\d{3})\/create$/, (request, [doctype], session) =>
+        this.createDocument(request, doctype!, session!.tin)),
+      route('POST', /^\/v1\/documents\/(\d{3})\/update\/([^/]+)$/, (request, [doctype, id], session) =>
+        this.withDocument(id!, session!.tin, document => this.updateDocument(request, document, doctype!, session!.tin))),
+      route('POST', /^\/v1\/documents\/([^/]+)\/(send|accept|reject|cancel)$/, (request, [id, action], session) =>
+        this.withDocument(id!, session!.tin, document =>
+          this.transition(document, action as LifecycleAction, session!.tin, request))),
+      route('GET', /^\/v1\/documents\/([^/]+)\/download\/(pdf|json|p7s|zip)$/, (_request, [id, format], session) =>
+        this.withDocument(id!, session!.tin, document => this.downloadDocument(document, format!, session!.tin))),
+      route('DELETE', /^\/v1\/documents\/([^/]+)$/, (_request, [id], session) =>
+        this.withDocument(id!, session!.tin, document => this.deleteDocument(document, session!.tin)))
+    ];
+  }
+
+  private loginLegalEntity(request: TestServerRequest, tin: string): RouteResult {
+    const company = this.companies.get(tin);
+    const password = (request.body as { password?: string } | undefined)?.password;
+
+    if (!company || password !== (company.password ?? 'password123')) {
+      return error(422, 'Неверный ИНН или пароль');
+    }
+
+    const related = (company.relatedCompanies ?? []).map(relatedTin => ({
+      tin: relatedTin,
+      name: this.nameOf(relatedTin),
+      permissions: []
+    }));
+
+    return ok({
+      token: this.issueToken(tin),
+      related_companies: related.length > 0 ? related : null
+    });
+  }
+
+  private loginCompany(request: TestServerRequest, tin: string): RouteResult {
+    const session = this.tokens.get(request.headers['user-key'] ?? '');
+    if (!session) {
+      return error(401, 'Unauthorized');
+    }
+
+    const allowed = session.tin === tin ||
+      (this.companies.get(session.tin)?.relatedCompanies ?? []).includes(tin);
+    if (!allowed || !this.companies.has(tin)) {
+      return error(422, `No access to company ${tin}`);
+    }
+
+    return ok({
+      token: this.issueToken(tin),
+      permissions: { tin, roles: [] }
+    });
+  }
+
+  private updateProfile(request: TestServerRequest, tin: string): RouteResult {
+    const company = this.companies.get(tin);
+    if (!company) {
+      return error(404, 'Profile not found');
+    }
+
+    const update = (request.body ?? {}) as Record<string, unknown>;
+    company.profile = { ...company.profile, ...update };
+    company.account = { ...company.account, ...update };
+
+    return ok({ ...this.accountOf(tin), ...this.profileOf(tin) });
+  }
+
+  private legalEntityInfo(tin: string): RouteResult {
+    const company = this.companies.get(tin);
+    if (!company) {
+      return error(404, 'Организация не найдена');
+    }
+
+    return ok({
+      tin,
+      name: this.nameOf(tin),
+      shortName: this.nameOf(tin),
+      ...company.info
+    });
+  }
+
+  private listDocuments(request: TestServerRequest, tin: string): RouteResult {
+    const page = Number(request.query.page ?? 1);
+    const limit = Number(request.query.limit ?? 20);
+    const matching = this.filterDocuments(request.query, tin);
+    const total = matching.length;
+
+    return ok({
+      data: matching
+        .slice((page - 1) * limit, page * limit)
+        .map(document => this.serializeDocument(document, tin)),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / limit))
+      }
+    });
+  }
+
+  private documentStatistics(request: TestServerRequest, tin: string): RouteResult {
+    const matching = this.filterDocuments(request.query, tin);
+    const byStatus: Record<number, number> = {};
+    const byType: Record<string, number> = {};
+    const byOwner: Record<number, number> = {};
+
+    for (const document of matching) {
+      const owner = document.ownerTin === tin ? 1 : 0;
+      byStatus[document.status] = (byStatus[document.status] ?? 0) + 1;
+      byType[document.doctype] = (byType[document.doctype] ?? 0) + 1;
+      byOwner[owner] = (byOwner[owner] ?? 0) + 1;
+    }
+
+    return ok({ total: matching.length, byStatus, byType, byOwner });
+  }
+
+  private createDocument(request: TestServerRequest, doctype: string, tin: string): RouteResult {
+    if (!request.body || typeof request.body !== 'object') {
+      return error(422, 'Document body is required');
+    }
+
+    const payload = request.body as Record<string, unknown>;
+    const number = extractNumber(payload);
+
+    const document = this.seedDocument({
+      doctype,
+      ownerTin: tin,
+      partnerTin: extractPartnerTin(payload) ?? '',
+      payload,
+      ...(number !== undefined && { number })
+    });
+
+    return ok(this.serializeDetails(document, tin));
+  }
+
+  private updateDocument(request: TestServerRequest, document: TestDocument, doctype: string, tin: string): RouteResult {
+    if (!this.privilegesOf(document, tin).canEdit) {
+      return error(422, 'Only own drafts can be edited');
+    }
+    if (document.doctype !== doctype) {
+      return error(422, `Document type ${doctype} does not match ${document.doctype}`);
+    }
+    if (!request.body || typeof request.body !== 'object') {
+      return error(422, 'Document body is required');
+    }
+
+    const payload = request.body as Record<string, unknown>;
+    const partnerTin = extractPartnerTin(payload);
+    const number = extractNumber(payload);
+
+    document.payload = payload;
+    if (partnerTin !== undefined) {
+      document.partnerTin = partnerTin;
+    }
+    if (number) {
+      document.number = number;
+    }
+    document.updatedAt = new Date();
+
+    return ok(this.serializeDetails(document, tin));
+  }
+
+  /**
+   * Apply a lifecycle action, following the same rules as `privilegesOf`
+   */
+  private transition(
+    document: TestDocument,
+    action: LifecycleAction,
+    tin: string,
+    request: TestServerRequest
+  ): RouteResult {
+    const privileges = this.privilegesOf(document, tin);
+    const isOwner = document.ownerTin === tin;
+    const rules: Record<LifecycleAction, { allowed: boolean; status: DocumentStatus }> = {
+      send: { allowed: isOwner && privileges.canSign, status: DocumentStatus.SENT },
+      accept: { allowed: !isOwner && privileges.canSign, status: DocumentStatus.SIGNED },
+      reject: { allowed: !isOwner && privileges.canSign, status: DocumentStatus.REJECTED },
+      cancel: { allowed: privileges.canCancel, status: DocumentStatus.CANCELLED }
+    };
+
+    const rule = rules[action];
+    if (!rule.allowed) {
+      return error(422, `Document cannot be processed: ${action} is not allowed in status ${document.status}`);
+    }
+    if (action === 'reject' && !(request.body as { comment?: string } | undefined)?.comment) {
+      return error(422, 'Reject reason is required');
+    }
+
+    const signature = (request.body as { signature?: string } | undefined)?.signature;
+    if (signature) {
+      document.signatures.push(signature);
+    }
+
+    document.status = rule.status;
+    document.updatedAt = new Date();
+
+    return ok(this.serializeDetails(document, tin));
+  }
+
+  /**
+   * Serve a document rendition as a file
+   * The PDF is a placeholder; `p7s` is the last signature received; `zip` bundles the others
+   */
+  private downloadDocument(document: TestDocument, format: string, tin: string): RouteResult {
+    const files: Record<string, Buffer> = {
+      json: Buffer.from(JSON.stringify(this.serializeDetails(document, tin)), 'utf8'),
+      pdf: Buffer.from(`%PDF-1.4\n% Didox test document ${document.id}\n%%EOF\n`, 'latin1')
+    };
+
+    const signature = document.signatures[document.signatures.length - 1];
+    if (signature) {
+      files.p7s = Buffer.from(signature, 'base64');
+    }
+
+    const body = format === 'zip'
+      ? storeZip(Object.entries(files).map(([extension, data]) => ({ name: `document.${extension}`, data })))
+      : files[format];
+
+    if (!body) {
+      return error(404, 'Документ не подписан');
+    }
+
+    const filename = `${document.number}.${format}`;
+    return {
+      status: 200,
+      body,
+      headers: {
+        'content-type': DOWNLOAD_CONTENT_TYPES[format]!,
+        'content-length': String(body.length),
+        'content-disposition': `attachment; filename="${document.id}.${format}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+      }
+    };
+  }
+
+  private deleteDocument(document: TestDocument, tin: string): RouteResult {
+    if (!this.privilegesOf(document, tin).canDelete) {
+      return error(422, 'Only own drafts can be deleted');
+    }
+    this.documents.delete(document.id);
+    return ok({ success: true });
+  }
+
+  /**
+   * Run a handler for a document visible to the company, or return 404
+   */
+  private withDocument(
+    id: string,
+    tin: string,
+    handler: (document: TestDocument) => RouteResult
+  ): RouteResult {
+    const document = this.documents.get(id);
+    if (!document || (document.ownerTin !== tin && document.partnerTin !== tin)) {
+      return error(404, 'Документ не найден');
+    }
+    return handler(document);
+  }
+
+  /**
+   * Apply list filters to the documents visible to a company
+   * Results are ordered by creation time (newest first), then by ID
+   */
+  private filterDocuments(query: Record<string, string>, tin: string): TestDocument[] {
+    const owner = query.owner !== undefined ? Number(query.owner) : undefined;
+    const statuses = query.status?.split(',').map(Number);
+    const from = (field: string) => parseDidoxDate(query[field] && `${query[field]} 00:00:00`);
+    const to = (field: string) => parseDidoxDate(query[field] && `${query[field]} 23:59:59.999`);
+
+    const createdFrom = from('dateFromCreated');
+    const createdTo = to('dateToCreated');
+    const updatedFrom = from('dateFromUpdated');
+    const updatedTo = to('dateToUpdated');
+
+    return [...this.documents.values()]
+      .filter(document => {
+        const isOutgoing = document.ownerTin === tin;
+        const isIncoming = document.partnerTin === tin;
+
+        if (owner === 1 ? !isOutgoing : owner === 0 ? !isIncoming : !(isOutgoing || isIncoming)) {
+          return false;
+        }
+        // Incoming drafts are not visible to the receiver
+        if (owner === 0 && document.status === DocumentStatus.DRAFT) {
+          return false;
+        }
+        if (statuses && !statuses.includes(document.status)) {
+          return false;
+        }
+        if (query.doctype && query.doctype !== document.doctype) {
+          return false;
+        }
+        if (query.partner && query.partner !== (isOutgoing ? document.partnerTin : document.ownerTin)) {
+          return false;
+        }
+        if ((createdFrom && document.createdAt < createdFrom) || (createdTo && document.createdAt > createdTo)) {
+          return false;
+        }
+        if ((updatedFrom && document.updatedAt < updatedFrom) || (updatedTo && document.updatedAt > updatedTo)) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Document as it appears in list responses
+   */
+  private serializeDocument(document: TestDocument, tin: string): Record<string, unknown> {
+    const isOutgoing = document.ownerTin === tin;
+    const partnerTin = isOutgoing ? document.partnerTin : document.ownerTin;
+
+    return {
+      doc_id: document.id,
+      doctype: document.doctype,
+      doc_status: document.status,
+      owner: isOutgoing ? 1 : 0,
+      name: document.number,
+      doc_date: document.date,
+      created: formatDidoxDateTime(document.createdAt),
+      updated: formatDidoxDateTime(document.updatedAt),
+      partnerTin,
+      partnerName: this.nameOf(partnerTin)
+    };
+  }
+
+  /**
+   * Document as returned by `GET /v1/documents/:id`
+   */
+  private serializeDetails(document: TestDocument, tin: string): Record<string, unknown> {
+    return {
+      document: this.serializeDocument(document, tin),
+      json: document.payload
+    };
+  }
+
+  private privilegesOf(document: TestDocument, tin: string): DocumentPrivileges {
+    const isOwner = document.ownerTin === tin;
+    const isDraft = document.status === DocumentStatus.DRAFT;
+    const awaitsSignature = document.status === DocumentStatus.SENT ||
+      document.status === DocumentStatus.WAITING_SIGNATURE;
+
+    return {
+      canView: true,
+      canEdit: isOwner && isDraft,
+      canSign: isOwner ? isDraft : awaitsSignature,
+      canCancel: isOwner && awaitsSignature,
+      canDelete: isOwner && isDraft,
+      canDownload: true
+    };
+  }
+
+  private accountOf(tin: string): Record<string, unknown> {
+    return {
+      mobile: '998900000000',
+      email: `${tin}@example.com`,
+      notifications: 1,
+      messengers: [],
+      ...this.companies.get(tin)?.account
+    };
+  }
+
+  private profileOf(tin: string): Record<string, unknown> {
+    return {
+      tin,
+      name: this.nameOf(tin),
+      fullName: this.nameOf(tin),
+      shortName: this.nameOf(tin),
+      ...this.companies.get(tin)?.profile
+    };
+  }
+
+  private nameOf(tin: string): string {
+    return this.companies.get(tin)?.name ?? `Company ${tin}`;
+  }
+
+  private issueToken(tin: string): string {
+    const token = `00000000-0000-4000-8000-${String(++this.sequence).padStart(12, '0')}`;
+    this.tokens.set(token, { tin });
+    return token;
+  }
+
+  private nextId(): string {
+    return (++this.sequence).toString(16).toUpperCase().padStart(32, '0');
+  }
+}
+
+/**
+ * Content types of document downloads
+ */
+const DOWNLOAD_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  json: 'application/json',
+  p7s: 'application/pkcs7-signature',
+  zip: 'application/zip'
+};
+
+/**
+ * Successful JSON result
+ */
+function ok(body: unknown): RouteResult {
+  return { status: 200, body };
+}
+
+/**
+ * Error JSON result in Didox format
+ */
+function error(status: number, message: string): RouteResult {
+  return { status, body: { message } };
+}
+
+/**
+ * Build a fetch Response from a route result
+ */
+function respond(result: RouteResult): Response {
+  if (Buffer.isBuffer(result.body)) {
+    return new Response(result.body, { status: result.status, headers: result.headers ?? {} });
+  }
+
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers: { 'content-type': 'application/json', ...result.headers }
+  });
+}
+
+/**
+ * Lower-case header names
+ */
+function normalizeHeaders(headers: RequestInit['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * Wait for the given time, aborting together with the request
+ */
+function delay(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      reject(abortError);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Extract document number from common payload shapes
+ */
+function extractNumber(payload: Record<string, unknown>): string | undefined {
+  return pickString(
+    fieldAt(payload, 'FacturaDoc', 'FacturaNo'),
+    fieldAt(payload, 'ActDoc', 'ActNo'),
+    fieldAt(payload, 'EmpowermentDoc', 'EmpowermentNo'),
+    fieldAt(payload, 'WaybillDoc', 'WaybillNo'),
+    fieldAt(payload, 'document', 'documentno')
+  );
+}
+
+/**
+ * Extract the receiver TIN from common payload shapes
+ */
+function extractPartnerTin(payload: Record<string, unknown>): string | undefined {
+  return pickString(payload.BuyerTin, payload.buyerTin, fieldAt(payload, 'Buyer', 'Tin'));
+}
+
+/**
+ * Read a nested field, or undefined when a step is not an object
+ */
+function fieldAt(value: unknown, ...path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+
+/**
+ * Build an uncompressed ZIP archive
+ */
+function storeZip(files: Array<{ name: string; data: Buffer }>): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const crc = crc32(file.data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(file.data.length, 18);
+    header.writeUInt32LE(file.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(file.data.length, 20);
+    entry.writeUInt32LE(file.data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    local.push(header, name, file.data);
+    central.push(entry, name);
+    offset += header.length + name.length + file.data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+}
+
+/**
+ * CRC-32 (IEEE) checksum
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
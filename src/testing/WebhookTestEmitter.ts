@@ -0,0 +1,121 @@
+import { randomUUID } from 'node:crypto';
+import { DidoxValidationError } from '../http/errors.js';
+import { OwnerType } from '../modules/documents/documents.enums.js';
+import { formatDidoxDateTime } from '../utils/dates.js';
+import {
+  EVENT_STATUS,
+  signWebhookPayload,
+  WEBHOOK_EVENT_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER
+} from '../webhooks/parser.js';
+import type { DidoxWebhookEventType, WebhookHttpResponse } from '../webhooks/webhooks.types.js';
+import type {
+  WebhookTestDelivery,
+  WebhookTestDocument,
+  WebhookTestEmitterOptions,
+  WebhookTestEventOptions
+} from './webhookEmitter.types.js';
+
+/**
+ * Sends signed webhook events to a receiver, for local development and tests
+ *
+ * Produces the same payload and headers a Didox delivery carries, signed with
+ * the configured secret and/or partner token.
+ *
+ * @example
+ * ```typescript
+ * const receiver = new DidoxWebhookReceiver({ secret: 'test-secret' });
+ * const emitter = new WebhookTestEmitter({ target: receiver, secret: 'test-secret' });
+ *
+ * receiver.on('document.signed', (event) => console.log(event.document.id));
+ *
+ * await emitter.emit('document.signed', { id: 'doc-1', type: DocumentType.FACTURA });
+ * ```
+ */
+export class WebhookTestEmitter {
+  constructor(private readonly options: WebhookTestEmitterOptions) {}
+
+  /**
+   * Build a signed webhook request without sending it
+   *
+   * @throws {DidoxValidationError} When `document.status_changed` is built without a status
+   */
+  build(
+    type: DidoxWebhookEventType,
+    document: WebhookTestDocument,
+    options: WebhookTestEventOptions = {}
+  ): WebhookTestDelivery {
+    const status = document.status ?? EVENT_STATUS[type];
+    if (status === undefined) {
+      throw new DidoxValidationError(`Document status is required for ${type} events`, 'status');
+    }
+
+    const eventId = options.eventId ?? randomUUID();
+    const body = JSON.stringify({
+      event_id: eventId,
+      event: type,
+      created: formatDidoxDateTime(options.occurredAt ?? new Date()),
+      ...(options.companyTin !== undefined && { tin: options.companyTin }),
+      document: {
+        doc_id: document.id,
+        doctype: document.type,
+        doc_status: status,
+        owner: document.owner ?? OwnerType.INCOMING,
+        ...(document.number !== undefined && { name: document.number }),
+        ...(document.partnerTin !== undefined && { partnerTin: document.partnerTin }),
+        ...(document.partnerName !== undefined && { partnerName: document.partnerName })
+      }
+    });
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      [WEBHOOK_EVENT_ID_HEADER]: eventId
+    };
+    if (this.options.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(body, this.options.secret);
+    }
+    if (this.options.partnerToken) {
+      headers['partner-authorization'] = this.options.partnerToken;
+    }
+
+    return { headers, body };
+  }
+
+  /**
+   * Build and deliver an event
+   *
+   * @returns HTTP status and JSON body of the receiver's answer
+   */
+  async emit(
+    type: DidoxWebhookEventType,
+    document: WebhookTestDocument,
+    options: WebhookTestEventOptions = {}
+  ): Promise<WebhookHttpResponse> {
+    return this.deliver(this.build(type, document, options));
+  }
+
+  /**
+   * Deliver a request built with `build` (e.g. twice, to test deduplication)
+   */
+  async deliver(delivery: WebhookTestDelivery): Promise<WebhookHttpResponse> {
+    const { target } = this.options;
+    if (typeof target !== 'string') {
+      return target.handleRequest(delivery.headers, delivery.body);
+    }
+
+    const response = await (this.options.fetch ?? fetch)(target, {
+      method: 'POST',
+      headers: delivery.headers,
+      body: delivery.body
+    });
+    const text = await response.text();
+
+    let body: Record<string, unknown>;
+    try {
+      body = text ? JSON.parse(text) as Record<string, unknown> : {};
+    } catch {
+      body = { text };
+    }
+    return { status: response.status, body };
+  }
+}
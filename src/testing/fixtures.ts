@@ -0,0 +1,318 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { FetchLike, HttpMethod } from '../http/httpClient.js';
+import type {
+  FixtureEntry,
+  FixtureFile,
+  FixtureRecorderOptions,
+  FixtureRedactionOptions,
+  FixtureReplayerOptions,
+  FixtureRequest
+} from './fixtures.types.js';
+
+const DEFAULT_REPLACEMENT = '[REDACTED]';
+
+const SECRET_HEADERS = ['partner-authorization', 'user-key', 'authorization', 'cookie'];
+
+/**
+ * Records real request/response pairs into a fixture file
+ *
+ * Wraps a fetch implementation: pass `recorder.fetch` as `fetch` in DidoxConfig,
+ * run a session against the stage environment and save it. Secrets are redacted
+ * before entries are stored, so nothing sensitive reaches the file.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new FixtureRecorder();
+ * const didox = new DidoxClient({
+ *   partnerToken: process.env.DIDOX_PARTNER_TOKEN!,
+ *   environment: 'development',
+ *   fetch: recorder.fetch
+ * });
+ *
+ * await didox.auth.loginLegalEntity({ taxId: '123456789', password: process.env.DIDOX_PASSWORD! });
+ * await didox.documents.list({ owner: 0, page: 1, limit: 20 });
+ *
+ * await recorder.save('fixtures/documents.json');
+ * ```
+ */
+export class FixtureRecorder {
+  /**
+   * Recorded entries (already redacted)
+   */
+  public readonly entries: FixtureEntry[] = [];
+
+  constructor(private readonly options: FixtureRecorderOptions = {}) {}
+
+  /**
+   * Fetch implementation that records every exchange
+   */
+  public readonly fetch: FetchLike = async (url, init) => {
+    const request = parseRequest(url, init);
+    const response = await (this.options.fetch ?? fetch)(url, init);
+
+    const headers = headersToRecord(response.headers);
+
+    if (isBinary(headers['content-type'])) {
+      const bytes = Buffer.from(await response.clone().arrayBuffer());
+      this.entries.push(redactEntry({
+        request,
+        response: { status: response.status, headers, base64: bytes.toString('base64') }
+      }, this.options.redact));
+      return response;
+    }
+
+    const text = await response.clone().text();
+    const body = parseJson(text);
+
+    this.entries.push(redactEntry({
+      request,
+      response: {
+        status: response.status,
+        headers,
+        ...(body !== undefined ? { body } : text ? { text } : {})
+      }
+    }, this.options.redact));
+
+    return response;
+  };
+
+  /**
+   * Fixture file contents for the recorded entries
+   */
+  public toJSON(): FixtureFile {
+    return {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      entries: this.entries
+    };
+  }
+
+  /**
+   * Write recorded entries to a JSON file, creating directories as needed
+   *
+   * @param path - Fixture file path
+   */
+  public async save(path: string): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`, 'utf8');
+  }
+}
+
+/**
+ * Serves recorded fixtures instead of calling the API
+ *
+ * Requests are matched by method, path and query string (and optionally body).
+ * Entries recorded for the same request are served in recorded order. Requests
+ * without a fixture are answered with 501 and a message naming the request.
+ *
+ * @example
+ * ```typescript
+ * const replayer = await FixtureReplayer.load('fixtures/documents.json');
+ * const didox = new DidoxClient({
+ *   partnerToken: 'replay',
+ *   environment: 'development',
+ *   fetch: replayer.fetch
+ * });
+ *
+ * await didox.auth.loginLegalEntity({ taxId: '123456789', password: 'any-password' });
+ * const documents = await didox.documents.list({ owner: 0, page: 1, limit: 20 });
+ * ```
+ */
+export class FixtureReplayer {
+  private readonly entries: FixtureEntry[];
+  private readonly served = new Set<FixtureEntry>();
+
+  constructor(
+    fixtures: FixtureFile | FixtureEntry[],
+    private readonly options: FixtureReplayerOptions = {}
+  ) {
+    this.entries = Array.isArray(fixtures) ? fixtures : fixtures.entries;
+  }
+
+  /**
+   * Load fixtures from a JSON file
+   *
+   * @param path - Fixture file path
+   * @param options - Replay options
+   */
+  public static async load(path: string, options: FixtureReplayerOptions = {}): Promise<FixtureReplayer> {
+    const contents = JSON.parse(await readFile(path, 'utf8')) as FixtureFile;
+    return new FixtureReplayer(contents, options);
+  }
+
+  /**
+   * Fetch implementation that serves fixtures
+   */
+  public readonly fetch: FetchLike = async (url, init) => {
+    const request = redactEntry(
+      { request: parseRequest(url, init), response: { status: 0, headers: {} } },
+      this.options.redact
+    ).request;
+
+    const entry = this.match(request);
+    if (!entry) {
+      return new Response(
+        JSON.stringify({ message: `No fixture recorded for ${describe(request)}` }),
+        { status: 501, headers: { 'content-type': 'application/json' } }
+      );
+    }
+
+    this.served.add(entry);
+
+    const { status, headers, body, text, base64 } = entry.response;
+    const payload = base64 !== undefined
+      ? Buffer.from(base64, 'base64')
+      : body !== undefined ? JSON.stringify(body) : text ?? '';
+
+    return new Response(status === 204 || status === 304 ? null : payload, { status, headers });
+  };
+
+  /**
+   * Entries that have not been served yet
+   * Useful to assert that a test exercised the whole recording
+   */
+  public unused(): FixtureEntry[] {
+    return this.entries.filter(entry => !this.served.has(entry));
+  }
+
+  /**
+   * Forget which entries were served
+   */
+  public reset(): void {
+    this.served.clear();
+  }
+
+  private match(request: FixtureRequest): FixtureEntry | undefined {
+    const candidates = this.entries.filter(entry =>
+      entry.request.method === request.method &&
+      entry.request.path === request.path &&
+      sameJson(entry.request.query, request.query) &&
+      (!this.options.matchBody || sameJson(entry.request.body, request.body))
+    );
+
+    const next = candidates.find(entry => !this.served.has(entry));
+    if (next) {
+      return next;
+    }
+
+    return this.options.repeat === false ? undefined : candidates[candidates.length - 1];
+  }
+}
+
+/**
+ * Convert fetch arguments into a fixture request
+ */
+function parseRequest(url: string, init: RequestInit): FixtureRequest {
+  const parsed = new URL(url);
+  const body = typeof init.body === 'string' ? parseJson(init.body) : undefined;
+
+  return {
+    method: (init.method ?? 'GET').toUpperCase() as HttpMethod,
+    path: parsed.pathname,
+    query: Object.fromEntries(parsed.searchParams),
+    headers: headersToRecord(new Headers(init.headers)),
+    ...(body !== undefined && { body })
+  };
+}
+
+/**
+ * Replace secrets in a fixture entry
+ */
+function redactEntry(entry: FixtureEntry, options: FixtureRedactionOptions = {}): FixtureEntry {
+  const replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+  const secretHeaders = [...SECRET_HEADERS, ...(options.headers ?? []).map(name => name.toLowerCase())];
+  const fields = options.fields ?? [];
+  const isAuth = entry.request.path.startsWith('/v1/auth');
+
+  const redactHeaders = (headers: Record<string, string>) => Object.fromEntries(
+    Object.entries(headers).map(([name, value]) =>
+      [name, secretHeaders.includes(name) ? replacement : value]
+    )
+  );
+
+  const { request, response } = entry;
+
+  return {
+    request: {
+      ...request,
+      headers: redactHeaders(request.headers),
+      ...(request.body !== undefined && {
+        body: redactFields(request.body, isAuth ? [...fields, 'password'] : fields, replacement)
+      })
+    },
+    response: {
+      ...response,
+      headers: redactHeaders(response.headers),
+      ...(response.body !== undefined && {
+        body: redactFields(response.body, isAuth ? [...fields, 'token'] : fields, replacement)
+      })
+    }
+  };
+}
+
+/**
+ * Replace values of the given fields at any depth
+ */
+function redactFields(value: unknown, fields: string[], replacement: string): unknown {
+  if (fields.length === 0 || value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactFields(item, fields, replacement));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) =>
+      [key, fields.includes(key) ? replacement : redactFields(item, fields, replacement)]
+    )
+  );
+}
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * Responses stored as base64: anything that is not JSON, text or XML
+ */
+function isBinary(contentType: string | undefined): boolean {
+  return contentType !== undefined && !/json|text|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
+function parseJson(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  return Object.fromEntries(
+    Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+  );
+}
+
+function describe(request: FixtureRequest): string {
+  const query = new URLSearchParams(request.query).toString();
+  return `${request.method} ${request.path}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,139 @@
+import type { FetchLike, HttpMethod } from '../http/httpClient.js';
+
+/**
+ * Recorded request
+ */
+export interface FixtureRequest {
+  method: HttpMethod;
+
+  /**
+   * Request path without base URL and query string
+   */
+  path: string;
+
+  query: Record<string, string>;
+
+  /**
+   * Request headers (lower-case names, secrets redacted)
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Parsed JSON body (secrets redacted)
+   */
+  body?: unknown;
+}
+
+/**
+ * Recorded response
+ */
+export interface FixtureResponse {
+  status: number;
+
+  /**
+   * Response headers (lower-case names)
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Parsed JSON body
+   */
+  body?: unknown;
+
+  /**
+   * Raw body, when the response is not JSON
+   */
+  text?: string;
+
+  /**
+   * Base64 body, when the response is binary (e.g. a PDF download)
+   */
+  base64?: string;
+}
+
+/**
+ * Recorded request/response pair
+ */
+export interface FixtureEntry {
+  request: FixtureRequest;
+  response: FixtureResponse;
+}
+
+/**
+ * Fixture file contents
+ */
+export interface FixtureFile {
+  version: 1;
+
+  /**
+   * ISO timestamp of the recording
+   */
+  recordedAt: string;
+
+  entries: FixtureEntry[];
+}
+
+/**
+ * Secret redaction rules
+ *
+ * `Partner-Authorization`, `user-key`, `Authorization` and `Cookie` headers,
+ * the `password` field of `/v1/auth` requests and the `token` field of
+ * `/v1/auth` responses are always redacted.
+ */
+export interface FixtureRedactionOptions {
+  /**
+   * Additional header names to redact (case-insensitive)
+   */
+  headers?: string[];
+
+  /**
+   * Additional JSON field names to redact in request and response bodies, at any depth
+   */
+  fields?: string[];
+
+  /**
+   * Value written instead of a secret
+   * @default '[REDACTED]'
+   */
+  replacement?: string;
+}
+
+/**
+ * Fixture recorder options
+ */
+export interface FixtureRecorderOptions {
+  /**
+   * Fetch implementation used to reach the real API
+   * @default global fetch
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Secret redaction rules
+   */
+  redact?: FixtureRedactionOptions;
+}
+
+/**
+ * Fixture replayer options
+ */
+export interface FixtureReplayerOptions {
+  /**
+   * Require request bodies to match the recorded ones
+   * When disabled, entries are matched by method, path and query only
+   * @default false
+   */
+  matchBody?: boolean;
+
+  /**
+   * Serve the last matching entry again once all matching entries were used
+   * When disabled, such requests fail like unknown ones
+   * @default true
+   */
+  repeat?: boolean;
+
+  /**
+   * Redaction rules used during recording, applied to incoming bodies before matching
+   */
+  redact?: FixtureRedactionOptions;
+}
@@ -0,0 +1,34 @@
+/**
+ * Testing utilities (`didox/testing`)
+ *
+ * Fake Didox API, fixture recording and replay, and a webhook emitter for
+ * offline tests. Published as a separate entry point so applications do not
+ * ship test code with the SDK.
+ */
+
+export { DidoxTestServer } from './DidoxTestServer.js';
+export type {
+  DidoxTestServerOptions,
+  TestCompanySeed,
+  TestDocumentSeed,
+  TestDocument,
+  TestServerFault,
+  TestServerRequest
+} from './testServer.types.js';
+export { FixtureRecorder, FixtureReplayer } from './fixtures.js';
+export type {
+  FixtureEntry,
+  FixtureFile,
+  FixtureRequest,
+  FixtureResponse,
+  FixtureRedactionOptions,
+  FixtureRecorderOptions,
+  FixtureReplayerOptions
+} from './fixtures.types.js';
+export { WebhookTestEmitter } from './WebhookTestEmitter.js';
+export type {
+  WebhookTestEmitterOptions,
+  WebhookTestDocument,
+  WebhookTestEventOptions,
+  WebhookTestDelivery
+} from './webhookEmitter.types.js';
@@ -0,0 +1,218 @@
+import type { HttpMethod } from '../http/httpClient.js';
+import type { DocumentStatus } from '../modules/documents/documents.enums.js';
+import type { AccountProfile } from '../modules/account/account.types.js';
+import type { CompanyProfile } from '../modules/profile/profile.types.js';
+import type { Warehouse } from '../modules/profile/warehouses.types.js';
+import type { ProductClass } from '../modules/profile/productClasses.types.js';
+import type { CompanyBranch, LegalEntityInfo } from '../modules/utilities/utilities.types.js';
+
+/**
+ * Company seeded into the test server
+ */
+export interface TestCompanySeed {
+  /**
+   * Company Tax Identification Number (9 digits)
+   */
+  tin: string;
+
+  /**
+   * Login password
+   * @default 'password123'
+   */
+  password?: string;
+
+  /**
+   * Company name
+   * @default `Company ${tin}`
+   */
+  name?: string;
+
+  /**
+   * TINs of companies this login may switch to (returned as `related_companies`)
+   */
+  relatedCompanies?: string[];
+
+  /**
+   * Overrides for `GET /v1/profile`
+   */
+  profile?: Partial<CompanyProfile>;
+
+  /**
+   * Overrides for `GET /v1/account`
+   */
+  account?: Partial<AccountProfile>;
+
+  /**
+   * Overrides for `GET /v1/utils/info/:tin`
+   */
+  info?: Partial<LegalEntityInfo>;
+
+  /**
+   * Branches returned by `GET /v1/profile/branches`
+   */
+  branches?: CompanyBranch[];
+
+  /**
+   * Warehouses returned by `GET /v1/profile/warehouses/:tin`
+   */
+  warehouses?: Warehouse[];
+
+  /**
+   * Product classes returned by `GET /v1/profile/productClassCodes`
+   */
+  productClasses?: ProductClass[];
+}
+
+/**
+ * Document seeded into the test server
+ */
+export interface TestDocumentSeed {
+  /**
+   * Document ID (generated when omitted)
+   */
+  id?: string;
+
+  /**
+   * Document type code, e.g. '002'
+   */
+  doctype: string;
+
+  /**
+   * Document status
+   * @default DocumentStatus.DRAFT
+   */
+  status?: DocumentStatus;
+
+  /**
+   * TIN of the company that created the document (sender)
+   */
+  ownerTin: string;
+
+  /**
+   * TIN of the counterparty (receiver)
+   */
+  partnerTin: string;
+
+  /**
+   * Document number
+   */
+  number?: string;
+
+  /**
+   * Document date (YYYY-MM-DD)
+   */
+  date?: string;
+
+  /**
+   * Creation time
+   * @default now
+   */
+  createdAt?: Date | string;
+
+  /**
+   * Last update time
+   * @default createdAt
+   */
+  updatedAt?: Date | string;
+
+  /**
+   * Document JSON body as sent to `/:doctype/create`
+   */
+  payload?: unknown;
+}
+
+/**
+ * Stored document state
+ */
+export interface TestDocument {
+  id: string;
+  doctype: string;
+  status: DocumentStatus;
+  ownerTin: string;
+  partnerTin: string;
+  number: string;
+  date: string;
+  createdAt: Date;
+  updatedAt: Date;
+  payload: unknown;
+
+  /**
+   * Base64 signatures received with lifecycle actions, in order
+   */
+  signatures: string[];
+}
+
+/**
+ * Injected failure
+ */
+export interface TestServerFault {
+  /**
+   * Only match this HTTP method
+   */
+  method?: HttpMethod;
+
+  /**
+   * Path to match (without query string); strings match exactly or as a prefix ending with `*`
+   */
+  path: string | RegExp;
+
+  /**
+   * Response status to return
+   * @default 500
+   */
+  status?: number;
+
+  /**
+   * Response body to return
+   */
+  body?: unknown;
+
+  /**
+   * Additional response headers, e.g. `Retry-After`
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Fail with a network error instead of returning a response
+   */
+  networkError?: boolean;
+
+  /**
+   * Extra latency for matching requests, in milliseconds
+   */
+  delay?: number;
+
+  /**
+   * How many requests to fail before the fault is removed
+   * @default 1
+   */
+  times?: number;
+}
+
+/**
+ * Request received by the test server
+ */
+export interface TestServerRequest {
+  method: HttpMethod;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Test server options
+ */
+export interface DidoxTestServerOptions {
+  /**
+   * Partner token required in `Partner-Authorization`
+   * Any non-empty token is accepted when omitted
+   */
+  partnerToken?: string;
+
+  /**
+   * Base latency added to every response, in milliseconds
+   * @default 0
+   */
+  latency?: number;
+}
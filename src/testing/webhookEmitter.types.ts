@@ -0,0 +1,73 @@
+import type { FetchLike } from '../http/httpClient.js';
+import type { DocumentStatus, DocumentType, OwnerType } from '../modules/documents/documents.enums.js';
+import type { DidoxWebhookReceiver } from '../webhooks/DidoxWebhookReceiver.js';
+import type { WebhookAuthOptions } from '../webhooks/webhooks.types.js';
+
+/**
+ * Options of the webhook test emitter
+ */
+export interface WebhookTestEmitterOptions extends WebhookAuthOptions {
+  /**
+   * Receiver instance (called directly) or URL of a running webhook endpoint
+   */
+  target: DidoxWebhookReceiver | string;
+
+  /**
+   * Fetch implementation used for URL targets
+   * @default global fetch
+   */
+  fetch?: FetchLike;
+}
+
+/**
+ * Document described by an emitted event
+ */
+export interface WebhookTestDocument {
+  id: string;
+  type: DocumentType;
+
+  /**
+   * Document status
+   * Defaults to the status implied by the event (SENT, SIGNED, REJECTED, CANCELLED);
+   * required for `document.status_changed`
+   */
+  status?: DocumentStatus;
+
+  /**
+   * @default OwnerType.INCOMING
+   */
+  owner?: OwnerType;
+
+  number?: string;
+  partnerTin?: string;
+  partnerName?: string;
+}
+
+/**
+ * Per-event overrides
+ */
+export interface WebhookTestEventOptions {
+  /**
+   * Event ID; reuse one to simulate a redelivery
+   * @default random UUID
+   */
+  eventId?: string;
+
+  /**
+   * @default now
+   */
+  occurredAt?: Date;
+
+  /**
+   * TIN of the receiving company
+   */
+  companyTin?: string;
+}
+
+/**
+ * Signed webhook request ready to be delivered
+ */
+export interface WebhookTestDelivery {
+  headers: Record<string, string>;
+  body: string;
+}
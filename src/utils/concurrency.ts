@@ -0,0 +1,33 @@
+/**
+ * Run an async worker over items with at most `concurrency` calls in flight
+ *
+ * Items are started in order. The first worker error rejects the returned
+ * promise; items not yet started are skipped.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum number of concurrent workers (at least 1)
+ * @param worker - Async function called for every item
+ */
+export async function runConcurrently<T>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+
+  const lane = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index]!, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane);
+  await Promise.all(lanes);
+}
@@ -0,0 +1,139 @@
+/**
+ * Date utilities for Didox API values
+ *
+ * Didox reports and filters timestamps in Tashkent time (UTC+05:00, no DST)
+ * without a zone designator, e.g. `2024-01-15 10:30:00`.
+ */
+
+/**
+ * Offset of Didox timestamps from UTC, in minutes
+ */
+export const DIDOX_UTC_OFFSET_MINUTES = 5 * 60;
+
+const OFFSET_MS = DIDOX_UTC_OFFSET_MINUTES * 60_000;
+
+/**
+ * `YYYY-MM-DD`, optionally followed by ` HH:mm[:ss[.fff]]` or `THH:mm[:ss[.fff]]` and a zone
+ */
+const ISO_LIKE = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,6}))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * `DD.MM.YYYY`, optionally followed by ` HH:mm[:ss]`
+ */
+const DOTTED = /^(\d{2})\.(\d{2})\.(\d{4})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Parse a date value from the Didox API
+ *
+ * Accepts `YYYY-MM-DD[ HH:mm:ss]`, ISO 8601, `DD.MM.YYYY[ HH:mm:ss]`, Unix
+ * timestamps (seconds or milliseconds) and Date objects. Values without a zone
+ * are read as Tashkent time.
+ *
+ * @param value - Date value from the API
+ * @returns Parsed date, or undefined when the value is empty or not a date
+ *
+ * @example
+ * ```typescript
+ * parseDidoxDate('2024-01-15 10:30:00'); // 2024-01-15T05:30:00.000Z
+ * parseDidoxDate('15.01.2024');          // 2024-01-14T19:00:00.000Z
+ * parseDidoxDate('yesterday');           // undefined
+ * ```
+ */
+export function parseDidoxDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : new Date(value.getTime());
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      return undefined;
+    }
+    // Seconds until year 33658; larger values are milliseconds
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const text = value.trim();
+
+  const iso = ISO_LIKE.exec(text);
+  if (iso) {
+    const [, year, month, day, hours, minutes, seconds, fraction, zone] = iso;
+    const ms = fraction ? Number(fraction.slice(0, 3).padEnd(3, '0')) : 0;
+    return fromParts(+year!, +month!, +day!, +(hours ?? 0), +(minutes ?? 0), +(seconds ?? 0), ms, zone);
+  }
+
+  const dotted = DOTTED.exec(text);
+  if (dotted) {
+    const [, day, month, year, hours, minutes, seconds] = dotted;
+    return fromParts(+year!, +month!, +day!, +(hours ?? 0), +(minutes ?? 0), +(seconds ?? 0), 0, undefined);
+  }
+
+  return undefined;
+}
+
+/**
+ * Format a date as `YYYY-MM-DD` in Tashkent time (list filter format)
+ */
+export function formatDidoxDate(date: Date): string {
+  return toTashkent(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Format a date as `YYYY-MM-DD HH:mm:ss` in Tashkent time (API timestamp format)
+ */
+export function formatDidoxDateTime(date: Date): string {
+  return toTashkent(date).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Shift a date so that its UTC fields show Tashkent wall-clock time
+ */
+function toTashkent(date: Date): Date {
+  return new Date(date.getTime() + OFFSET_MS);
+}
+
+/**
+ * Build a date from calendar fields, rejecting impossible dates such as 2024-02-30
+ */
+function fromParts(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  ms: number,
+  zone: string | undefined
+): Date | undefined {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds, ms);
+  const check = new Date(wallClock);
+  if (
+    check.getUTCFullYear() !== year ||
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day ||
+    hours > 23 || minutes > 59 || seconds > 59
+  ) {
+    return undefined;
+  }
+
+  return new Date(wallClock - zoneOffset(zone));
+}
+
+/**
+ * Zone offset in milliseconds; Tashkent when no zone is given
+ */
+function zoneOffset(zone: string | undefined): number {
+  if (zone === undefined) {
+    return OFFSET_MS;
+  }
+  if (zone.toUpperCase() === 'Z') {
+    return 0;
+  }
+
+  const digits = zone.replace(':', '');
+  const sign = digits.startsWith('-') ? -1 : 1;
+  return sign * (Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5))) * 60_000;
+}
@@ -0,0 +1,51 @@
+import { DidoxValidationError } from '../http/errors.js';
+import { Decimal } from './decimal.js';
+
+describe('Decimal', () => {
+  it('adds, subtracts and multiplies exactly', () => {
+    expect(Decimal.from(0.1).plus(0.2).toString()).toBe('0.3');
+    expect(Decimal.from('1.10').minus('0.1').toString()).toBe('1');
+    expect(Decimal.from(12345).times('0.01').toString()).toBe('123.45');
+    expect(Decimal.sum([0.1, '0.2', 3n]).toString()).toBe('3.3');
+  });
+
+  it('reads exponents and signs', () => {
+    expect(Decimal.from('1e3').toString()).toBe('1000');
+    expect(Decimal.from('1.5e-2').toString()).toBe('0.015');
+    expect(Decimal.from(' -0.5 ').toString()).toBe('-0.5');
+  });
+
+  it('rounds half away from zero', () => {
+    expect(Decimal.from('1.005').round(2).toFixed(2)).toBe('1.01');
+    expect(Decimal.from('0.125').round(2).toString()).toBe('0.13');
+    expect(Decimal.from('0.124').round(2).toString()).toBe('0.12');
+    expect(Decimal.from('-1.005').round(2).toString()).toBe('-1.01');
+    expect(Decimal.from('-0.001').round(2).toFixed(2)).toBe('0.00');
+  });
+
+  it('rounds quotients to the requested scale', () => {
+    expect(Decimal.from(10).divide(3, 2).toString()).toBe('3.33');
+    expect(Decimal.from(2).divide(3, 2).toString()).toBe('0.67');
+    expect(Decimal.from(-2).divide(3, 2).toString()).toBe('-0.67');
+    expect(Decimal.from(112).times(12).divide(112, 2).toString()).toBe('12');
+  });
+
+  it('formats with a fixed number of fraction digits', () => {
+    expect(Decimal.from(1250).toFixed(2)).toBe('1250.00');
+    expect(Decimal.from('0.5').toFixed(0)).toBe('1');
+    expect(JSON.stringify({ amount: Decimal.from('1.50') })).toBe('{"amount":"1.5"}');
+  });
+
+  it('compares values of different scales', () => {
+    expect(Decimal.from('1.50').compare(1.5)).toBe(0);
+    expect(Decimal.from('-1').compare(0)).toBe(-1);
+    expect(Decimal.from('0.01').compare(0)).toBe(1);
+  });
+
+  it('rejects values that are not finite decimals', () => {
+    expect(() => Decimal.from(Number.NaN)).toThrow(DidoxValidationError);
+    expect(() => Decimal.from(Infinity)).toThrow(DidoxValidationError);
+    expect(() => Decimal.from('12,5')).toThrow(DidoxValidationError);
+    expect(() => Decimal.from(1).divide(0, 2)).toThrow('Division by zero');
+  });
+});
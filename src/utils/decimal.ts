@@ -0,0 +1,195 @@
+/**
+ * Decimal arithmetic for money amounts
+ *
+ * JavaScript numbers cannot represent most decimal fractions exactly
+ * (`0.1 + 0.2 !== 0.3`, `1.005 * 1000 === 1004.9999999999999`), so amounts
+ * computed with them drift from what Didox calculates by a tiyin here and
+ * there. `Decimal` keeps values as exact scaled integers and rounds only where
+ * asked to.
+ */
+
+import { DidoxValidationError } from '../http/errors.js';
+
+/**
+ * Value accepted wherever a decimal is expected
+ */
+export type DecimalInput = Decimal | number | string | bigint;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Immutable exact decimal number
+ *
+ * Addition, subtraction and multiplication are exact; division and rounding
+ * round half away from zero (commercial rounding, 0.125 → 0.13).
+ *
+ * @example
+ * ```typescript
+ * Decimal.from(0.1).plus(0.2).toString();        // '0.3'
+ * Decimal.from('1.005').round(2).toFixed(2);     // '1.01'
+ * Decimal.from(112).times(12).divide(112, 2).toString(); // '12'
+ * ```
+ */
+export class Decimal {
+  /**
+   * @param units - Value multiplied by 10^scale
+   * @param scale - Number of fraction digits
+   */
+  private constructor(
+    private readonly units: bigint,
+    private readonly scale: number
+  ) {}
+
+  /**
+   * Create a decimal from a number, a numeric string or a bigint
+   *
+   * Numbers are read by their shortest string form, so `0.1` is exactly 0.1.
+   *
+   * @throws {DidoxValidationError} When the value is not a finite number
+   */
+  static from(value: DecimalInput): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+    if (typeof value === 'bigint') {
+      return new Decimal(value, 0);
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new DidoxValidationError(`${value} is not a finite number`);
+    }
+
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new DidoxValidationError(`"${String(value)}" is not a decimal number`);
+    }
+
+    const [, sign, whole = '', fraction = '', exponent] = match;
+    let units = BigInt(`${whole}${fraction}` || '0');
+    let scale = fraction.length - Number(exponent ?? 0);
+    if (scale < 0) {
+      units *= 10n ** BigInt(-scale);
+      scale = 0;
+    }
+    return new Decimal(sign === '-' ? -units : units, scale);
+  }
+
+  /**
+   * Zero
+   */
+  static readonly ZERO = new Decimal(0n, 0);
+
+  /**
+   * Sum of the values (zero for an empty list)
+   */
+  static sum(values: DecimalInput[]): Decimal {
+    return values.reduce<Decimal>((total, value) => total.plus(value), Decimal.ZERO);
+  }
+
+  plus(other: DecimalInput): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a + b, scale);
+  }
+
+  minus(other: DecimalInput): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a - b, scale);
+  }
+
+  times(other: DecimalInput): Decimal {
+    const value = Decimal.from(other);
+    return new Decimal(this.units * value.units, this.scale + value.scale);
+  }
+
+  /**
+   * Divide and round the quotient to `scale` fraction digits
+   *
+   * @throws {DidoxValidationError} When dividing by zero
+   */
+  divide(divisor: DecimalInput, scale: number): Decimal {
+    const value = Decimal.from(divisor);
+    if (value.units === 0n) {
+      throw new DidoxValidationError('Division by zero');
+    }
+    const numerator = this.units * 10n ** BigInt(value.scale + scale);
+    const denominator = value.units * 10n ** BigInt(this.scale);
+    return new Decimal(divideRounded(numerator, denominator), scale);
+  }
+
+  /**
+   * Round to `scale` fraction digits (half away from zero)
+   */
+  round(scale = 2): Decimal {
+    if (this.scale <= scale) {
+      return this;
+    }
+    return new Decimal(divideRounded(this.units, 10n ** BigInt(this.scale - scale)), scale);
+  }
+
+  /**
+   * -1, 0 or 1 as this value is less than, equal to or greater than `other`
+   */
+  compare(other: DecimalInput): -1 | 0 | 1 {
+    const [a, b] = Decimal.align(this, Decimal.from(other));
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /**
+   * Rounded value with exactly `scale` fraction digits, e.g. `'1250.00'`
+   */
+  toFixed(scale = 2): string {
+    const rounded = this.round(scale);
+    const units = rounded.units * 10n ** BigInt(scale - rounded.scale);
+    const digits = (units < 0n ? -units : units).toString().padStart(scale + 1, '0');
+    const whole = digits.slice(0, digits.length - scale);
+    const fraction = digits.slice(digits.length - scale);
+    return `${units < 0n ? '-' : ''}${whole}${scale > 0 ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Shortest exact representation, e.g. `'0.3'`, `'12'`
+   */
+  toString(): string {
+    return this.toFixed(this.scale).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+  }
+
+  /**
+   * Nearest JavaScript number
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Units of both values at their common scale
+   */
+  private static align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [a.units * 10n ** BigInt(scale - a.scale), b.units * 10n ** BigInt(scale - b.scale), scale];
+  }
+}
+
+/**
+ * Integer division rounding half away from zero
+ */
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const absRemainder = remainder < 0n ? -remainder : remainder;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+  if (absRemainder * 2n < absDenominator) {
+    return quotient;
+  }
+  return (numerator < 0n) !== (denominator < 0n) ? quotient - 1n : quotient + 1n;
+}
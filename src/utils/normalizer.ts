@@ -1,9 +1,18 @@
-import type { DocumentType, DocumentStatus } from '../modules/documents/documents.enums.js';
+import { DocumentType, DocumentStatus, OwnerType } from '../modules/documents/documents.enums.js';
 import type { 
   DocumentsListResponse, 
   NormalizedDocumentsListResponse, 
-  PaginationMeta 
+  PaginationMeta,
+  DocumentPrivileges,
+  DocumentMetadata,
+  DocumentStatistics,
+  DocumentStatusInfo,
+  DocumentTypeInfo,
+  DocumentsStatisticsResponse,
+  LocalizedName
 } from '../modules/documents/documents.types.js';
+import { parseDidoxDate } from './dates.js';
+import { pickString } from './strings.js';
 
 /**
  * Data normalization utilities for documents
@@ -12,142 +21,475 @@ import type {
  * into consistent, usable formats for the client application.
  */
 
+/**
+ * Status names and descriptions
+ */
+const STATUS_INFO: Record<number, { name: string; description: string; labels: LocalizedName }> = {
+  [DocumentStatus.DRAFT]: {
+    name: 'DRAFT',
+    description: 'Document in draft state',
+    labels: { ru: 'Черновик', uz: 'Qoralama', en: 'Draft' }
+  },
+  [DocumentStatus.SENT]: {
+    name: 'SENT',
+    description: 'Sent to the counterparty for signing',
+    labels: { ru: 'Отправлен', uz: 'Yuborilgan', en: 'Sent' }
+  },
+  [DocumentStatus.SIGNED]: {
+    name: 'SIGNED',
+    description: 'Signed by all parties',
+    labels: { ru: 'Подписан', uz: 'Imzolangan', en: 'Signed' }
+  },
+  [DocumentStatus.REJECTED]: {
+    name: 'REJECTED',
+    description: 'Rejected by the counterparty',
+    labels: { ru: 'Отклонён', uz: 'Rad etilgan', en: 'Rejected' }
+  },
+  [DocumentStatus.CANCELLED]: {
+    name: 'CANCELLED',
+    description: 'Cancelled by the sender',
+    labels: { ru: 'Отменён', uz: 'Bekor qilingan', en: 'Cancelled' }
+  },
+  [DocumentStatus.ERROR]: {
+    name: 'ERROR',
+    description: 'Processing failed',
+    labels: { ru: 'Ошибка', uz: 'Xatolik', en: 'Error' }
+  },
+  [DocumentStatus.PARTIALLY_SIGNED]: {
+    name: 'PARTIALLY_SIGNED',
+    description: 'Signed by some of the parties',
+    labels: { ru: 'Частично подписан', uz: 'Qisman imzolangan', en: 'Partially signed' }
+  },
+  [DocumentStatus.WAITING_SIGNATURE]: {
+    name: 'WAITING_SIGNATURE',
+    description: 'Waiting for a signature',
+    labels: { ru: 'Ожидает подписи', uz: 'Imzo kutilmoqda', en: 'Waiting for signature' }
+  },
+  [DocumentStatus.PROCESSING]: {
+    name: 'PROCESSING',
+    description: 'Being processed by Didox',
+    labels: { ru: 'В обработке', uz: 'Ishlov berilmoqda', en: 'Processing' }
+  },
+  [DocumentStatus.EXPIRED]: {
+    name: 'EXPIRED',
+    description: 'Signing period has expired',
+    labels: { ru: 'Срок истёк', uz: 'Muddati o‘tgan', en: 'Expired' }
+  }
+};
+
+/**
+ * Document type names and descriptions
+ */
+const TYPE_INFO: Record<string, { name: string; description: string; labels: LocalizedName }> = {
+  [DocumentType.FREE_FORM]: {
+    name: 'FREE_FORM',
+    description: 'Free-form document',
+    labels: { ru: 'Произвольный документ', uz: 'Erkin shakldagi hujjat', en: 'Free-form document' }
+  },
+  [DocumentType.FACTURA]: {
+    name: 'FACTURA',
+    description: 'Electronic invoice',
+    labels: { ru: 'Счёт-фактура', uz: 'Hisob-faktura', en: 'Invoice' }
+  },
+  [DocumentType.ACT]: {
+    name: 'ACT',
+    description: 'Act of completed work',
+    labels: { ru: 'Акт выполненных работ', uz: 'Bajarilgan ishlar dalolatnomasi', en: 'Act of completed work' }
+  },
+  [DocumentType.EMPOWERMENT]: {
+    name: 'EMPOWERMENT',
+    description: 'Power of attorney',
+    labels: { ru: 'Доверенность', uz: 'Ishonchnoma', en: 'Power of attorney' }
+  },
+  [DocumentType.CONTRACT_NK]: {
+    name: 'CONTRACT_NK',
+    description: 'Contract',
+    labels: { ru: 'Договор', uz: 'Shartnoma', en: 'Contract' }
+  },
+  [DocumentType.FACTURA_PHARM]: {
+    name: 'FACTURA_PHARM',
+    description: 'Pharmaceutical invoice',
+    labels: { ru: 'Счёт-фактура (фармацевтика)', uz: 'Hisob-faktura (farmatsevtika)', en: 'Pharmaceutical invoice' }
+  },
+  [DocumentType.MULTI_FREE_FORM]: {
+    name: 'MULTI_FREE_FORM',
+    description: 'Multi-party free-form document',
+    labels: { ru: 'Многосторонний произвольный документ', uz: 'Ko‘p tomonlama erkin hujjat', en: 'Multi-party free-form document' }
+  },
+  [DocumentType.TAX_LETTER]: {
+    name: 'TAX_LETTER',
+    description: 'Letter to the tax authority',
+    labels: { ru: 'Налоговое письмо', uz: 'Soliq xati', en: 'Tax letter' }
+  },
+  [DocumentType.HYBRID_FACTURA]: {
+    name: 'HYBRID_FACTURA',
+    description: 'Hybrid invoice',
+    labels: { ru: 'Гибридная счёт-фактура', uz: 'Gibrid hisob-faktura', en: 'Hybrid invoice' }
+  },
+  [DocumentType.WAYBILL]: {
+    name: 'WAYBILL',
+    description: 'Transport waybill',
+    labels: { ru: 'Товарно-транспортная накладная', uz: 'Tovar-transport yuk xati', en: 'Waybill' }
+  },
+  [DocumentType.VERIFICATION_ACT]: {
+    name: 'VERIFICATION_ACT',
+    description: 'Reconciliation act',
+    labels: { ru: 'Акт сверки', uz: 'Solishtirma dalolatnoma', en: 'Reconciliation act' }
+  },
+  [DocumentType.ACCEPTANCE_TRANSFER]: {
+    name: 'ACCEPTANCE_TRANSFER',
+    description: 'Acceptance transfer act',
+    labels: { ru: 'Акт приёма-передачи', uz: 'Qabul qilish-topshirish dalolatnomasi', en: 'Acceptance transfer act' }
+  },
+  [DocumentType.FOUNDERS_PROTOCOL]: {
+    name: 'FOUNDERS_PROTOCOL',
+    description: 'Founders protocol',
+    labels: { ru: 'Протокол учредителей', uz: 'Ta’sischilar bayonnomasi', en: 'Founders protocol' }
+  }
+};
+
 /**
  * Normalize document status code to readable format
  * 
- * Converts numeric status codes to human-readable status descriptions
+ * Converts numeric status codes to human-readable names in Russian, Uzbek and English.
+ * Codes unknown to the SDK are reported as `UNKNOWN` instead of failing.
  * 
  * @param status - Numeric status code
- * @returns Normalized status object with code and description
+ * @returns Normalized status object with code, name, description and labels
  * 
  * @example
  * ```typescript
- * const normalized = normalizeDocumentStatus(1);
- * // Returns: { code: 1, name: 'DRAFT', description: 'Document in draft state' }
+ * const normalized = normalizeDocumentStatus(2);
+ * // Returns: { code: 2, name: 'SIGNED', description: 'Signed by all parties',
+ * //            labels: { ru: 'Подписан', uz: 'Imzolangan', en: 'Signed' } }
  * ```
  */
-export function normalizeDocumentStatus(status: DocumentStatus): {
-  code: DocumentStatus;
-  name: string;
-  description: string;
-} {
-  // TODO: Implement status normalization mapping
-  // Should map status codes to human-readable names and descriptions
-  throw new Error('Method not implemented yet');
+export function normalizeDocumentStatus(status: DocumentStatus): DocumentStatusInfo {
+  const info = STATUS_INFO[status];
+  if (info) {
+    return { code: status, ...info, labels: { ...info.labels } };
+  }
+
+  return {
+    code: status,
+    name: 'UNKNOWN',
+    description: `Unknown status ${status}`,
+    labels: {
+      ru: `Неизвестный статус (${status})`,
+      uz: `Noma’lum holat (${status})`,
+      en: `Unknown status (${status})`
+    }
+  };
 }
 
 /**
  * Normalize document type code to readable format
  * 
- * Converts numeric type codes to human-readable type descriptions
+ * Converts document type codes to human-readable names in Russian, Uzbek and English.
+ * Numeric codes are zero-padded (`2` → `'002'`); unknown codes are reported as `UNKNOWN`.
  * 
- * @param type - Numeric document type code
- * @returns Normalized type object with code and description
+ * @param type - Document type code
+ * @returns Normalized type object with code, name, description and labels
  * 
  * @example
  * ```typescript
- * const normalized = normalizeDocumentType(1);
- * // Returns: { code: 1, name: 'FACTURA', description: 'Invoice document' }
+ * const normalized = normalizeDocumentType('002');
+ * // Returns: { code: '002', name: 'FACTURA', description: 'Electronic invoice',
+ * //            labels: { ru: 'Счёт-фактура', uz: 'Hisob-faktura', en: 'Invoice' } }
  * ```
  */
-export function normalizeDocumentType(type: DocumentType): {
-  code: DocumentType;
-  name: string;
-  description: string;
-} {
-  // TODO: Implement type normalization mapping
-  // Should map type codes to human-readable names and descriptions
-  throw new Error('Method not implemented yet');
+export function normalizeDocumentType(type: DocumentType): DocumentTypeInfo {
+  const code = String(type).padStart(3, '0') as DocumentType;
+  const info = TYPE_INFO[code];
+  if (info) {
+    return { code, ...info, labels: { ...info.labels } };
+  }
+
+  return {
+    code,
+    name: 'UNKNOWN',
+    description: `Unknown document type ${code}`,
+    labels: {
+      ru: `Документ (${code})`,
+      uz: `Hujjat (${code})`,
+      en: `Document (${code})`
+    }
+  };
 }
 
 /**
  * Normalize date format from API response
  * 
- * Converts API date strings to consistent ISO format or Date objects
+ * Parses API date strings (`YYYY-MM-DD HH:mm:ss`, `YYYY-MM-DD`, ISO 8601, `DD.MM.YYYY`)
+ * into Date objects. Values without a zone are Tashkent time (UTC+05:00).
  * 
  * @param dateString - Date string from API
- * @returns Normalized Date object or ISO string
+ * @returns Parsed Date, or the original string when it is not a recognised date
  * 
  * @example
  * ```typescript
- * const normalized = normalizeDateFormat('2024-01-15T10:30:00');
- * // Returns: Date object or normalized ISO string
+ * const normalized = normalizeDateFormat('2024-01-15 10:30:00');
+ * // Returns: Date 2024-01-15T05:30:00.000Z
  * ```
  */
 export function normalizeDateFormat(dateString: string): Date | string {
-  // TODO: Implement date normalization
-  // Should handle various date formats from API and convert to consistent format
-  throw new Error('Method not implemented yet');
+  return parseDidoxDate(dateString) ?? dateString;
 }
 
 /**
  * Normalize document metadata
  * 
- * Transforms raw document metadata from API into a consistent, typed format
+ * Transforms a raw documents list item into `DocumentMetadata`: decoded status and
+ * type names, parsed dates, partner info and direction. Both the list format
+ * (`doc_id`, `doctype`, `doc_status`, `name`, `partnerTin`) and camelCase variants
+ * are understood; the original item is kept in `raw`. Malformed items never fail
+ * the whole list: missing timestamps become an Invalid Date and an item without
+ * a document ID gets an empty `id`.
  * 
  * @param rawMetadata - Raw metadata object from API
  * @returns Normalized metadata with consistent field names and types
  * 
  * @example
  * ```typescript
- * const normalized = normalizeDocumentMetadata(apiResponse);
- * // Returns: { id, type, status, createdAt, updatedAt, ... }
+ * const normalized = normalizeDocumentMetadata(apiResponse.data[0]);
+ * // Returns: { id, type, typeLabel, status, statusLabel, owner, direction,
+ * //            number, date, createdAt, updatedAt, partner, raw }
  * ```
  */
-export function normalizeDocumentMetadata(rawMetadata: unknown): unknown {
-  // TODO: Implement metadata normalization
-  // Should transform API response fields to consistent naming and typing
-  throw new Error('Method not implemented yet');
+export function normalizeDocumentMetadata(rawMetadata: unknown): DocumentMetadata {
+  const item = (rawMetadata && typeof rawMetadata === 'object' ? rawMetadata : {}) as Record<string, unknown>;
+
+  const id = pickString(item.doc_id, item.id, item.docId) ?? '';
+  const type = normalizeDocumentType((pickString(item.doctype, item.type, item.docType) ?? '000') as DocumentType);
+  const status = normalizeDocumentStatus(extractDocumentStatus(item) ?? DocumentStatus.DRAFT);
+  const owner = Number(item.owner) === OwnerType.OUTGOING ? OwnerType.OUTGOING : OwnerType.INCOMING;
+
+  const createdAt = parseDidoxDate(item.created ?? item.created_at ?? item.createdAt);
+  const updatedAt = parseDidoxDate(item.updated ?? item.updated_at ?? item.updatedAt) ?? createdAt;
+  const date = parseDidoxDate(item.doc_date ?? item.docDate ?? item.date);
+  const number = pickString(item.name, item.doc_number, item.docNumber, item.number);
+
+  const partnerSource = item.partner && typeof item.partner === 'object'
+    ? item.partner as Record<string, unknown>
+    : {};
+  const partnerTin = pickString(item.partnerTin, item.partner_tin, partnerSource.tin,
+    typeof item.partner === 'string' ? item.partner : undefined);
+  const partnerName = pickString(item.partnerName, item.partner_name, partnerSource.name) ?? '';
+
+  return {
+    id,
+    type: type.code,
+    typeLabel: type.labels,
+    status: status.code,
+    statusLabel: status.labels,
+    owner,
+    direction: owner === OwnerType.OUTGOING ? 'outgoing' : 'incoming',
+    ...(number !== undefined && { number }),
+    ...(date !== undefined && { date }),
+    createdAt: createdAt ?? new Date(Number.NaN),
+    updatedAt: updatedAt ?? new Date(Number.NaN),
+    ...(partnerTin !== undefined && { partner: { tin: partnerTin, name: partnerName } }),
+    raw: rawMetadata
+  };
 }
 
 /**
  * Normalize pagination metadata
  * 
- * Converts API pagination info into a consistent format
+ * Converts API pagination info into a consistent format. Understands
+ * `page`/`limit`/`total`/`totalPages` and the snake_case variants
+ * (`current_page`, `per_page`, `last_page`); missing page counts are computed.
  * 
  * @param rawPagination - Raw pagination data from API
  * @returns Normalized pagination with standard field names
  * 
  * @example
  * ```typescript
- * const normalized = normalizePaginationMeta(apiPagination);
- * // Returns: { currentPage, totalPages, totalItems, itemsPerPage }
+ * const normalized = normalizePaginationMeta({ page: 2, limit: 20, total: 45 });
+ * // Returns: { currentPage: 2, totalPages: 3, totalItems: 45, itemsPerPage: 20,
+ * //            hasNext: true, hasPrevious: true }
  * ```
  */
-export function normalizePaginationMeta(rawPagination: unknown): {
-  currentPage: number;
-  totalPages: number;
-  totalItems: number;
-  itemsPerPage: number;
-} {
-  // TODO: Implement pagination normalization
-  // Should standardize pagination field names and ensure proper typing
-  throw new Error('Method not implemented yet');
+export function normalizePaginationMeta(rawPagination: unknown): PaginationMeta {
+  const meta = (rawPagination && typeof rawPagination === 'object' ? rawPagination : {}) as Record<string, unknown>;
+  const number = (...values: unknown[]) => {
+    for (const value of values) {
+      const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof parsed === 'number' && Number.isFinite(parsed)) {
+        return parsed;
+      }
+    }
+    return undefined;
+  };
+
+  const currentPage = number(meta.page, meta.currentPage, meta.current_page) || 1;
+  const itemsPerPage = number(meta.limit, meta.perPage, meta.per_page, meta.itemsPerPage) || 20;
+  const totalItems = number(meta.total, meta.totalItems, meta.total_count) ?? 0;
+  const totalPages = number(meta.totalPages, meta.total_pages, meta.last_page) ||
+    Math.max(1, Math.ceil(totalItems / itemsPerPage));
+
+  return {
+    currentPage,
+    totalPages,
+    totalItems,
+    itemsPerPage,
+    hasNext: currentPage < totalPages,
+    hasPrevious: currentPage > 1
+  };
 }
 
 /**
- * Normalize error response from API
+ * Normalize documents statistics
  * 
- * Transforms API error responses into consistent error format
+ * Adds decoded status/type names and incoming/outgoing totals to the statistics
+ * response. Counts may be given as objects (`{ '1': 5 }`) or as arrays of
+ * `{ status | doctype | owner, count }` entries.
  * 
- * @param errorResponse - Raw error response from API
- * @returns Normalized error with consistent structure
+ * @param response - Raw statistics response from API
+ * @returns Normalized statistics
  * 
  * @example
  * ```typescript
- * const normalized = normalizeApiError(apiError);
- * // Returns: { code, message, details, field? }
+ * const stats = normalizeDocumentStatistics({ total: 3, byStatus: { 2: 3 }, byType: { '002': 3 }, byOwner: { 1: 3 } });
+ * // stats.statuses: [{ code: 2, labels: { ru: 'Подписан', ... }, count: 3 }], stats.outgoing: 3
+ * ```
+ */
+export function normalizeDocumentStatistics(response: DocumentsStatisticsResponse): DocumentStatistics {
+  const body = (response && typeof response === 'object' ? response : {}) as unknown as Record<string, unknown>;
+
+  const byStatus = collectCounts(body.byStatus ?? body.by_status, 'status');
+  const byType = collectCounts(body.byType ?? body.by_type, 'doctype');
+  const byOwner = collectCounts(body.byOwner ?? body.by_owner, 'owner');
+
+  const total = Number(body.total);
+  const statuses = Object.entries(byStatus)
+    .map(([code, count]) => ({ code: Number(code) as DocumentStatus, count }))
+    .sort((a, b) => a.code - b.code)
+    .map(({ code, count }) => ({ code, labels: normalizeDocumentStatus(code).labels, count }));
+  const types = Object.entries(byType)
+    .map(([code, count]) => ({ ...normalizeDocumentType(code as DocumentType), count }))
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map(({ code, labels, count }) => ({ code, labels, count }));
+
+  return {
+    total: Number.isFinite(total) ? total : Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+    byStatus,
+    byType,
+    byOwner,
+    statuses,
+    types,
+    incoming: byOwner[OwnerType.INCOMING] ?? 0,
+    outgoing: byOwner[OwnerType.OUTGOING] ?? 0
+  };
+}
+
+/**
+ * Read counts given as `{ key: count }` or `[{ <key>, count }]`
+ */
+function collectCounts(source: unknown, key: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  if (Array.isArray(source)) {
+    for (const entry of source) {
+      if (entry && typeof entry === 'object') {
+        const item = entry as Record<string, unknown>;
+        const name = item[key] ?? item.code ?? item.id;
+        const count = Number(item.count ?? item.total ?? item.value);
+        if (name !== undefined && Number.isFinite(count)) {
+          counts[String(name)] = count;
+        }
+      }
+    }
+  } else if (source && typeof source === 'object') {
+    for (const [name, value] of Object.entries(source)) {
+      const count = Number(value);
+      if (Number.isFinite(count)) {
+        counts[name] = count;
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Extract document status from a raw API response
+ *
+ * Looks for `doc_status` / `status` on the response itself and on its
+ * `document` / `data` wrappers. Numeric strings are accepted.
+ *
+ * @param raw - Raw document or action response
+ * @returns Status code, or undefined when the response does not carry one
+ *
+ * @example
+ * ```typescript
+ * extractDocumentStatus({ document: { doc_id: '...', doc_status: 1 } });
+ * // Returns: 1 (DocumentStatus.SENT)
  * ```
  */
-export function normalizeApiError(errorResponse: unknown): {
-  code: string;
-  message: string;
-  details?: string;
-  field?: string;
-} {
-  // TODO: Implement error normalization
-  // Should extract error details and provide consistent error structure
-  throw new Error('Method not implemented yet');
+export function extractDocumentStatus(raw: unknown): DocumentStatus | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const body = raw as Record<string, unknown>;
+
+  for (const value of [body.doc_status, body.status, body.docStatus]) {
+    const status = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+    if (typeof status === 'number' && Number.isInteger(status)) {
+      return status as DocumentStatus;
+    }
+  }
+
+  return extractDocumentStatus(body.document) ?? extractDocumentStatus(body.data);
+}
+
+/**
+ * Normalize document privileges response
+ *
+ * Accepts an object with boolean or 0/1 flags (`canSign` or `can_sign`),
+ * optionally wrapped in `privileges` / `data`, or an array of privilege names
+ * (`['sign', 'cancel']` or `['canSign']`). Missing privileges are `false`.
+ *
+ * @param raw - Raw privileges response from API
+ * @returns Privileges with all flags present
+ *
+ * @example
+ * ```typescript
+ * normalizeDocumentPrivileges({ can_sign: 1, can_delete: 0 });
+ * // Returns: { canView: false, canEdit: false, canSign: true, canCancel: false, canDelete: false, canDownload: false }
+ * ```
+ */
+export function normalizeDocumentPrivileges(raw: unknown): DocumentPrivileges {
+  const keys: Array<keyof DocumentPrivileges> = [
+    'canView', 'canEdit', 'canSign', 'canCancel', 'canDelete', 'canDownload'
+  ];
+  const result = Object.fromEntries(keys.map(key => [key, false])) as unknown as DocumentPrivileges;
+
+  let source = raw;
+  if (source && typeof source === 'object' && !Array.isArray(source)) {
+    const wrapper = source as Record<string, unknown>;
+    source = wrapper.privileges ?? (wrapper.data && typeof wrapper.data === 'object' ? wrapper.data : source);
+  }
+
+  if (Array.isArray(source)) {
+    const names = source.map(item => String(item).toLowerCase().replace(/^can_?/, ''));
+    for (const key of keys) {
+      result[key] = names.includes(key.slice(3).toLowerCase());
+    }
+    return result;
+  }
+
+  if (source && typeof source === 'object') {
+    const flags = source as Record<string, unknown>;
+    for (const key of keys) {
+      const snake = `can_${key.slice(3).toLowerCase()}`;
+      const value = flags[key] ?? flags[snake];
+      result[key] = value === true || value === 1 || value === '1' || value === 'true';
+    }
+  }
+
+  return result;
 }
 
 /**
@@ -165,20 +507,8 @@ export function normalizeApiError(errorResponse: unknown): {
  * ```
  */
 export function normalizeDocumentsList(response: DocumentsListResponse): NormalizedDocumentsListResponse {
-  const meta = response.meta;
-  
-  // Create standardized pagination metadata
-  const normalizedMeta: PaginationMeta = {
-    currentPage: meta?.page || 1,
-    totalPages: meta?.totalPages || 1,
-    totalItems: meta?.total || 0,
-    itemsPerPage: meta?.limit || 20,
-    hasNext: (meta?.page || 1) < (meta?.totalPages || 1),
-    hasPrevious: (meta?.page || 1) > 1
-  };
-
   return {
-    data: response.data,
-    meta: normalizedMeta
+    data: (response.data ?? []).map(normalizeDocumentMetadata),
+    meta: normalizePaginationMeta(response.meta)
   };
-}
\ No newline at end of file
+}
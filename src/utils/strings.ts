@@ -0,0 +1,25 @@
+/**
+ * Return the first non-empty string, trimmed (finite numbers are converted)
+ *
+ * Used to read fields that Didox sends under several names or as numbers.
+ *
+ * @param values - Candidate values in order of preference
+ * @returns First usable value, or undefined when none is a string or number
+ *
+ * @example
+ * ```typescript
+ * pickString(body.doc_id, body.docId, body.id); // first one present
+ * pickString('  ', 42);                         // '42'
+ * ```
+ */
+export function pickString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return undefined;
+}
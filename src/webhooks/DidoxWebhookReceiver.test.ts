@@ -0,0 +1,108 @@
+import { DidoxWebhookError } from '../http/errors.js';
+import { DocumentStatus } from '../modules/documents/documents.enums.js';
+import { DidoxWebhookReceiver, MemoryWebhookDedupeStore } from './DidoxWebhookReceiver.js';
+import { signWebhookPayload } from './parser.js';
+
+const secret = 's3cret';
+
+/**
+ * Signed headers and body of a signed-document webhook
+ */
+function delivery(eventId: string) {
+  const body = JSON.stringify({ event_id: eventId, doc_id: 'DOC-1', doctype: '002', doc_status: DocumentStatus.SIGNED });
+  return { headers: { 'x-didox-signature': signWebhookPayload(body, secret) }, body };
+}
+
+describe('DidoxWebhookReceiver', () => {
+  it('dispatches typed events, then wildcard handlers', async () => {
+    const receiver = new DidoxWebhookReceiver({ secret });
+    const calls: string[] = [];
+    receiver.on('*', event => { calls.push(`* ${event.type}`); });
+    receiver.on('document.signed', event => { calls.push(`signed ${event.document.id}`); });
+    receiver.on('document.rejected', () => { calls.push('rejected'); });
+
+    const { headers, body } = delivery('evt-1');
+    await expect(receiver.handle(headers, body)).resolves.toMatchObject({ status: 'processed' });
+    expect(calls).toEqual(['signed DOC-1', '* document.signed']);
+  });
+
+  it('skips repeated deliveries of the same event', async () => {
+    const receiver = new DidoxWebhookReceiver({ secret });
+    const handler = jest.fn();
+    receiver.on('document.signed', handler);
+
+    const { headers, body } = delivery('evt-1');
+    await receiver.handle(headers, body);
+    const repeated = await receiver.handleRequest(headers, body);
+
+    expect(repeated).toEqual({ status: 200, body: { ok: true, status: 'duplicate', eventId: 'evt-1' } });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes a redelivery after a handler failure', async () => {
+    const receiver = new DidoxWebhookReceiver({ secret });
+    const handler = jest.fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(undefined);
+    receiver.on('document.signed', handler);
+
+    const { headers, body } = delivery('evt-1');
+    expect((await receiver.handleRequest(headers, body)).status).toBe(500);
+    expect((await receiver.handleRequest(headers, body)).body).toMatchObject({ status: 'processed' });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips concurrent deliveries of the same event', async () => {
+    const receiver = new DidoxWebhookReceiver({ secret });
+    receiver.on('document.signed', () => new Promise(resolve => setTimeout(resolve, 10)));
+
+    const { headers, body } = delivery('evt-1');
+    const results = await Promise.all([receiver.handle(headers, body), receiver.handle(headers, body)]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['duplicate', 'processed']);
+  });
+
+  it('processes every delivery when dedupe is disabled', async () => {
+    const receiver = new DidoxWebhookReceiver({ secret, dedupe: false });
+    const handler = jest.fn();
+    receiver.on('document.signed', handler);
+
+    const { headers, body } = delivery('evt-1');
+    await receiver.handle(headers, body);
+    await receiver.handle(headers, body);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not remember unauthenticated deliveries', async () => {
+    const dedupe = new MemoryWebhookDedupeStore();
+    const receiver = new DidoxWebhookReceiver({ secret, dedupe });
+
+    const { body } = delivery('evt-1');
+    await expect(receiver.handle({ 'x-didox-signature': 'sha256=00' }, body)).rejects.toThrow(DidoxWebhookError);
+    expect(dedupe.has('evt-1')).toBe(false);
+  });
+
+  it('stops calling a handler after it is removed', async () => {
+    const receiver = new DidoxWebhookReceiver({ secret });
+    const handler = jest.fn();
+    const off = receiver.on('document.signed', handler);
+
+    await receiver.handle(delivery('evt-1').headers, delivery('evt-1').body);
+    off();
+    await receiver.handle(delivery('evt-2').headers, delivery('evt-2').body);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MemoryWebhookDedupeStore', () => {
+  it('forgets the oldest IDs beyond its capacity', () => {
+    const store = new MemoryWebhookDedupeStore(2);
+    store.add('a');
+    store.add('b');
+    store.add('c');
+
+    expect(['a', 'b', 'c'].map(id => store.has(id))).toEqual([false, true, true]);
+  });
+});
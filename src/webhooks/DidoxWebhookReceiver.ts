@@ -0,0 +1,294 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { DidoxValidationError, DidoxWebhookError } from '../http/errors.js';
+import { createWebhookParser } from './parser.js';
+import type {
+  DidoxWebhookEvent,
+  DidoxWebhookEventMap,
+  DidoxWebhookHandler,
+  WebhookDedupeStore,
+  WebhookHandleResult,
+  WebhookHeaders,
+  WebhookHttpResponse,
+  WebhookReceiverOptions
+} from './webhooks.types.js';
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * In-memory dedupe store keeping the most recent event IDs
+ */
+export class MemoryWebhookDedupeStore implements WebhookDedupeStore {
+  private readonly ids = new Set<string>();
+
+  /**
+   * @param capacity - Number of event IDs to remember (oldest are dropped first)
+   */
+  constructor(private readonly capacity = 10_000) {}
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  add(id: string): void {
+    this.ids.delete(id);
+    this.ids.add(id);
+    if (this.ids.size > this.capacity) {
+      const oldest = this.ids.values().next().value;
+      if (oldest !== undefined) {
+        this.ids.delete(oldest);
+      }
+    }
+  }
+
+  delete(id: string): void {
+    this.ids.delete(id);
+  }
+}
+
+/**
+ * Receiver for Didox webhook callbacks
+ *
+ * Authenticates requests, skips repeated deliveries of the same event and
+ * dispatches typed events to handlers. When a handler fails the receiver
+ * answers 500 and forgets the event, so a redelivery is processed again.
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ *
+ * const receiver = new DidoxWebhookReceiver({ secret: process.env.DIDOX_WEBHOOK_SECRET });
+ *
+ * receiver.on('document.received', async (event) => {
+ *   await inbox.add(event.document.id, event.document.type);
+ * });
+ * receiver.on('document.signed', async (event) => {
+ *   await orders.markSigned(event.document.id);
+ * });
+ *
+ * createServer(receiver.listener()).listen(3000);
+ * ```
+ */
+export class DidoxWebhookReceiver {
+  private readonly parse: ReturnType<typeof createWebhookParser>;
+  private readonly dedupe: WebhookDedupeStore | undefined;
+  private readonly maxBodySize: number;
+  // IDs being handled right now, checked before the (possibly async) dedupe store
+  private readonly inFlight = new Set<string>();
+  // Registered handler → wrapper narrowing the event to the registered type
+  private readonly handlers = new Map<keyof DidoxWebhookEventMap, Map<DidoxWebhookHandler<never>, DidoxWebhookHandler>>();
+
+  /**
+   * @param options - Authentication, dedupe and body size settings
+   * @throws {DidoxValidationError} When neither `secret` nor `partnerToken` is configured
+   */
+  constructor(options: WebhookReceiverOptions) {
+    const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    if (!Number.isInteger(maxBodySize) || maxBodySize <= 0) {
+      throw new DidoxValidationError('maxBodySize must be a positive integer', 'maxBodySize');
+    }
+
+    this.parse = createWebhookParser(options);
+    this.dedupe = options.dedupe === false ? undefined : options.dedupe ?? new MemoryWebhookDedupeStore();
+    this.maxBodySize = maxBodySize;
+  }
+
+  /**
+   * Register a handler for an event type (`'*'` receives every event)
+   *
+   * @returns Function removing the handler
+   */
+  on<K extends keyof DidoxWebhookEventMap>(type: K, handler: DidoxWebhookHandler<DidoxWebhookEventMap[K]>): () => void {
+    let registered = this.handlers.get(type);
+    if (!registered) {
+      registered = new Map();
+      this.handlers.set(type, registered);
+    }
+    if (!registered.has(handler)) {
+      registered.set(handler, event => isEventOf(type, event) ? handler(event) : undefined);
+    }
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Remove a handler registered with `on`
+   */
+  off<K extends keyof DidoxWebhookEventMap>(type: K, handler: DidoxWebhookHandler<DidoxWebhookEventMap[K]>): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  /**
+   * Authenticate, parse and dispatch one webhook
+   *
+   * Handlers for the event type run first, then `'*'` handlers, one at a time.
+   *
+   * @param headers - Request headers
+   * @param body - Raw request body (the signature covers the exact bytes)
+   * @returns Whether the event was processed or skipped as a duplicate
+   * @throws {DidoxWebhookError} When authentication fails (401) or the payload is malformed (400)
+   * @throws The first handler error; the event is then removed from the dedupe store
+   */
+  async handle(headers: WebhookHeaders, body: string | Uint8Array): Promise<WebhookHandleResult> {
+    const size = typeof body === 'string' ? Buffer.byteLength(body) : body.byteLength;
+    if (size > this.maxBodySize) {
+      throw new DidoxWebhookError('Webhook body is too large', 413);
+    }
+
+    const event = this.parse(headers, body);
+
+    if (!this.dedupe) {
+      await this.dispatch(event);
+      return { status: 'processed', event };
+    }
+
+    // Reserve the ID synchronously so a concurrent redelivery is skipped
+    if (this.inFlight.has(event.id)) {
+      return { status: 'duplicate', event };
+    }
+    this.inFlight.add(event.id);
+
+    try {
+      if (await this.dedupe.has(event.id)) {
+        return { status: 'duplicate', event };
+      }
+      await this.dedupe.add(event.id);
+
+      try {
+        await this.dispatch(event);
+      } catch (error) {
+        await this.dedupe.delete(event.id);
+        throw error;
+      }
+    } finally {
+      this.inFlight.delete(event.id);
+    }
+
+    return { status: 'processed', event };
+  }
+
+  /**
+   * Handle a webhook and map the outcome to an HTTP answer
+   *
+   * 200 for processed and duplicate events, the error status for
+   * `DidoxWebhookError`, 500 when a handler fails.
+   */
+  async handleRequest(headers: WebhookHeaders, body: string | Uint8Array): Promise<WebhookHttpResponse> {
+    try {
+      const result = await this.handle(headers, body);
+      return { status: 200, body: { ok: true, status: result.status, eventId: result.event.id } };
+    } catch (error) {
+      if (error instanceof DidoxWebhookError) {
+        return { status: error.statusCode, body: { ok: false, error: error.message } };
+      }
+      return { status: 500, body: { ok: false, error: 'Webhook handler failed' } };
+    }
+  }
+
+  /**
+   * Node `http` request listener
+   *
+   * Accepts POST requests only. Reads the body itself unless a framework
+   * already buffered it as `req.body` (Buffer or string).
+   * Any unexpected failure is answered with 500 rather than left unhandled.
+   *
+   * @example
+   * ```typescript
+   * createServer(receiver.listener()).listen(3000);
+   *
+   * // Express: keep the raw body so the signature can be checked
+   * app.post('/didox', express.raw({ type: '*\/*' }), receiver.listener());
+   * ```
+   */
+  listener(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      void this.respond(req)
+        .catch((): WebhookHttpResponse => ({ status: 500, body: { ok: false, error: 'Webhook handler failed' } }))
+        .then(({ status, body }) => {
+          res.statusCode = status;
+          res.setHeader('content-type', 'application/json');
+          if (status === 405) {
+            res.setHeader('allow', 'POST');
+          }
+          res.end(JSON.stringify(body));
+        });
+    };
+  }
+
+  private async respond(req: IncomingMessage): Promise<WebhookHttpResponse> {
+    if (req.method !== 'POST') {
+      return { status: 405, body: { ok: false, error: 'Method not allowed' } };
+    }
+
+    let body: Buffer | string;
+    try {
+      body = await this.readBody(req);
+    } catch (error) {
+      if (error instanceof DidoxWebhookError) {
+        return { status: error.statusCode, body: { ok: false, error: error.message } };
+      }
+      return { status: 400, body: { ok: false, error: 'Cannot read webhook body' } };
+    }
+
+    return this.handleRequest(req.headers, body);
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Buffer | string> {
+    const parsed = (req as IncomingMessage & { body?: unknown }).body;
+    if (Buffer.isBuffer(parsed) || typeof parsed === 'string') {
+      return parsed;
+    }
+
+    const declared = Number(req.headers['content-length']);
+    if (Number.isFinite(declared) && declared > this.maxBodySize) {
+      req.resume();
+      throw new DidoxWebhookError('Webhook body is too large', 413);
+    }
+
+    // Collect chunks without destroying the request, so a 413 can still be answered
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let tooLarge = false;
+
+      req.on('data', (chunk: Buffer | string) => {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        size += buffer.length;
+        if (size > this.maxBodySize) {
+          tooLarge = true;
+          chunks.length = 0;
+          return;
+        }
+        if (!tooLarge) {
+          chunks.push(buffer);
+        }
+      });
+      req.on('end', () => {
+        if (tooLarge) {
+          reject(new DidoxWebhookError('Webhook body is too large', 413));
+        } else {
+          resolve(Buffer.concat(chunks));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private async dispatch(event: DidoxWebhookEvent): Promise<void> {
+    const handlers = [
+      ...(this.handlers.get(event.type)?.values() ?? []),
+      ...(this.handlers.get('*')?.values() ?? [])
+    ];
+    for (const handler of handlers) {
+      await handler(event);
+    }
+  }
+}
+
+/**
+ * Whether an event belongs to the type a handler was registered for
+ */
+function isEventOf<K extends keyof DidoxWebhookEventMap>(
+  type: K,
+  event: DidoxWebhookEvent
+): event is DidoxWebhookEventMap[K] {
+  return type === '*' || event.type === type;
+}
@@ -0,0 +1,83 @@
+import { DidoxValidationError, DidoxWebhookError } from '../http/errors.js';
+import { DocumentStatus, OwnerType } from '../modules/documents/documents.enums.js';
+import { createWebhookParser, signWebhookPayload } from './parser.js';
+
+const body = JSON.stringify({
+  event_id: 'evt-1',
+  document: { doc_id: 'DOC-1', doctype: '002', doc_status: DocumentStatus.SIGNED, owner: OwnerType.OUTGOING }
+});
+
+/**
+ * Status code of the webhook error thrown by `action`
+ */
+function rejection(action: () => unknown): number | undefined {
+  try {
+    action();
+  } catch (error) {
+    if (error instanceof DidoxWebhookError) {
+      return error.statusCode;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe('createWebhookParser', () => {
+  describe('authentication', () => {
+    const parse = createWebhookParser({ secret: 's3cret' });
+
+    it('accepts a body signed with the shared secret', () => {
+      const event = parse({ 'X-Didox-Signature': signWebhookPayload(body, 's3cret') }, body);
+
+      expect(event).toMatchObject({ id: 'evt-1', type: 'document.signed', document: { id: 'DOC-1', status: DocumentStatus.SIGNED } });
+    });
+
+    it('accepts the signature in any case and as Fetch headers', () => {
+      const signature = signWebhookPayload(body, 's3cret').toUpperCase().replace('SHA256=', 'sha256=');
+
+      expect(parse(new Headers({ 'x-didox-signature': signature }), Buffer.from(body)).id).toBe('evt-1');
+    });
+
+    it('rejects a missing or wrong signature with 401', () => {
+      expect(rejection(() => parse({}, body))).toBe(401);
+      expect(rejection(() => parse({ 'x-didox-signature': signWebhookPayload(body, 'other') }, body))).toBe(401);
+    });
+
+    it('rejects a body changed after signing', () => {
+      const signature = signWebhookPayload(body, 's3cret');
+
+      expect(rejection(() => parse({ 'x-didox-signature': signature }, `${body} `))).toBe(401);
+    });
+
+    it('accepts the partner token when configured', () => {
+      const withToken = createWebhookParser({ secret: 's3cret', partnerToken: 'partner-token' });
+
+      expect(withToken({ 'partner-authorization': 'partner-token' }, body).id).toBe('evt-1');
+      expect(rejection(() => withToken({ 'partner-authorization': 'partner' }, body))).toBe(401);
+    });
+
+    it('requires a secret or a partner token', () => {
+      expect(() => createWebhookParser({})).toThrow(DidoxValidationError);
+    });
+  });
+
+  describe('payload', () => {
+    const parse = createWebhookParser({ partnerToken: 'partner-token' });
+    const headers = { 'partner-authorization': 'partner-token' };
+
+    it('rejects malformed bodies with 400', () => {
+      expect(rejection(() => parse(headers, 'not json'))).toBe(400);
+      expect(rejection(() => parse(headers, '[]'))).toBe(400);
+      expect(rejection(() => parse(headers, '{"doc_status": 3}'))).toBe(400);
+    });
+
+    it('derives a stable event ID from the body when none is sent', () => {
+      const payload = JSON.stringify({ doc_id: 'DOC-2', doctype: '002', doc_status: DocumentStatus.SENT, owner: OwnerType.INCOMING });
+      const first = parse(headers, payload);
+
+      expect(first.type).toBe('document.received');
+      expect(parse(headers, payload).id).toBe(first.id);
+      expect(parse({ ...headers, 'x-didox-event-id': 'evt-9' }, payload).id).toBe('evt-9');
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { DidoxValidationError, DidoxWebhookError } from '../http/errors.js';
+import { DocumentStatus, OwnerType } from '../modules/documents/documents.enums.js';
+import type { DocumentType } from '../modules/documents/documents.enums.js';
+import { extractDocumentStatus, normalizeDocumentType } from '../utils/normalizer.js';
+import { parseDidoxDate } from '../utils/dates.js';
+import { pickString } from '../utils/strings.js';
+import type {
+  DidoxWebhookEvent,
+  DidoxWebhookEventType,
+  WebhookAuthOptions,
+  WebhookDocument,
+  WebhookHeaders
+} from './webhooks.types.js';
+
+/**
+ * Header carrying the HMAC signature of the raw body
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-didox-signature';
+
+/**
+ * Header carrying the event ID (used when the payload has none)
+ */
+export const WEBHOOK_EVENT_ID_HEADER = 'x-didox-event-id';
+
+/**
+ * Status implied by an explicit event name when the payload has no status
+ */
+export const EVENT_STATUS: Partial<Record<DidoxWebhookEventType, DocumentStatus>> = {
+  'document.received': DocumentStatus.SENT,
+  'document.signed': DocumentStatus.SIGNED,
+  'document.rejected': DocumentStatus.REJECTED,
+  'document.cancelled': DocumentStatus.CANCELLED
+};
+
+/**
+ * Sign a webhook body with a shared secret
+ *
+ * @param body - Raw request body
+ * @param secret - Shared secret
+ * @returns Value for the `X-Didox-Signature` header (`sha256=<hex>`)
+ */
+export function signWebhookPayload(body: string | Uint8Array, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Create a framework-agnostic webhook parser
+ *
+ * The returned function authenticates the request, parses the JSON body and
+ * returns a typed event. The event type follows the document status:
+ * SIGNED → `document.signed`, REJECTED → `document.rejected`, CANCELLED →
+ * `document.cancelled`, SENT/WAITING_SIGNATURE of an incoming document →
+ * `document.received`, anything else → `document.status_changed`.
+ *
+ * @param options - Shared secret and/or partner token
+ * @returns `(headers, body) => event`
+ * @throws {DidoxValidationError} When neither `secret` nor `partnerToken` is configured
+ *
+ * @example
+ * ```typescript
+ * const parse = createWebhookParser({ secret: process.env.DIDOX_WEBHOOK_SECRET });
+ *
+ * app.post('/didox', express.raw({ type: '*\/*' }), (req, res) => {
+ *   const event = parse(req.headers, req.body);
+ *   if (event.type === 'document.signed') {
+ *     markPaid(event.document.id);
+ *   }
+ *   res.sendStatus(200);
+ * });
+ * ```
+ */
+export function createWebhookParser(
+  options: WebhookAuthOptions
+): (headers: WebhookHeaders, body: string | Uint8Array) => DidoxWebhookEvent {
+  if (!options.secret && !options.partnerToken) {
+    throw new DidoxValidationError('Webhook authentication requires a secret or a partnerToken', 'secret');
+  }
+
+  return (headers, body) => {
+    const normalized = normalizeHeaders(headers);
+    const raw = typeof body === 'string' ? Buffer.from(body, 'utf8') : Buffer.from(body);
+
+    authenticate(normalized, raw, options);
+    return parsePayload(normalized, raw);
+  };
+}
+
+/**
+ * Check the signature or partner token of a request
+ *
+ * @throws {DidoxWebhookError} With status 401 when no configured check passes
+ */
+function authenticate(headers: Record<string, string>, body: Buffer, options: WebhookAuthOptions): void {
+  if (options.secret) {
+    const signature = headers[WEBHOOK_SIGNATURE_HEADER];
+    if (signature && safeEqual(signature.trim().toLowerCase(), signWebhookPayload(body, options.secret))) {
+      return;
+    }
+  }
+
+  if (options.partnerToken) {
+    const token = headers['partner-authorization'];
+    if (token && safeEqual(token.trim(), options.partnerToken)) {
+      return;
+    }
+  }
+
+  throw new DidoxWebhookError('Webhook authentication failed', 401);
+}
+
+/**
+ * Decode the JSON payload into a typed event
+ *
+ * Accepts the document fields at the top level or under `document`, in list
+ * format (`doc_id`, `doctype`, `doc_status`, `owner`) or camelCase.
+ */
+function parsePayload(headers: Record<string, string>, body: Buffer): DidoxWebhookEvent {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new DidoxWebhookError('Webhook body is not valid JSON', 400);
+  }
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new DidoxWebhookError('Webhook body must be a JSON object', 400);
+  }
+
+  const root = payload as Record<string, unknown>;
+  const source = (root.document && typeof root.document === 'object' ? root.document : root) as Record<string, unknown>;
+
+  const documentId = pickString(source.doc_id, source.docId, source.id, root.doc_id, root.docId);
+  if (!documentId) {
+    throw new DidoxWebhookError('Webhook payload has no document ID', 400);
+  }
+
+  const declared = parseEventName(pickString(root.event, root.type, root.event_type, root.eventType));
+  const status = extractDocumentStatus(source) ?? extractDocumentStatus(root) ??
+    (declared ? EVENT_STATUS[declared] : undefined);
+  if (status === undefined) {
+    throw new DidoxWebhookError('Webhook payload has no document status', 400);
+  }
+
+  const ownerValue = source.owner ?? root.owner;
+  const owner = ownerValue === undefined || ownerValue === null
+    ? undefined
+    : Number(ownerValue) === OwnerType.OUTGOING ? OwnerType.OUTGOING : OwnerType.INCOMING;
+
+  // At the top level `type` is the event name, not the document type
+  const doctype = pickString(source.doctype, source.docType, source !== root ? source.type : undefined) ?? '000';
+  const number = pickString(source.name, source.doc_number, source.docNumber, source.number);
+  const partnerTin = pickString(source.partnerTin, source.partner_tin);
+  const partnerName = pickString(source.partnerName, source.partner_name) ?? '';
+  const companyTin = pickString(root.tin, root.companyTin, root.company_tin);
+
+  const document: WebhookDocument = {
+    id: documentId,
+    type: normalizeDocumentType(doctype as DocumentType).code,
+    status,
+    ...(owner !== undefined && { owner }),
+    ...(number !== undefined && { number }),
+    ...(partnerTin !== undefined && { partner: { tin: partnerTin, name: partnerName } })
+  };
+
+  return {
+    id: pickString(root.event_id, root.eventId, root.id !== documentId ? root.id : undefined, headers[WEBHOOK_EVENT_ID_HEADER]) ??
+      createHash('sha256').update(body).digest('hex'),
+    type: eventType(status, owner, declared),
+    occurredAt: parseDidoxDate(root.created ?? root.timestamp ?? root.occurredAt ?? root.occurred_at) ?? new Date(),
+    ...(companyTin !== undefined && { companyTin }),
+    document,
+    raw: payload
+  } as DidoxWebhookEvent;
+}
+
+/**
+ * Event type for a status; the declared name only decides between received and status_changed
+ */
+function eventType(
+  status: DocumentStatus,
+  owner: OwnerType | undefined,
+  declared: DidoxWebhookEventType | undefined
+): DidoxWebhookEventType {
+  switch (status) {
+    case DocumentStatus.SIGNED:
+      return 'document.signed';
+    case DocumentStatus.REJECTED:
+      return 'document.rejected';
+    case DocumentStatus.CANCELLED:
+      return 'document.cancelled';
+    case DocumentStatus.SENT:
+    case DocumentStatus.WAITING_SIGNATURE:
+      if (declared === 'document.received' || (declared === undefined && owner !== OwnerType.OUTGOING)) {
+        return 'document.received';
+      }
+      return 'document.status_changed';
+    default:
+      return 'document.status_changed';
+  }
+}
+
+/**
+ * Map event names such as `document.signed`, `signed` or `DOCUMENT_SIGNED`
+ */
+function parseEventName(name: string | undefined): DidoxWebhookEventType | undefined {
+  const key = name?.toLowerCase().replace(/^document[._-]?/, '');
+  switch (key) {
+    case 'received':
+    case 'incoming':
+      return 'document.received';
+    case 'signed':
+    case 'accepted':
+      return 'document.signed';
+    case 'rejected':
+      return 'document.rejected';
+    case 'cancelled':
+    case 'canceled':
+      return 'document.cancelled';
+    case undefined:
+      return undefined;
+    default:
+      return 'document.status_changed';
+  }
+}
+
+/**
+ * Lower-case header names; repeated headers keep the first value
+ */
+function normalizeHeaders(headers: WebhookHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, key) => {
+      result[key] = value;
+    });
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(headers)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) {
+      result[key.toLowerCase()] = first;
+    }
+  }
+  return result;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,172 @@
+import type { DocumentStatus, DocumentType, OwnerType } from '../modules/documents/documents.enums.js';
+
+/**
+ * Webhook event names
+ * - `document.received`: a document was sent to the company (status SENT / WAITING_SIGNATURE)
+ * - `document.signed`: a document was signed by all parties
+ * - `document.rejected`: a document was rejected
+ * - `document.cancelled`: a document was cancelled by its sender
+ * - `document.status_changed`: any other status change
+ */
+export type DidoxWebhookEventType =
+  | 'document.received'
+  | 'document.signed'
+  | 'document.rejected'
+  | 'document.cancelled'
+  | 'document.status_changed';
+
+/**
+ * Document referenced by a webhook event
+ */
+export interface WebhookDocument<S extends DocumentStatus = DocumentStatus> {
+  id: string;
+  type: DocumentType;
+  status: S;
+
+  /**
+   * Direction from the receiving company's point of view, when reported
+   */
+  owner?: OwnerType;
+
+  /**
+   * Document number
+   */
+  number?: string;
+
+  /**
+   * Counterparty, when reported
+   */
+  partner?: {
+    tin: string;
+    name: string;
+  };
+}
+
+/**
+ * Common webhook event fields
+ */
+export interface DidoxWebhookEventBase<T extends DidoxWebhookEventType, S extends DocumentStatus = DocumentStatus> {
+  /**
+   * Event ID used for deduplication
+   * Taken from the payload or `X-Didox-Event-Id`, otherwise a hash of the body
+   */
+  id: string;
+
+  type: T;
+
+  /**
+   * Event time (receipt time when the payload has none)
+   */
+  occurredAt: Date;
+
+  /**
+   * TIN of the company the event is addressed to, when reported
+   */
+  companyTin?: string;
+
+  document: WebhookDocument<S>;
+
+  /**
+   * Parsed payload as received
+   */
+  raw: unknown;
+}
+
+export type DocumentReceivedEvent = DidoxWebhookEventBase<'document.received'>;
+export type DocumentSignedEvent = DidoxWebhookEventBase<'document.signed', DocumentStatus.SIGNED>;
+export type DocumentRejectedEvent = DidoxWebhookEventBase<'document.rejected', DocumentStatus.REJECTED>;
+export type DocumentCancelledEvent = DidoxWebhookEventBase<'document.cancelled', DocumentStatus.CANCELLED>;
+export type DocumentStatusChangedEvent = DidoxWebhookEventBase<'document.status_changed'>;
+
+/**
+ * Webhook event (discriminated by `type`)
+ */
+export type DidoxWebhookEvent =
+  | DocumentReceivedEvent
+  | DocumentSignedEvent
+  | DocumentRejectedEvent
+  | DocumentCancelledEvent
+  | DocumentStatusChangedEvent;
+
+/**
+ * Event type to event mapping used by `DidoxWebhookReceiver.on`
+ */
+export interface DidoxWebhookEventMap {
+  'document.received': DocumentReceivedEvent;
+  'document.signed': DocumentSignedEvent;
+  'document.rejected': DocumentRejectedEvent;
+  'document.cancelled': DocumentCancelledEvent;
+  'document.status_changed': DocumentStatusChangedEvent;
+  '*': DidoxWebhookEvent;
+}
+
+/**
+ * Event handler; the receiver answers the webhook after all handlers resolve
+ */
+export type DidoxWebhookHandler<E extends DidoxWebhookEvent = DidoxWebhookEvent> = (event: E) => void | Promise<void>;
+
+/**
+ * Request headers (Node `IncomingHttpHeaders`, a Fetch `Headers` object or a plain record)
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Webhook authentication settings
+ * A request is accepted when it passes one of the configured checks.
+ */
+export interface WebhookAuthOptions {
+  /**
+   * Shared secret: the `X-Didox-Signature` header must carry `sha256=<hex HMAC-SHA256 of the raw body>`
+   */
+  secret?: string;
+
+  /**
+   * Partner token: the `Partner-Authorization` header must match
+   */
+  partnerToken?: string;
+}
+
+/**
+ * Store of processed event IDs
+ */
+export interface WebhookDedupeStore {
+  has(id: string): boolean | Promise<boolean>;
+  add(id: string): void | Promise<void>;
+  delete(id: string): void | Promise<void>;
+}
+
+/**
+ * Options of the webhook receiver
+ */
+export interface WebhookReceiverOptions extends WebhookAuthOptions {
+  /**
+   * Store used to skip repeated deliveries, or `false` to disable deduplication
+   * @default in-memory store of the last 10,000 event IDs
+   */
+  dedupe?: WebhookDedupeStore | false;
+
+  /**
+   * Largest accepted body in bytes
+   * @default 1048576 (1 MB)
+   */
+  maxBodySize?: number;
+}
+
+/**
+ * Outcome of handling one webhook
+ */
+export interface WebhookHandleResult {
+  /**
+   * `duplicate` when the event ID was already processed; handlers are not called
+   */
+  status: 'processed' | 'duplicate';
+  event: DidoxWebhookEvent;
+}
+
+/**
+ * HTTP answer for a webhook request
+ */
+export interface WebhookHttpResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
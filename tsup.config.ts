@@ -1,14 +1,18 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    testing: 'src/testing/index.ts'
+  },
   format: ['cjs', 'esm'],
   dts: true,
   clean: true,
   sourcemap: true,
   minify: false,
   target: 'node18',
-  splitting: false,
+  // Shared chunks keep one copy of the client and error classes for both entry points
+  splitting: true,
   outDir: 'dist',
   external: ['node:*']
 });
\ No newline at end of file